@@ -0,0 +1,55 @@
+import type { ServerInit } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { createEmailTransport } from '$lib/services/EmailTransport.js';
+import { SendQueueService } from '$lib/services/SendQueueService.js';
+import { SequenceService } from '$lib/services/SequenceService.js';
+import { ReplyPollerService } from '$lib/services/ReplyPollerService.js';
+import { ReplyClassifier } from '$lib/services/ReplyClassifier.js';
+import { serverConfig } from '$lib/utils/env.server.js';
+import { createClaudeService } from '$lib/utils/claude.server.js';
+import { lintBlockReason, lintOutgoingEmail } from '$lib/utils/email-lint.server.js';
+import { getWebsiteChangeService } from '$lib/utils/website-checks.server.js';
+
+export const init: ServerInit = async () => {
+    DatabaseService.configure({ autoMigrate: serverConfig.database.autoMigrate });
+    const db = DatabaseService.getInstance();
+
+    if (serverConfig.sendQueue.enabled) {
+        const sendQueueService = new SendQueueService(db, createEmailTransport({
+            transport: serverConfig.email.transport,
+            zoho: serverConfig.zoho,
+            smtp: serverConfig.smtp
+        }), {
+            checkBeforeSend: email => lintBlockReason(lintOutgoingEmail(email))
+        });
+        await sendQueueService.start(serverConfig.sendQueue.pollIntervalMs);
+    }
+
+    if (serverConfig.imap.enabled) {
+        const { mailbox, lookbackDays, pollIntervalMs, ...imapConfig } = serverConfig.imap;
+        const claudeService = createClaudeService();
+        const classifier = claudeService.isConfigured()
+            ? new ReplyClassifier(db, claudeService, serverConfig.replyClassification.reviewThreshold)
+            : undefined;
+        const replyPoller = new ReplyPollerService(db, imapConfig, { mailbox, lookbackDays }, classifier);
+        replyPoller.start(pollIntervalMs);
+    }
+
+    if (serverConfig.websiteChecks.enabled) {
+        getWebsiteChangeService().start(serverConfig.websiteChecks.intervalMs);
+    }
+
+    if (serverConfig.sequences.enabled) {
+        const claudeService = createClaudeService();
+        if (!claudeService.isConfigured()) {
+            console.warn('Follow-up sequences are disabled: Claude is not configured');
+            return;
+        }
+
+        const sequenceService = new SequenceService(db, claudeService, {
+            fromEmail: serverConfig.email.fromAddress,
+            checkBeforeSend: email => lintBlockReason(lintOutgoingEmail(email))
+        });
+        sequenceService.start(serverConfig.sequences.pollIntervalMs);
+    }
+};
@@ -1,4 +1,6 @@
 // Database module exports
 export { DatabaseService } from './service.js';
 export { initializeDatabase, getDatabasePath } from './init.js';
+export { runMigrations, getMigrationStatus, rollbackLastMigration } from './migrator.js';
+export type { Migration, MigrationStatus, AppliedMigration } from './migrator.js';
 export * from '../types/database.js';
\ No newline at end of file
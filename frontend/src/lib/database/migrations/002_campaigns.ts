@@ -0,0 +1,34 @@
+import type { Migration } from '../migrator.js';
+
+// emails.campaign_id is a plain column (no REFERENCES clause) so the rollback
+// can drop it; DatabaseService.deleteCampaign detaches emails instead.
+export const campaigns: Migration = {
+    version: 2,
+    name: 'campaigns',
+    up: `
+-- Campaigns group a batch of outreach emails
+CREATE TABLE campaigns (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  goal TEXT,
+  default_template_id TEXT,
+  default_note_id INTEGER,
+  sender_name TEXT,
+  sender_email TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (default_note_id) REFERENCES notes (id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_campaigns_name ON campaigns(name);
+
+ALTER TABLE emails ADD COLUMN campaign_id INTEGER;
+
+CREATE INDEX idx_emails_campaign_id ON emails(campaign_id);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_emails_campaign_id;
+ALTER TABLE emails DROP COLUMN campaign_id;
+DROP TABLE IF EXISTS campaigns;
+`
+};
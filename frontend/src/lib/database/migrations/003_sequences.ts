@@ -0,0 +1,59 @@
+import type { Migration } from '../migrator.js';
+
+export const sequences: Migration = {
+    version: 3,
+    name: 'sequences',
+    up: `
+-- Follow-up sequence definitions
+CREATE TABLE sequences (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Ordered steps of a sequence; delay_days is counted from the previous step
+CREATE TABLE sequence_steps (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  sequence_id INTEGER NOT NULL,
+  step_order INTEGER NOT NULL,
+  delay_days INTEGER NOT NULL DEFAULT 3,
+  prompt TEXT NOT NULL,
+  template_id TEXT,
+  subject TEXT,
+  FOREIGN KEY (sequence_id) REFERENCES sequences (id) ON DELETE CASCADE,
+  UNIQUE (sequence_id, step_order)
+);
+
+-- Businesses enrolled in a sequence; current_step counts completed steps
+CREATE TABLE sequence_enrollments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  sequence_id INTEGER NOT NULL,
+  business_id INTEGER NOT NULL,
+  campaign_id INTEGER,
+  recipient_email TEXT NOT NULL,
+  sender_name TEXT,
+  sender_email TEXT,
+  current_step INTEGER NOT NULL DEFAULT 0,
+  status TEXT CHECK(status IN ('active', 'completed', 'stopped')) DEFAULT 'active',
+  stop_reason TEXT,
+  next_step_at DATETIME,
+  last_error TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (sequence_id) REFERENCES sequences (id) ON DELETE CASCADE,
+  FOREIGN KEY (business_id) REFERENCES businesses (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_sequence_steps_sequence_id ON sequence_steps(sequence_id);
+CREATE INDEX idx_sequence_enrollments_sequence_id ON sequence_enrollments(sequence_id);
+CREATE INDEX idx_sequence_enrollments_business_id ON sequence_enrollments(business_id);
+CREATE INDEX idx_sequence_enrollments_due ON sequence_enrollments(status, next_step_at);
+`,
+    down: `
+DROP TABLE IF EXISTS sequence_enrollments;
+DROP TABLE IF EXISTS sequence_steps;
+DROP TABLE IF EXISTS sequences;
+`
+};
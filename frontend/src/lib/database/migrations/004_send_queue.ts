@@ -0,0 +1,35 @@
+import type { Migration } from '../migrator.js';
+
+export const sendQueue: Migration = {
+    version: 4,
+    name: 'send_queue',
+    up: `
+-- Outbound emails waiting to be sent by the background worker.
+-- 'sending' rows are claimed by the worker; 'dead' rows ran out of retries.
+CREATE TABLE send_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  email_id INTEGER NOT NULL UNIQUE,
+  recipient_email TEXT NOT NULL,
+  from_name TEXT NOT NULL,
+  from_email TEXT NOT NULL,
+  status TEXT CHECK(status IN ('queued', 'sending', 'sent', 'dead')) DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  scheduled_for DATETIME NOT NULL,
+  next_attempt_at DATETIME NOT NULL,
+  last_error TEXT,
+  last_error_code TEXT,
+  event_data JSON,
+  locked_at DATETIME,
+  sent_at DATETIME,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (email_id) REFERENCES emails (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_send_queue_due ON send_queue(status, next_attempt_at);
+`,
+    down: `
+DROP TABLE IF EXISTS send_queue;
+`
+};
@@ -0,0 +1,29 @@
+import type { Migration } from '../migrator.js';
+
+// emails.message_id holds the Message-ID header of the sent email so IMAP
+// replies can be matched through In-Reply-To/References. Transports that do
+// not expose it (Zoho) leave it NULL and rely on the sender address fallback.
+export const replyTracking: Migration = {
+    version: 5,
+    name: 'reply_tracking',
+    up: `
+ALTER TABLE emails ADD COLUMN message_id TEXT;
+
+CREATE INDEX idx_emails_message_id ON emails(message_id);
+
+-- How far the reply poller has read each mailbox. A changed uid_validity
+-- means the server renumbered the mailbox and it must be rescanned.
+CREATE TABLE mailbox_sync_state (
+  mailbox TEXT PRIMARY KEY,
+  uid_validity INTEGER NOT NULL,
+  last_uid INTEGER NOT NULL DEFAULT 0,
+  last_synced_at DATETIME,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`,
+    down: `
+DROP TABLE IF EXISTS mailbox_sync_state;
+DROP INDEX IF EXISTS idx_emails_message_id;
+ALTER TABLE emails DROP COLUMN message_id;
+`
+};
@@ -0,0 +1,24 @@
+import type { Migration } from '../migrator.js';
+
+// The latest AI verdict on a reply is kept on the email itself; the reply
+// text stays in email_analytics. reply_needs_review flags verdicts too
+// uncertain to apply automatically.
+export const replyClassification: Migration = {
+    version: 6,
+    name: 'reply_classification',
+    up: `
+ALTER TABLE emails ADD COLUMN reply_category TEXT;
+ALTER TABLE emails ADD COLUMN reply_confidence REAL;
+ALTER TABLE emails ADD COLUMN reply_rationale TEXT;
+ALTER TABLE emails ADD COLUMN reply_needs_review INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_emails_reply_needs_review ON emails(reply_needs_review);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_emails_reply_needs_review;
+ALTER TABLE emails DROP COLUMN reply_needs_review;
+ALTER TABLE emails DROP COLUMN reply_rationale;
+ALTER TABLE emails DROP COLUMN reply_confidence;
+ALTER TABLE emails DROP COLUMN reply_category;
+`
+};
@@ -0,0 +1,27 @@
+import type { Migration } from '../migrator.js';
+
+// Generated variants that were not picked, kept against the business so their
+// angles and paragraphs can be reused in later emails.
+export const emailVariants: Migration = {
+    version: 7,
+    name: 'email_variants',
+    up: `
+CREATE TABLE email_variants (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  angle TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  personalization_hooks JSON,
+  scraped_facts JSON,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (business_id) REFERENCES businesses (id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_email_variants_business ON email_variants(business_id, created_at);
+`,
+    down: `
+DROP TABLE IF EXISTS email_variants;
+`
+};
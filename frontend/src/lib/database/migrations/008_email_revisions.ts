@@ -0,0 +1,29 @@
+import type { Migration } from '../migrator.js';
+
+// Every change to an email's subject or content, numbered per email. Emails
+// created before revisions were tracked start with their current content as
+// revision 1; what produced it is unknown, so it is recorded as the generation.
+export const emailRevisions: Migration = {
+    version: 8,
+    name: 'email_revisions',
+    up: `
+CREATE TABLE email_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  email_id INTEGER NOT NULL,
+  revision_number INTEGER NOT NULL,
+  source TEXT CHECK(source IN ('ai_generation', 'ai_refinement', 'manual_edit', 'template_render', 'restore')) NOT NULL,
+  subject TEXT NOT NULL,
+  html_content TEXT NOT NULL,
+  note TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (email_id) REFERENCES emails (id) ON DELETE CASCADE,
+  UNIQUE (email_id, revision_number)
+);
+
+INSERT INTO email_revisions (email_id, revision_number, source, subject, html_content, created_at)
+SELECT id, 1, 'ai_generation', subject, html_content, created_at FROM emails;
+`,
+    down: `
+DROP TABLE IF EXISTS email_revisions;
+`
+};
@@ -0,0 +1,28 @@
+import type { Migration } from '../migrator.js';
+
+// Campaigns can override the server's model settings; emails record the
+// settings that actually produced them. NULL means the default was used.
+export const generationSettings: Migration = {
+    version: 9,
+    name: 'generation_settings',
+    up: `
+ALTER TABLE campaigns ADD COLUMN model TEXT;
+ALTER TABLE campaigns ADD COLUMN temperature REAL;
+ALTER TABLE campaigns ADD COLUMN max_tokens INTEGER;
+
+ALTER TABLE emails ADD COLUMN model TEXT;
+ALTER TABLE emails ADD COLUMN temperature REAL;
+ALTER TABLE emails ADD COLUMN max_tokens INTEGER;
+
+CREATE INDEX idx_emails_model ON emails(model);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_emails_model;
+ALTER TABLE emails DROP COLUMN max_tokens;
+ALTER TABLE emails DROP COLUMN temperature;
+ALTER TABLE emails DROP COLUMN model;
+ALTER TABLE campaigns DROP COLUMN max_tokens;
+ALTER TABLE campaigns DROP COLUMN temperature;
+ALTER TABLE campaigns DROP COLUMN model;
+`
+};
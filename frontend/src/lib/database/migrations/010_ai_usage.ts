@@ -0,0 +1,33 @@
+import type { Migration } from '../migrator.js';
+
+// One row per Claude call. Costs are worked out from the configured price
+// table when reported, so repricing applies to past usage too. Calls made
+// while drafting are linked to their email once it is saved.
+export const aiUsage: Migration = {
+    version: 10,
+    name: 'ai_usage',
+    up: `
+CREATE TABLE ai_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  purpose TEXT NOT NULL CHECK (purpose IN ('generate', 'refine', 'subject', 'classify')),
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  email_id INTEGER,
+  business_id INTEGER,
+  campaign_id INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (email_id) REFERENCES emails (id) ON DELETE SET NULL,
+  FOREIGN KEY (business_id) REFERENCES businesses (id) ON DELETE SET NULL,
+  FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_ai_usage_created_at ON ai_usage(created_at);
+CREATE INDEX idx_ai_usage_email_id ON ai_usage(email_id);
+CREATE INDEX idx_ai_usage_campaign_id ON ai_usage(campaign_id);
+`,
+    down: `
+DROP TABLE IF EXISTS ai_usage;
+`
+};
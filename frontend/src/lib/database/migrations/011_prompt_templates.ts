@@ -0,0 +1,40 @@
+import type { Migration } from '../migrator.js';
+
+// Prompt library. A prompt's content is never edited in place: every change
+// adds a numbered version, and emails point at the version that wrote them.
+// emails.prompt_version_id is a plain column so the rollback can drop it;
+// DatabaseService.deletePromptTemplate detaches emails instead.
+export const promptTemplates: Migration = {
+    version: 11,
+    name: 'prompt_templates',
+    up: `
+CREATE TABLE prompt_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE prompt_template_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  prompt_template_id INTEGER NOT NULL,
+  version INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  note TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (prompt_template_id) REFERENCES prompt_templates (id) ON DELETE CASCADE,
+  UNIQUE (prompt_template_id, version)
+);
+
+ALTER TABLE emails ADD COLUMN prompt_version_id INTEGER;
+
+CREATE INDEX idx_emails_prompt_version_id ON emails(prompt_version_id);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_emails_prompt_version_id;
+ALTER TABLE emails DROP COLUMN prompt_version_id;
+DROP TABLE IF EXISTS prompt_template_versions;
+DROP TABLE IF EXISTS prompt_templates;
+`
+};
@@ -0,0 +1,59 @@
+import type { Migration } from '../migrator.js';
+
+// Fact checks of generated emails are metered as their own purpose. SQLite
+// cannot change a CHECK constraint in place, so the table is rebuilt; rolling
+// back drops the fact check rows.
+export const factCheckUsage: Migration = {
+    version: 12,
+    name: 'fact_check_usage',
+    up: `
+CREATE TABLE ai_usage_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  purpose TEXT NOT NULL CHECK (purpose IN ('generate', 'refine', 'subject', 'classify', 'verify')),
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  email_id INTEGER,
+  business_id INTEGER,
+  campaign_id INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (email_id) REFERENCES emails (id) ON DELETE SET NULL,
+  FOREIGN KEY (business_id) REFERENCES businesses (id) ON DELETE SET NULL,
+  FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE SET NULL
+);
+
+INSERT INTO ai_usage_new SELECT * FROM ai_usage;
+DROP TABLE ai_usage;
+ALTER TABLE ai_usage_new RENAME TO ai_usage;
+
+CREATE INDEX idx_ai_usage_created_at ON ai_usage(created_at);
+CREATE INDEX idx_ai_usage_email_id ON ai_usage(email_id);
+CREATE INDEX idx_ai_usage_campaign_id ON ai_usage(campaign_id);
+`,
+    down: `
+CREATE TABLE ai_usage_old (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  purpose TEXT NOT NULL CHECK (purpose IN ('generate', 'refine', 'subject', 'classify')),
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  email_id INTEGER,
+  business_id INTEGER,
+  campaign_id INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (email_id) REFERENCES emails (id) ON DELETE SET NULL,
+  FOREIGN KEY (business_id) REFERENCES businesses (id) ON DELETE SET NULL,
+  FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE SET NULL
+);
+
+INSERT INTO ai_usage_old SELECT * FROM ai_usage WHERE purpose != 'verify';
+DROP TABLE ai_usage;
+ALTER TABLE ai_usage_old RENAME TO ai_usage;
+
+CREATE INDEX idx_ai_usage_created_at ON ai_usage(created_at);
+CREATE INDEX idx_ai_usage_email_id ON ai_usage(email_id);
+CREATE INDEX idx_ai_usage_campaign_id ON ai_usage(campaign_id);
+`
+};
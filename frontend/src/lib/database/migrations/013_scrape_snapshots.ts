@@ -0,0 +1,32 @@
+import type { Migration } from '../migrator.js';
+
+// Every scrape of a website, with the start page's HTML as it was at the time.
+// Recent successful snapshots are served instead of scraping again, and an
+// email records the snapshot its content was written from.
+export const scrapeSnapshots: Migration = {
+    version: 13,
+    name: 'scrape_snapshots',
+    up: `
+CREATE TABLE scrape_snapshots (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  url TEXT NOT NULL,
+  final_url TEXT,
+  status TEXT CHECK(status IN ('success', 'partial', 'failed')) NOT NULL,
+  http_status INTEGER,
+  mode TEXT,
+  html TEXT,
+  scraped_data JSON,
+  error_code TEXT,
+  scraped_at DATETIME NOT NULL
+);
+
+CREATE INDEX idx_scrape_snapshots_url ON scrape_snapshots(url, scraped_at);
+
+ALTER TABLE emails ADD COLUMN scrape_snapshot_id INTEGER;
+`,
+    down: `
+ALTER TABLE emails DROP COLUMN scrape_snapshot_id;
+DROP INDEX IF EXISTS idx_scrape_snapshots_url;
+DROP TABLE IF EXISTS scrape_snapshots;
+`
+};
@@ -0,0 +1,29 @@
+import type { Migration } from '../migrator.js';
+
+// Differences found when a business's website is scraped again, recorded
+// against the two snapshots compared. Changes newer than the business's latest
+// email are offered as hooks for the next one.
+export const websiteChanges: Migration = {
+    version: 14,
+    name: 'website_changes',
+    up: `
+CREATE TABLE website_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  snapshot_id INTEGER,
+  previous_snapshot_id INTEGER,
+  summary TEXT NOT NULL,
+  changes JSON NOT NULL,
+  detected_at DATETIME NOT NULL,
+  FOREIGN KEY (business_id) REFERENCES businesses (id) ON DELETE CASCADE,
+  FOREIGN KEY (snapshot_id) REFERENCES scrape_snapshots (id) ON DELETE SET NULL,
+  FOREIGN KEY (previous_snapshot_id) REFERENCES scrape_snapshots (id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_website_changes_business_id ON website_changes(business_id, detected_at);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_website_changes_business_id;
+DROP TABLE IF EXISTS website_changes;
+`
+};
@@ -0,0 +1,19 @@
+import type { Migration } from '../migrator.js';
+
+// Emails written from a note, before the prompt library existed or alongside
+// it, record that note so prompt analytics can tell them apart.
+// emails.note_id is a plain column so the rollback can drop it;
+// DatabaseService.deleteNote detaches emails instead.
+export const emailNotes: Migration = {
+    version: 15,
+    name: 'email_notes',
+    up: `
+ALTER TABLE emails ADD COLUMN note_id INTEGER;
+
+CREATE INDEX idx_emails_note_id ON emails(note_id);
+`,
+    down: `
+DROP INDEX IF EXISTS idx_emails_note_id;
+ALTER TABLE emails DROP COLUMN note_id;
+`
+};
@@ -0,0 +1,17 @@
+import type { Migration } from '../migrator.js';
+
+// The options a snapshot was scraped with, so a cached snapshot is only served
+// to a scrape that asks for the same pages and mode. Snapshots from before
+// this have none and are never served from cache again.
+export const scrapeOptions: Migration = {
+    version: 16,
+    name: 'scrape_options',
+    up: `
+ALTER TABLE scrape_snapshots ADD COLUMN max_pages INTEGER;
+ALTER TABLE scrape_snapshots ADD COLUMN requested_mode TEXT;
+`,
+    down: `
+ALTER TABLE scrape_snapshots DROP COLUMN requested_mode;
+ALTER TABLE scrape_snapshots DROP COLUMN max_pages;
+`
+};
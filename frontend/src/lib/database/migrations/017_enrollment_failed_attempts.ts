@@ -0,0 +1,14 @@
+import type { Migration } from '../migrator.js';
+
+// Failed attempts at an enrollment's current step, so a step that keeps
+// failing stops the enrollment instead of being retried forever.
+export const enrollmentFailedAttempts: Migration = {
+    version: 17,
+    name: 'enrollment_failed_attempts',
+    up: `
+ALTER TABLE sequence_enrollments ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0;
+`,
+    down: `
+ALTER TABLE sequence_enrollments DROP COLUMN failed_attempts;
+`
+};
@@ -0,0 +1,40 @@
+import type { Migration } from '../migrator.js';
+import { initialSchema } from './001_initial_schema.js';
+import { campaigns } from './002_campaigns.js';
+import { sequences } from './003_sequences.js';
+import { sendQueue } from './004_send_queue.js';
+import { replyTracking } from './005_reply_tracking.js';
+import { replyClassification } from './006_reply_classification.js';
+import { emailVariants } from './007_email_variants.js';
+import { emailRevisions } from './008_email_revisions.js';
+import { generationSettings } from './009_generation_settings.js';
+import { aiUsage } from './010_ai_usage.js';
+import { promptTemplates } from './011_prompt_templates.js';
+import { factCheckUsage } from './012_fact_check_usage.js';
+import { scrapeSnapshots } from './013_scrape_snapshots.js';
+import { websiteChanges } from './014_website_changes.js';
+import { emailNotes } from './015_email_notes.js';
+import { scrapeOptions } from './016_scrape_options.js';
+import { enrollmentFailedAttempts } from './017_enrollment_failed_attempts.js';
+
+// Ordered list of all schema migrations. Append new migrations here; never
+// edit or renumber one that has already shipped.
+export const migrations: Migration[] = [
+    initialSchema,
+    campaigns,
+    sequences,
+    sendQueue,
+    replyTracking,
+    replyClassification,
+    emailVariants,
+    emailRevisions,
+    generationSettings,
+    aiUsage,
+    promptTemplates,
+    factCheckUsage,
+    scrapeSnapshots,
+    websiteChanges,
+    emailNotes,
+    scrapeOptions,
+    enrollmentFailedAttempts
+];
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { runMigrations, getMigrationStatus, rollbackLastMigration, type Migration } from './migrator.js';
+
+const testMigrations: Migration[] = [
+    {
+        version: 1,
+        name: 'create_widgets',
+        up: 'CREATE TABLE widgets (id INTEGER PRIMARY KEY, name TEXT NOT NULL);',
+        down: 'DROP TABLE widgets;'
+    },
+    {
+        version: 2,
+        name: 'add_widget_color',
+        up: 'ALTER TABLE widgets ADD COLUMN color TEXT;',
+        down: 'ALTER TABLE widgets DROP COLUMN color;'
+    }
+];
+
+function columnNames(db: Database.Database, table: string): string[] {
+    return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+describe('migrator', () => {
+    let db: Database.Database;
+
+    beforeEach(() => {
+        db = new Database(':memory:');
+    });
+
+    afterEach(() => {
+        db.close();
+    });
+
+    it('should list pending migrations without applying them', () => {
+        const status = getMigrationStatus(db, testMigrations);
+
+        expect(status.currentVersion).toBe(0);
+        expect(status.applied).toHaveLength(0);
+        expect(status.pending.map(m => m.version)).toEqual([1, 2]);
+        expect(db.prepare("SELECT name FROM sqlite_master WHERE name = 'widgets'").get()).toBeUndefined();
+    });
+
+    it('should apply pending migrations in order and record them', () => {
+        const applied = runMigrations(db, [testMigrations[1], testMigrations[0]]);
+
+        expect(applied.map(m => m.version)).toEqual([1, 2]);
+        expect(columnNames(db, 'widgets')).toContain('color');
+
+        const status = getMigrationStatus(db, testMigrations);
+        expect(status.currentVersion).toBe(2);
+        expect(status.pending).toHaveLength(0);
+    });
+
+    it('should skip migrations that were already applied', () => {
+        runMigrations(db, testMigrations.slice(0, 1));
+        const applied = runMigrations(db, testMigrations);
+
+        expect(applied.map(m => m.version)).toEqual([2]);
+    });
+
+    it('should leave the database unchanged when a migration fails', () => {
+        const broken: Migration = {
+            version: 3,
+            name: 'broken',
+            up: 'ALTER TABLE widgets ADD COLUMN size INTEGER; INSERT INTO missing_table VALUES (1);',
+            down: ''
+        };
+
+        runMigrations(db, testMigrations);
+        expect(() => runMigrations(db, [...testMigrations, broken])).toThrow();
+
+        expect(columnNames(db, 'widgets')).not.toContain('size');
+        expect(getMigrationStatus(db, testMigrations).currentVersion).toBe(2);
+    });
+
+    it('should roll back only the last applied migration', () => {
+        runMigrations(db, testMigrations);
+
+        const rolledBack = rollbackLastMigration(db, testMigrations);
+
+        expect(rolledBack?.version).toBe(2);
+        expect(columnNames(db, 'widgets')).not.toContain('color');
+        expect(getMigrationStatus(db, testMigrations).pending.map(m => m.version)).toEqual([2]);
+    });
+
+    it('should return null when there is nothing to roll back', () => {
+        expect(rollbackLastMigration(db, testMigrations)).toBeNull();
+    });
+
+    it('should reject duplicate migration versions', () => {
+        expect(() => runMigrations(db, [testMigrations[0], { ...testMigrations[1], version: 1 }])).toThrow('Duplicate');
+    });
+});
@@ -0,0 +1,164 @@
+import Database from 'better-sqlite3';
+import { migrations as defaultMigrations } from './migrations/index.js';
+
+/**
+ * A single numbered schema change. `up` and `down` are plain SQL scripts and
+ * may contain several statements.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: string;
+    down: string;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    appliedAt: Date;
+}
+
+export interface MigrationStatus {
+    currentVersion: number;
+    applied: AppliedMigration[];
+    pending: Pick<Migration, 'version' | 'name'>[];
+}
+
+interface SchemaMigrationRow {
+    version: number;
+    name: string;
+    applied_at: string;
+}
+
+/**
+ * Create the bookkeeping table that records which migrations have run
+ */
+function ensureMigrationsTable(db: Database.Database): void {
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/**
+ * Sort migrations by version and reject duplicate version numbers
+ */
+function orderMigrations(migrations: Migration[]): Migration[] {
+    const sorted = [...migrations].sort((a, b) => a.version - b.version);
+
+    for (let i = 1; i < sorted.length; i++) {
+        if (sorted[i].version === sorted[i - 1].version) {
+            throw new Error(`Duplicate migration version: ${sorted[i].version}`);
+        }
+    }
+
+    return sorted;
+}
+
+/**
+ * Get migrations that have been applied, oldest first
+ */
+function getAppliedMigrations(db: Database.Database): AppliedMigration[] {
+    ensureMigrationsTable(db);
+
+    const rows = db
+        .prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC')
+        .all() as SchemaMigrationRow[];
+
+    return rows.map(row => ({
+        version: row.version,
+        name: row.name,
+        appliedAt: new Date(row.applied_at)
+    }));
+}
+
+/**
+ * Report applied and pending migrations without changing anything (dry run)
+ */
+export function getMigrationStatus(
+    db: Database.Database,
+    migrations: Migration[] = defaultMigrations
+): MigrationStatus {
+    const applied = getAppliedMigrations(db);
+    const appliedVersions = new Set(applied.map(m => m.version));
+
+    const pending = orderMigrations(migrations)
+        .filter(m => !appliedVersions.has(m.version))
+        .map(({ version, name }) => ({ version, name }));
+
+    return {
+        currentVersion: applied.length > 0 ? applied[applied.length - 1].version : 0,
+        applied,
+        pending
+    };
+}
+
+/**
+ * Apply every pending migration in version order. Each migration runs in its
+ * own transaction, so a failing step leaves the database at the previous version.
+ * @returns The migrations that were applied
+ */
+export function runMigrations(
+    db: Database.Database,
+    migrations: Migration[] = defaultMigrations
+): Migration[] {
+    const appliedVersions = new Set(getAppliedMigrations(db).map(m => m.version));
+    const pending = orderMigrations(migrations).filter(m => !appliedVersions.has(m.version));
+
+    const recordMigration = db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+
+    for (const migration of pending) {
+        const apply = db.transaction(() => {
+            db.exec(migration.up);
+            recordMigration.run(migration.version, migration.name);
+        });
+
+        try {
+            apply();
+            console.log(`Applied migration ${migration.version}_${migration.name}`);
+        } catch (error) {
+            console.error(`Error applying migration ${migration.version}_${migration.name}`);
+            throw error;
+        }
+    }
+
+    return pending;
+}
+
+/**
+ * Revert the most recently applied migration
+ * @returns The migration that was rolled back, or null if none were applied
+ */
+export function rollbackLastMigration(
+    db: Database.Database,
+    migrations: Migration[] = defaultMigrations
+): Migration | null {
+    const applied = getAppliedMigrations(db);
+    if (applied.length === 0) {
+        return null;
+    }
+
+    const last = applied[applied.length - 1];
+    const migration = migrations.find(m => m.version === last.version);
+    if (!migration) {
+        throw new Error(`No migration definition found for applied version ${last.version}`);
+    }
+
+    const revert = db.transaction(() => {
+        db.exec(migration.down);
+        db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+    });
+
+    try {
+        revert();
+        console.log(`Rolled back migration ${migration.version}_${migration.name}`);
+    } catch (error) {
+        console.error(`Error rolling back migration ${migration.version}_${migration.name}`);
+        throw error;
+    }
+
+    return migration;
+}
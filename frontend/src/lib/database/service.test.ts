@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DatabaseService } from './service.js';
+
+vi.mock('./init.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('./init.js')>()),
+    getDatabasePath: () => ':memory:'
+}));
+
+describe('DatabaseService date filters', () => {
+    // Rows are stamped with CURRENT_TIMESTAMP, so the filters are checked around today
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const endOfYesterday = new Date(today.getTime() - 1);
+
+    it('keeps rows from the first day of the range and drops those after its end', async () => {
+        const db = DatabaseService.getInstance();
+        const businessId = await db.createBusiness({ name: 'Rise Bakery' });
+        const emailId = await db.saveDraft({ businessId, subject: 'Hello', htmlContent: '<p>Hi</p>' });
+        const usageId = await db.recordAIUsage({ purpose: 'generate', model: 'claude-test', inputTokens: 10, outputTokens: 5, latencyMs: 100 });
+
+        expect((await db.getAIUsage({ dateFrom: today })).map(usage => usage.id)).toContain(usageId);
+        expect(await db.getAIUsage({ dateTo: endOfYesterday })).toEqual([]);
+
+        expect((await db.searchEmails({ dateFrom: today })).map(email => email.id)).toContain(emailId);
+        expect(await db.searchEmails({ dateTo: endOfYesterday })).toEqual([]);
+    });
+});
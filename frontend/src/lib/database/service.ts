@@ -1,10 +1,39 @@
 import Database from 'better-sqlite3';
 import { initializeDatabase, getDatabasePath } from './init.js';
+import { getMigrationStatus, runMigrations, rollbackLastMigration, type MigrationStatus } from './migrator.js';
 import type {
     Business,
     Email,
     Note,
     EmailAnalytics,
+    Campaign,
+    CampaignData,
+    Sequence,
+    SequenceData,
+    SequenceEnrollment,
+    SequenceEnrollmentData,
+    EnrollmentStatus,
+    SendQueueItem,
+    SendQueueData,
+    QueueStatus,
+    MailboxSyncState,
+    EmailReplyClassification,
+    EmailVariant,
+    EmailVariantData,
+    EmailRevision,
+    EmailRevisionData,
+    EmailRevisionSource,
+    GenerationSettings,
+    PromptTemplate,
+    PromptTemplateData,
+    PromptTemplateVersion,
+    PromptTemplateRow,
+    PromptTemplateVersionRow,
+    AIUsage,
+    AIUsageData,
+    AIUsageFilters,
+    AIUsagePurpose,
+    AIUsageRow,
     BusinessData,
     EmailDraft,
     NoteData,
@@ -15,16 +44,52 @@ import type {
     EmailRow,
     NoteRow,
     EmailAnalyticsRow,
-    ScrapedData
+    CampaignRow,
+    SequenceRow,
+    SequenceStepRow,
+    SequenceEnrollmentRow,
+    SendQueueRow,
+    MailboxSyncStateRow,
+    EmailVariantRow,
+    EmailRevisionRow,
+    ScrapeSnapshot,
+    ScrapeSnapshotData,
+    ScrapeSnapshotOptions,
+    ScrapeSnapshotRow,
+    ScrapeSnapshotStatus,
+    ScrapedData,
+    WebsiteChange,
+    WebsiteChangeData,
+    WebsiteChangeEvent,
+    WebsiteChangeRow
 } from '../types/database.js';
 
+// Send queue columns joined onto email rows
+interface EmailQueueColumns {
+    queue_item_id: number | null;
+    queue_status: string | null;
+    scheduled_for: string | null;
+    send_attempts: number | null;
+    last_send_error: string | null;
+}
+
 export class DatabaseService {
     private db: Database.Database;
     private static instance: DatabaseService;
+    private static options: { autoMigrate?: boolean } = {};
 
     private constructor() {
         const dbPath = getDatabasePath();
-        this.db = initializeDatabase(dbPath);
+        this.db = initializeDatabase(dbPath, {
+            migrate: DatabaseService.options.autoMigrate ?? true
+        });
+    }
+
+    /**
+     * Set how the database is opened; call before the first getInstance
+     */
+    public static configure(options: { autoMigrate?: boolean }): void {
+        DatabaseService.options = options;
     }
 
     /**
@@ -44,6 +109,31 @@ export class DatabaseService {
         this.db.close();
     }
 
+    // Schema migration operations
+
+    /**
+     * List applied and pending migrations without changing the schema
+     */
+    public getMigrationStatus(): MigrationStatus {
+        return getMigrationStatus(this.db);
+    }
+
+    /**
+     * Apply all pending migrations
+     * @returns Versions that were applied
+     */
+    public applyMigrations(): number[] {
+        return runMigrations(this.db).map(m => m.version);
+    }
+
+    /**
+     * Roll back the most recently applied migration
+     * @returns Version that was rolled back, or null if nothing was applied
+     */
+    public rollbackLastMigration(): number | null {
+        return rollbackLastMigration(this.db)?.version ?? null;
+    }
+
     // Business operations
 
     /**
@@ -88,6 +178,28 @@ export class DatabaseService {
         return row ? this.mapBusinessRow(row) : null;
     }
 
+    /**
+     * Businesses with a website to scrape, oldest first
+     */
+    public async getBusinessesWithWebsite(): Promise<Business[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM businesses
+      WHERE website_url IS NOT NULL AND TRIM(website_url) != ''
+      ORDER BY id ASC
+    `);
+        const rows = stmt.all() as BusinessRow[];
+
+        return rows.map(row => this.mapBusinessRow(row));
+    }
+
+    /**
+     * Replace a business's scraped data with a newer scrape
+     */
+    public async updateBusinessScrapedData(businessId: number, scrapedData: ScrapedData): Promise<void> {
+        const stmt = this.db.prepare('UPDATE businesses SET scraped_data = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?');
+        stmt.run(JSON.stringify(scrapedData), businessId);
+    }
+
     /**
      * Search businesses with filters
      */
@@ -140,29 +252,107 @@ export class DatabaseService {
         return rows.map(row => this.mapEmailRow(row));
     }
 
+    // Email variant operations
+
+    /**
+     * Store generated variants that were not picked
+     */
+    public async saveEmailVariants(variants: EmailVariantData[]): Promise<number[]> {
+        const stmt = this.db.prepare(`
+      INSERT INTO email_variants (business_id, angle, subject, html_body, text_body, personalization_hooks, scraped_facts)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+        return this.db.transaction(() => variants.map(variant => stmt.run(
+            variant.businessId,
+            variant.angle,
+            variant.subject,
+            variant.htmlBody,
+            variant.textBody,
+            JSON.stringify(variant.personalizationHooks || []),
+            JSON.stringify(variant.scrapedFacts || [])
+        ).lastInsertRowid as number))();
+    }
+
+    /**
+     * Get the stored variants for a business, newest first
+     */
+    public async getEmailVariantsForBusiness(businessId: number): Promise<EmailVariant[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM email_variants
+      WHERE business_id = ?
+      ORDER BY created_at DESC, id DESC
+    `);
+
+        const rows = stmt.all(businessId) as EmailVariantRow[];
+        return rows.map(row => this.mapEmailVariantRow(row));
+    }
+
+    /**
+     * Delete a stored variant
+     */
+    public async deleteEmailVariant(variantId: number): Promise<void> {
+        const stmt = this.db.prepare('DELETE FROM email_variants WHERE id = ?');
+        stmt.run(variantId);
+    }
+
     // Email operations
 
     /**
-     * Save email draft
+     * Save email draft, along with the revisions that led to it
      */
     public async saveDraft(emailData: EmailDraft): Promise<number> {
         const stmt = this.db.prepare(`
-      INSERT INTO emails (business_id, subject, html_content, personal_notes, updated_at)
-      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      INSERT INTO emails (business_id, campaign_id, subject, html_content, personal_notes, model, temperature, max_tokens, prompt_version_id, note_id, scrape_snapshot_id, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+        const linkUsage = this.db.prepare(`
+      UPDATE ai_usage SET email_id = ?, business_id = ?, campaign_id = COALESCE(campaign_id, ?)
+      WHERE id = ? AND email_id IS NULL
     `);
 
-        const result = stmt.run(
-            emailData.businessId,
-            emailData.subject,
-            emailData.htmlContent,
-            emailData.personalNotes || null
-        );
+        return this.db.transaction(() => {
+            const result = stmt.run(
+                emailData.businessId,
+                emailData.campaignId || null,
+                emailData.subject,
+                emailData.htmlContent,
+                emailData.personalNotes || null,
+                emailData.generationSettings?.model || null,
+                emailData.generationSettings?.temperature ?? null,
+                emailData.generationSettings?.maxTokens ?? null,
+                emailData.promptVersionId || null,
+                emailData.noteId || null,
+                emailData.scrapeSnapshotId || null
+            );
+            const emailId = result.lastInsertRowid as number;
+
+            const revisions = emailData.revisions || [];
+            for (const revision of revisions) {
+                this.insertRevision(emailId, revision);
+            }
 
-        return result.lastInsertRowid as number;
+            // The saved content is always the latest revision
+            const last = revisions[revisions.length - 1];
+            if (!last || last.htmlContent !== emailData.htmlContent || last.subject !== emailData.subject) {
+                this.insertRevision(emailId, {
+                    source: emailData.contentSource || 'ai_generation',
+                    subject: emailData.subject,
+                    htmlContent: emailData.htmlContent
+                });
+            }
+
+            // Calls made while drafting were recorded before the email existed
+            for (const usageId of emailData.aiUsageIds || []) {
+                linkUsage.run(emailId, emailData.businessId, emailData.campaignId || null, usageId);
+            }
+
+            return emailId;
+        })();
     }
 
     /**
-     * Update email send status
+     * Update email send status. A sent email starts waiting for a reply.
      */
     public async updateEmailStatus(
         emailId: number,
@@ -171,11 +361,13 @@ export class DatabaseService {
     ): Promise<void> {
         const stmt = this.db.prepare(`
       UPDATE emails 
-      SET send_status = ?, sent_at = ?, updated_at = CURRENT_TIMESTAMP
+      SET send_status = ?, sent_at = ?,
+        response_status = CASE WHEN ? = 'sent' AND response_status = 'unsent' THEN 'no_response' ELSE response_status END,
+        updated_at = CURRENT_TIMESTAMP
       WHERE id = ?
     `);
 
-        stmt.run(status, sentAt?.toISOString() || null, emailId);
+        stmt.run(status, sentAt?.toISOString() || null, status, emailId);
     }
 
     /**
@@ -187,11 +379,20 @@ export class DatabaseService {
     ): Promise<void> {
         const stmt = this.db.prepare(`
       UPDATE emails 
-      SET response_status = ?, updated_at = CURRENT_TIMESTAMP
+      SET response_status = ?, reply_needs_review = 0, updated_at = CURRENT_TIMESTAMP
       WHERE id = ?
     `);
 
+        // Setting the status settles any reply verdict waiting for review
         stmt.run(status, emailId);
+
+        // A reply of any kind ends the follow-up sequences for that business
+        if (status === 'good_response' || status === 'bad_response') {
+            const email = await this.getEmailById(emailId);
+            if (email) {
+                await this.stopEnrollmentsForBusiness(email.businessId, status);
+            }
+        }
     }
 
     /**
@@ -199,9 +400,11 @@ export class DatabaseService {
      */
     public async searchEmails(filters: EmailFilters = {}): Promise<Email[]> {
         let query = `
-      SELECT e.*, b.name as business_name 
+      SELECT e.*, b.name as business_name,
+        q.id as queue_item_id, q.status as queue_status, q.scheduled_for, q.attempts as send_attempts, q.last_error as last_send_error
       FROM emails e
       LEFT JOIN businesses b ON e.business_id = b.id
+      LEFT JOIN send_queue q ON q.email_id = e.id
       WHERE 1=1
     `;
         const params: any[] = [];
@@ -211,7 +414,18 @@ export class DatabaseService {
             params.push(`%${filters.businessName}%`);
         }
 
-        if (filters.sendStatus) {
+        if (filters.campaignId) {
+            query += ' AND e.campaign_id = ?';
+            params.push(filters.campaignId);
+        }
+
+        if (filters.sendStatus === 'queued' || filters.sendStatus === 'sending' || filters.sendStatus === 'dead') {
+            query += ' AND q.status = ?';
+            params.push(filters.sendStatus);
+        } else if (filters.sendStatus === 'draft') {
+            // Queued emails are still drafts until the worker sends them
+            query += " AND e.send_status = 'draft' AND q.id IS NULL";
+        } else if (filters.sendStatus) {
             query += ' AND e.send_status = ?';
             params.push(filters.sendStatus);
         }
@@ -221,13 +435,17 @@ export class DatabaseService {
             params.push(filters.responseStatus);
         }
 
+        if (filters.needsReview) {
+            query += ' AND e.reply_needs_review = 1';
+        }
+
         if (filters.dateFrom) {
-            query += ' AND e.created_at >= ?';
+            query += ' AND datetime(e.created_at) >= datetime(?)';
             params.push(filters.dateFrom.toISOString());
         }
 
         if (filters.dateTo) {
-            query += ' AND e.created_at <= ?';
+            query += ' AND datetime(e.created_at) <= datetime(?)';
             params.push(filters.dateTo.toISOString());
         }
 
@@ -244,7 +462,7 @@ export class DatabaseService {
         }
 
         const stmt = this.db.prepare(query);
-        const rows = stmt.all(...params) as (EmailRow & { business_name: string })[];
+        const rows = stmt.all(...params) as (EmailRow & EmailQueueColumns & { business_name: string })[];
 
         return rows.map(row => this.mapEmailRow(row));
     }
@@ -253,8 +471,13 @@ export class DatabaseService {
      * Get email by ID
      */
     public async getEmailById(id: number): Promise<Email | null> {
-        const stmt = this.db.prepare('SELECT * FROM emails WHERE id = ?');
-        const row = stmt.get(id) as EmailRow | undefined;
+        const stmt = this.db.prepare(`
+      SELECT e.*, q.id as queue_item_id, q.status as queue_status, q.scheduled_for, q.attempts as send_attempts, q.last_error as last_send_error
+      FROM emails e
+      LEFT JOIN send_queue q ON q.email_id = e.id
+      WHERE e.id = ?
+    `);
+        const row = stmt.get(id) as (EmailRow & EmailQueueColumns) | undefined;
 
         return row ? this.mapEmailRow(row) : null;
     }
@@ -268,15 +491,104 @@ export class DatabaseService {
     }
 
     /**
-     * Update email HTML content
+     * Update email subject and/or HTML content, recording the change as a revision.
+     * Returns the new revision, or null if nothing changed.
      */
-    public async updateEmailContent(emailId: number, htmlContent: string): Promise<void> {
+    public async updateEmailContent(
+        emailId: number,
+        changes: { htmlContent?: string; subject?: string },
+        source: EmailRevisionSource = 'manual_edit',
+        note?: string
+    ): Promise<EmailRevision | null> {
+        const current = this.db.prepare('SELECT subject, html_content FROM emails WHERE id = ?')
+            .get(emailId) as { subject: string; html_content: string } | undefined;
+        if (!current) {
+            return null;
+        }
+
+        const subject = changes.subject ?? current.subject;
+        const htmlContent = changes.htmlContent ?? current.html_content;
+        if (subject === current.subject && htmlContent === current.html_content) {
+            return null;
+        }
+
         const stmt = this.db.prepare(`
       UPDATE emails 
-      SET html_content = ?, updated_at = CURRENT_TIMESTAMP
+      SET subject = ?, html_content = ?, updated_at = CURRENT_TIMESTAMP
       WHERE id = ?
     `);
-        stmt.run(htmlContent, emailId);
+
+        const revisionId = this.db.transaction(() => {
+            stmt.run(subject, htmlContent, emailId);
+            return this.insertRevision(emailId, { source, subject, htmlContent, note });
+        })();
+
+        return this.getEmailRevisionById(revisionId);
+    }
+
+    // Email revision operations
+
+    /**
+     * Get every revision of an email, oldest first
+     */
+    public async getEmailRevisions(emailId: number): Promise<EmailRevision[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM email_revisions
+      WHERE email_id = ?
+      ORDER BY revision_number ASC
+    `);
+
+        const rows = stmt.all(emailId) as EmailRevisionRow[];
+        return rows.map(row => this.mapEmailRevisionRow(row));
+    }
+
+    /**
+     * Get a revision by ID
+     */
+    public async getEmailRevisionById(revisionId: number): Promise<EmailRevision | null> {
+        const stmt = this.db.prepare('SELECT * FROM email_revisions WHERE id = ?');
+        const row = stmt.get(revisionId) as EmailRevisionRow | undefined;
+
+        return row ? this.mapEmailRevisionRow(row) : null;
+    }
+
+    /**
+     * Put an older revision's subject and content back on the email. The
+     * restore is itself recorded as a new revision, so nothing is lost.
+     */
+    public async restoreEmailRevision(emailId: number, revisionId: number): Promise<EmailRevision | null> {
+        const revision = await this.getEmailRevisionById(revisionId);
+        if (!revision || revision.emailId !== emailId) {
+            return null;
+        }
+
+        const restored = await this.updateEmailContent(
+            emailId,
+            { subject: revision.subject, htmlContent: revision.htmlContent },
+            'restore',
+            `Restored revision ${revision.revisionNumber}`
+        );
+
+        // Restoring the content the email already has changes nothing
+        return restored || revision;
+    }
+
+    private insertRevision(emailId: number, revision: EmailRevisionData): number {
+        const stmt = this.db.prepare(`
+      INSERT INTO email_revisions (email_id, revision_number, source, subject, html_content, note)
+      VALUES (?, (SELECT COALESCE(MAX(revision_number), 0) + 1 FROM email_revisions WHERE email_id = ?), ?, ?, ?, ?)
+    `);
+
+        const result = stmt.run(
+            emailId,
+            emailId,
+            revision.source,
+            revision.subject,
+            revision.htmlContent,
+            revision.note || null
+        );
+
+        return result.lastInsertRowid as number;
     }
 
     // Notes operations
@@ -359,11 +671,16 @@ export class DatabaseService {
     }
 
     /**
-     * Delete a note
+     * Delete a note, keeping the emails written from it
      */
     public async deleteNote(noteId: number): Promise<void> {
-        const stmt = this.db.prepare('DELETE FROM notes WHERE id = ?');
-        stmt.run(noteId);
+        const detachEmails = this.db.prepare('UPDATE emails SET note_id = NULL WHERE note_id = ?');
+        const deleteNote = this.db.prepare('DELETE FROM notes WHERE id = ?');
+
+        this.db.transaction(() => {
+            detachEmails.run(noteId);
+            deleteNote.run(noteId);
+        })();
     }
 
     /**
@@ -376,79 +693,1232 @@ export class DatabaseService {
         return row ? this.mapNoteRow(row) : null;
     }
 
-    // Email Analytics operations
+    // Prompt library operations
 
     /**
-     * Record email analytics event
+     * Create a prompt together with its first version
      */
-    public async recordEmailEvent(
-        emailId: number,
-        eventType: 'sent' | 'opened' | 'clicked' | 'replied',
-        eventData?: Record<string, any>
-    ): Promise<number> {
+    public async createPromptTemplate(template: PromptTemplateData): Promise<number> {
         const stmt = this.db.prepare(`
-      INSERT INTO email_analytics (email_id, event_type, event_data)
-      VALUES (?, ?, ?)
+      INSERT INTO prompt_templates (name, description, updated_at)
+      VALUES (?, ?, CURRENT_TIMESTAMP)
     `);
 
-        const eventDataJson = eventData ? JSON.stringify(eventData) : null;
+        return this.db.transaction(() => {
+            const result = stmt.run(template.name, template.description || null);
+            const templateId = result.lastInsertRowid as number;
 
-        const result = stmt.run(emailId, eventType, eventDataJson);
+            this.insertPromptVersion(templateId, template.content, template.note);
+
+            return templateId;
+        })();
+    }
+
+    /**
+     * Get all prompts with their latest version, most recently changed first
+     */
+    public async getAllPromptTemplates(): Promise<PromptTemplate[]> {
+        const rows = this.db.prepare(`
+      SELECT t.*, COUNT(v.id) AS version_count
+      FROM prompt_templates t
+      JOIN prompt_template_versions v ON v.prompt_template_id = t.id
+      GROUP BY t.id
+      ORDER BY t.updated_at DESC, t.id DESC
+    `).all() as (PromptTemplateRow & { version_count: number })[];
+
+        return rows.map(row => this.mapPromptTemplateRow(row, this.getLatestPromptVersionRow(row.id)!));
+    }
+
+    /**
+     * Get prompt by ID with its latest version
+     */
+    public async getPromptTemplateById(id: number): Promise<PromptTemplate | null> {
+        const row = this.db.prepare(`
+      SELECT t.*, (SELECT COUNT(*) FROM prompt_template_versions WHERE prompt_template_id = t.id) AS version_count
+      FROM prompt_templates t
+      WHERE t.id = ?
+    `).get(id) as (PromptTemplateRow & { version_count: number }) | undefined;
+
+        return row ? this.mapPromptTemplateRow(row, this.getLatestPromptVersionRow(id)!) : null;
+    }
+
+    /**
+     * Update a prompt; only the provided fields are changed. New content is
+     * added as a new version rather than replacing the old one.
+     */
+    public async updatePromptTemplate(templateId: number, updates: Partial<PromptTemplateData>): Promise<void> {
+        let query = 'UPDATE prompt_templates SET updated_at = CURRENT_TIMESTAMP';
+        const params: (string | number | null)[] = [];
+
+        if (updates.name !== undefined) {
+            query += ', name = ?';
+            params.push(updates.name);
+        }
+
+        if (updates.description !== undefined) {
+            query += ', description = ?';
+            params.push(updates.description || null);
+        }
+
+        query += ' WHERE id = ?';
+        params.push(templateId);
+
+        this.db.transaction(() => {
+            this.db.prepare(query).run(...params);
+
+            // Saving the content the prompt already has adds no version
+            const latest = this.getLatestPromptVersionRow(templateId);
+            if (updates.content !== undefined && updates.content !== latest?.content) {
+                this.insertPromptVersion(templateId, updates.content, updates.note);
+            }
+        })();
+    }
+
+    /**
+     * Get every version of a prompt, newest first
+     */
+    public async getPromptTemplateVersions(templateId: number): Promise<PromptTemplateVersion[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM prompt_template_versions
+      WHERE prompt_template_id = ?
+      ORDER BY version DESC
+    `);
+
+        const rows = stmt.all(templateId) as PromptTemplateVersionRow[];
+        return rows.map(row => this.mapPromptTemplateVersionRow(row));
+    }
+
+    /**
+     * Get a prompt version by ID
+     */
+    public async getPromptTemplateVersionById(versionId: number): Promise<PromptTemplateVersion | null> {
+        const stmt = this.db.prepare('SELECT * FROM prompt_template_versions WHERE id = ?');
+        const row = stmt.get(versionId) as PromptTemplateVersionRow | undefined;
+
+        return row ? this.mapPromptTemplateVersionRow(row) : null;
+    }
+
+    /**
+     * Make an older version's content the prompt's latest again. The restore
+     * is itself added as a new version, so nothing is lost.
+     */
+    public async restorePromptTemplateVersion(templateId: number, versionId: number): Promise<PromptTemplateVersion | null> {
+        const version = await this.getPromptTemplateVersionById(versionId);
+        if (!version || version.promptTemplateId !== templateId) {
+            return null;
+        }
+
+        await this.updatePromptTemplate(templateId, {
+            content: version.content,
+            note: `Restored version ${version.version}`
+        });
+
+        return this.mapPromptTemplateVersionRow(this.getLatestPromptVersionRow(templateId)!);
+    }
+
+    /**
+     * Delete a prompt and its versions; emails written from it are kept and detached
+     */
+    public async deletePromptTemplate(templateId: number): Promise<void> {
+        const detachEmails = this.db.prepare(`
+      UPDATE emails SET prompt_version_id = NULL
+      WHERE prompt_version_id IN (SELECT id FROM prompt_template_versions WHERE prompt_template_id = ?)
+    `);
+        const deleteTemplate = this.db.prepare('DELETE FROM prompt_templates WHERE id = ?');
+
+        this.db.transaction(() => {
+            detachEmails.run(templateId);
+            deleteTemplate.run(templateId);
+        })();
+    }
+
+    private insertPromptVersion(templateId: number, content: string, note?: string): number {
+        const stmt = this.db.prepare(`
+      INSERT INTO prompt_template_versions (prompt_template_id, version, content, note)
+      VALUES (?, (SELECT COALESCE(MAX(version), 0) + 1 FROM prompt_template_versions WHERE prompt_template_id = ?), ?, ?)
+    `);
+
+        const result = stmt.run(templateId, templateId, content, note || null);
         return result.lastInsertRowid as number;
     }
 
+    private getLatestPromptVersionRow(templateId: number): PromptTemplateVersionRow | undefined {
+        const stmt = this.db.prepare(`
+      SELECT * FROM prompt_template_versions
+      WHERE prompt_template_id = ?
+      ORDER BY version DESC
+      LIMIT 1
+    `);
+        return stmt.get(templateId) as PromptTemplateVersionRow | undefined;
+    }
+
+    // Campaign operations
+
     /**
-     * Get analytics for an email
+     * Create a new campaign
      */
-    public async getEmailAnalytics(emailId: number): Promise<EmailAnalytics[]> {
+    public async createCampaign(campaign: CampaignData): Promise<number> {
         const stmt = this.db.prepare(`
-      SELECT * FROM email_analytics 
-      WHERE email_id = ? 
-      ORDER BY timestamp DESC
+      INSERT INTO campaigns (name, goal, default_template_id, default_note_id, sender_name, sender_email, model, temperature, max_tokens, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
     `);
 
-        const rows = stmt.all(emailId) as EmailAnalyticsRow[];
-        return rows.map(row => this.mapEmailAnalyticsRow(row));
+        const result = stmt.run(
+            campaign.name,
+            campaign.goal || null,
+            campaign.defaultTemplateId || null,
+            campaign.defaultNoteId || null,
+            campaign.senderName || null,
+            campaign.senderEmail || null,
+            campaign.generationSettings?.model || null,
+            campaign.generationSettings?.temperature ?? null,
+            campaign.generationSettings?.maxTokens ?? null
+        );
+
+        return result.lastInsertRowid as number;
     }
 
-    // Private mapping methods
+    /**
+     * Get all campaigns, newest first
+     */
+    public async getAllCampaigns(): Promise<Campaign[]> {
+        const stmt = this.db.prepare('SELECT * FROM campaigns ORDER BY created_at DESC');
+        const rows = stmt.all() as CampaignRow[];
 
-    private mapBusinessRow(row: BusinessRow): Business {
-        return {
-            id: row.id,
-            name: row.name,
-            websiteUrl: row.website_url || undefined,
-            contactEmail: row.contact_email || undefined,
-            description: row.description || undefined,
-            scrapedData: row.scraped_data ? JSON.parse(row.scraped_data) as ScrapedData : undefined,
-            createdAt: new Date(row.created_at),
-            updatedAt: new Date(row.updated_at)
-        };
+        return rows.map(row => this.mapCampaignRow(row));
     }
 
-    private mapEmailRow(row: EmailRow): Email {
-        return {
-            id: row.id,
-            businessId: row.business_id,
-            subject: row.subject,
-            htmlContent: row.html_content,
-            personalNotes: row.personal_notes || undefined,
-            sendStatus: row.send_status as 'draft' | 'sent' | 'failed',
-            responseStatus: row.response_status as 'unsent' | 'no_response' | 'good_response' | 'bad_response',
-            sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
-            createdAt: new Date(row.created_at),
-            updatedAt: new Date(row.updated_at)
+    /**
+     * Get campaign by ID
+     */
+    public async getCampaignById(id: number): Promise<Campaign | null> {
+        const stmt = this.db.prepare('SELECT * FROM campaigns WHERE id = ?');
+        const row = stmt.get(id) as CampaignRow | undefined;
+
+        return row ? this.mapCampaignRow(row) : null;
+    }
+
+    /**
+     * Update an existing campaign; only the provided fields are changed.
+     * generationSettings is replaced as a whole.
+     */
+    public async updateCampaign(campaignId: number, updates: Partial<CampaignData>): Promise<void> {
+        const columns: Record<Exclude<keyof CampaignData, 'generationSettings'>, string> = {
+            name: 'name',
+            goal: 'goal',
+            defaultTemplateId: 'default_template_id',
+            defaultNoteId: 'default_note_id',
+            senderName: 'sender_name',
+            senderEmail: 'sender_email'
         };
+
+        let query = 'UPDATE campaigns SET updated_at = CURRENT_TIMESTAMP';
+        const params: (string | number | null)[] = [];
+
+        for (const [key, column] of Object.entries(columns)) {
+            const value = updates[key as keyof typeof columns];
+            if (value !== undefined) {
+                query += `, ${column} = ?`;
+                params.push(value === '' ? null : value);
+            }
+        }
+
+        if (updates.generationSettings !== undefined) {
+            const settings = updates.generationSettings || {};
+            query += ', model = ?, temperature = ?, max_tokens = ?';
+            params.push(settings.model || null, settings.temperature ?? null, settings.maxTokens ?? null);
+        }
+
+        query += ' WHERE id = ?';
+        params.push(campaignId);
+
+        const stmt = this.db.prepare(query);
+        stmt.run(...params);
     }
 
-    private mapNoteRow(row: NoteRow): Note {
-        return {
-            id: row.id,
-            title: row.title,
-            content: row.content,
-            category: row.category || undefined,
-            createdAt: new Date(row.created_at),
-            updatedAt: new Date(row.updated_at)
+    /**
+     * Delete a campaign; its emails are kept and detached from it
+     */
+    public async deleteCampaign(campaignId: number): Promise<void> {
+        const detachEmails = this.db.prepare('UPDATE emails SET campaign_id = NULL WHERE campaign_id = ?');
+        const deleteCampaign = this.db.prepare('DELETE FROM campaigns WHERE id = ?');
+
+        this.db.transaction(() => {
+            detachEmails.run(campaignId);
+            deleteCampaign.run(campaignId);
+        })();
+    }
+
+    // Sequence operations
+
+    /**
+     * Create a sequence together with its ordered steps
+     */
+    public async createSequence(sequence: SequenceData): Promise<number> {
+        const insertSequence = this.db.prepare(`
+      INSERT INTO sequences (name, description, updated_at)
+      VALUES (?, ?, CURRENT_TIMESTAMP)
+    `);
+        const insertStep = this.db.prepare(`
+      INSERT INTO sequence_steps (sequence_id, step_order, delay_days, prompt, template_id, subject)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+        return this.db.transaction(() => {
+            const result = insertSequence.run(sequence.name, sequence.description || null);
+            const sequenceId = result.lastInsertRowid as number;
+
+            sequence.steps.forEach((step, index) => {
+                insertStep.run(
+                    sequenceId,
+                    index,
+                    step.delayDays,
+                    step.prompt,
+                    step.templateId || null,
+                    step.subject || null
+                );
+            });
+
+            return sequenceId;
+        })();
+    }
+
+    /**
+     * Get all sequences with their steps
+     */
+    public async getAllSequences(): Promise<Sequence[]> {
+        const rows = this.db.prepare('SELECT * FROM sequences ORDER BY created_at DESC').all() as SequenceRow[];
+        return rows.map(row => this.mapSequenceRow(row, this.getSequenceStepRows(row.id)));
+    }
+
+    /**
+     * Get sequence by ID with its steps
+     */
+    public async getSequenceById(id: number): Promise<Sequence | null> {
+        const row = this.db.prepare('SELECT * FROM sequences WHERE id = ?').get(id) as SequenceRow | undefined;
+        return row ? this.mapSequenceRow(row, this.getSequenceStepRows(id)) : null;
+    }
+
+    /**
+     * Delete a sequence; its steps and enrollments are removed with it
+     */
+    public async deleteSequence(sequenceId: number): Promise<void> {
+        this.db.prepare('DELETE FROM sequences WHERE id = ?').run(sequenceId);
+    }
+
+    /**
+     * Enroll a business in a sequence. The first step is scheduled after its delay.
+     */
+    public async enrollInSequence(enrollment: SequenceEnrollmentData, nextStepAt: Date): Promise<number> {
+        const stmt = this.db.prepare(`
+      INSERT INTO sequence_enrollments (
+        sequence_id, business_id, campaign_id, recipient_email, sender_name, sender_email, next_step_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+        const result = stmt.run(
+            enrollment.sequenceId,
+            enrollment.businessId,
+            enrollment.campaignId || null,
+            enrollment.recipientEmail,
+            enrollment.senderName || null,
+            enrollment.senderEmail || null,
+            nextStepAt.toISOString()
+        );
+
+        return result.lastInsertRowid as number;
+    }
+
+    /**
+     * Get enrollment by ID
+     */
+    public async getEnrollmentById(id: number): Promise<SequenceEnrollment | null> {
+        const row = this.db.prepare('SELECT * FROM sequence_enrollments WHERE id = ?').get(id) as SequenceEnrollmentRow | undefined;
+        return row ? this.mapSequenceEnrollmentRow(row) : null;
+    }
+
+    /**
+     * Get enrollments for a sequence, newest first
+     */
+    public async getSequenceEnrollments(sequenceId: number): Promise<SequenceEnrollment[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM sequence_enrollments
+      WHERE sequence_id = ?
+      ORDER BY created_at DESC
+    `);
+
+        const rows = stmt.all(sequenceId) as SequenceEnrollmentRow[];
+        return rows.map(row => this.mapSequenceEnrollmentRow(row));
+    }
+
+    /**
+     * Find the active enrollment of a business in a sequence, if any
+     */
+    public async findActiveEnrollment(sequenceId: number, businessId: number): Promise<SequenceEnrollment | null> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM sequence_enrollments
+      WHERE sequence_id = ? AND business_id = ? AND status = 'active'
+    `);
+
+        const row = stmt.get(sequenceId, businessId) as SequenceEnrollmentRow | undefined;
+        return row ? this.mapSequenceEnrollmentRow(row) : null;
+    }
+
+    /**
+     * Get active enrollments whose next step is due
+     */
+    public async getDueEnrollments(now: Date = new Date()): Promise<SequenceEnrollment[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM sequence_enrollments
+      WHERE status = 'active' AND next_step_at IS NOT NULL AND next_step_at <= ?
+      ORDER BY next_step_at ASC
+    `);
+
+        const rows = stmt.all(now.toISOString()) as SequenceEnrollmentRow[];
+        return rows.map(row => this.mapSequenceEnrollmentRow(row));
+    }
+
+    /**
+     * Mark the current step as done and schedule the next one.
+     * Pass null as nextStepAt when the last step was just completed.
+     */
+    public async advanceEnrollment(enrollmentId: number, nextStepAt: Date | null): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE sequence_enrollments
+      SET current_step = current_step + 1,
+          status = ?,
+          next_step_at = ?,
+          last_error = NULL,
+          failed_attempts = 0,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+        stmt.run(nextStepAt ? 'active' : 'completed', nextStepAt?.toISOString() || null, enrollmentId);
+    }
+
+    /**
+     * Record a failed step attempt and reschedule it
+     */
+    public async recordEnrollmentError(enrollmentId: number, error: string, retryAt: Date): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE sequence_enrollments
+      SET last_error = ?, next_step_at = ?, failed_attempts = failed_attempts + 1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+        stmt.run(error, retryAt.toISOString(), enrollmentId);
+    }
+
+    /**
+     * Stop an enrollment so no further steps are sent
+     */
+    public async stopEnrollment(enrollmentId: number, reason: string): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE sequence_enrollments
+      SET status = 'stopped', stop_reason = ?, next_step_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'active'
+    `);
+
+        stmt.run(reason, enrollmentId);
+    }
+
+    /**
+     * Stop every active enrollment of a business
+     */
+    public async stopEnrollmentsForBusiness(businessId: number, reason: string): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE sequence_enrollments
+      SET status = 'stopped', stop_reason = ?, next_step_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE business_id = ? AND status = 'active'
+    `);
+
+        stmt.run(reason, businessId);
+    }
+
+    // Send queue operations
+
+    /**
+     * Queue an email for the background sender. Sends as soon as possible
+     * unless scheduledFor is in the future.
+     */
+    public async enqueueEmail(item: SendQueueData): Promise<number> {
+        const scheduledFor = (item.scheduledFor || new Date()).toISOString();
+        const stmt = this.db.prepare(`
+      INSERT INTO send_queue (
+        email_id, recipient_email, from_name, from_email, max_attempts,
+        scheduled_for, next_attempt_at, event_data, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+    `);
+
+        const result = stmt.run(
+            item.emailId,
+            item.recipientEmail,
+            item.fromName,
+            item.fromEmail,
+            item.maxAttempts || 6,
+            scheduledFor,
+            scheduledFor,
+            item.eventData ? JSON.stringify(item.eventData) : null
+        );
+
+        return result.lastInsertRowid as number;
+    }
+
+    /**
+     * Get queue item by ID
+     */
+    public async getQueueItemById(id: number): Promise<SendQueueItem | null> {
+        const row = this.db.prepare('SELECT * FROM send_queue WHERE id = ?').get(id) as SendQueueRow | undefined;
+        return row ? this.mapSendQueueRow(row) : null;
+    }
+
+    /**
+     * Get the queue item for an email, if it was queued
+     */
+    public async getQueueItemByEmailId(emailId: number): Promise<SendQueueItem | null> {
+        const row = this.db.prepare('SELECT * FROM send_queue WHERE email_id = ?').get(emailId) as SendQueueRow | undefined;
+        return row ? this.mapSendQueueRow(row) : null;
+    }
+
+    /**
+     * List queue items, optionally by status, soonest first
+     */
+    public async getQueueItems(status?: QueueStatus, limit: number = 100): Promise<SendQueueItem[]> {
+        let query = 'SELECT * FROM send_queue';
+        const params: (string | number)[] = [];
+
+        if (status) {
+            query += ' WHERE status = ?';
+            params.push(status);
+        }
+
+        query += ' ORDER BY next_attempt_at ASC LIMIT ?';
+        params.push(limit);
+
+        const rows = this.db.prepare(query).all(...params) as SendQueueRow[];
+        return rows.map(row => this.mapSendQueueRow(row));
+    }
+
+    /**
+     * Get queued items whose next attempt is due
+     */
+    public async getDueQueueItems(now: Date = new Date(), limit: number = 10): Promise<SendQueueItem[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM send_queue
+      WHERE status = 'queued' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+      LIMIT ?
+    `);
+
+        const rows = stmt.all(now.toISOString(), limit) as SendQueueRow[];
+        return rows.map(row => this.mapSendQueueRow(row));
+    }
+
+    /**
+     * Mark a queued item as in flight and count the attempt
+     * @returns false if the item was no longer queued
+     */
+    public async claimQueueItem(id: number): Promise<boolean> {
+        const stmt = this.db.prepare(`
+      UPDATE send_queue
+      SET status = 'sending', attempts = attempts + 1, locked_at = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'queued'
+    `);
+
+        return stmt.run(new Date().toISOString(), id).changes > 0;
+    }
+
+    /**
+     * Mark an in-flight item as delivered
+     */
+    public async markQueueItemSent(id: number, sentAt: Date = new Date()): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE send_queue
+      SET status = 'sent', sent_at = ?, locked_at = NULL, last_error = NULL, last_error_code = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+        stmt.run(sentAt.toISOString(), id);
+    }
+
+    /**
+     * Put a failed item back in the queue for another attempt
+     */
+    public async rescheduleQueueItem(id: number, error: string, errorCode: string, nextAttemptAt: Date): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE send_queue
+      SET status = 'queued', next_attempt_at = ?, last_error = ?, last_error_code = ?, locked_at = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+        stmt.run(nextAttemptAt.toISOString(), error, errorCode, id);
+    }
+
+    /**
+     * Give up on an item after a permanent failure or too many attempts
+     */
+    public async deadLetterQueueItem(id: number, error: string, errorCode: string): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE send_queue
+      SET status = 'dead', last_error = ?, last_error_code = ?, locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+        stmt.run(error, errorCode, id);
+    }
+
+    /**
+     * Requeue a dead-lettered item with a fresh set of attempts
+     */
+    public async retryQueueItem(id: number, now: Date = new Date()): Promise<boolean> {
+        const stmt = this.db.prepare(`
+      UPDATE send_queue
+      SET status = 'queued', attempts = 0, next_attempt_at = ?, locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'dead'
+    `);
+
+        return stmt.run(now.toISOString(), id).changes > 0;
+    }
+
+    /**
+     * Remove an item that has not been picked up yet. The email stays a draft.
+     */
+    public async cancelQueueItem(id: number): Promise<boolean> {
+        const stmt = this.db.prepare("DELETE FROM send_queue WHERE id = ? AND status = 'queued'");
+        return stmt.run(id).changes > 0;
+    }
+
+    /**
+     * Return items left in flight by a previous process (e.g. a crash or restart)
+     * to the queue. Only call this before the worker starts.
+     */
+    public async releaseInFlightQueueItems(): Promise<number> {
+        const stmt = this.db.prepare(`
+      UPDATE send_queue
+      SET status = 'queued', locked_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE status = 'sending'
+    `);
+
+        return stmt.run().changes;
+    }
+
+    // Reply tracking operations
+
+    /**
+     * Store the Message-ID header a sent email went out with
+     */
+    public async setEmailMessageId(emailId: number, messageId: string): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE emails
+      SET message_id = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+        stmt.run(messageId, emailId);
+    }
+
+    /**
+     * Find the sent email with any of the given Message-IDs, e.g. from a reply's
+     * In-Reply-To and References headers
+     */
+    public async findEmailByMessageIds(messageIds: string[]): Promise<Email | null> {
+        if (messageIds.length === 0) {
+            return null;
+        }
+
+        const placeholders = messageIds.map(() => '?').join(', ');
+        const stmt = this.db.prepare(`
+      SELECT e.*, q.id as queue_item_id, q.status as queue_status, q.scheduled_for, q.attempts as send_attempts, q.last_error as last_send_error
+      FROM emails e
+      LEFT JOIN send_queue q ON q.email_id = e.id
+      WHERE e.message_id IN (${placeholders})
+      ORDER BY e.sent_at DESC
+      LIMIT 1
+    `);
+        const row = stmt.get(...messageIds) as (EmailRow & EmailQueueColumns) | undefined;
+
+        return row ? this.mapEmailRow(row) : null;
+    }
+
+    /**
+     * Find the latest email sent before the given time to a business with this contact email
+     */
+    public async findLatestSentEmailForContact(contactEmail: string, before: Date): Promise<Email | null> {
+        const stmt = this.db.prepare(`
+      SELECT e.*, q.id as queue_item_id, q.status as queue_status, q.scheduled_for, q.attempts as send_attempts, q.last_error as last_send_error
+      FROM emails e
+      JOIN businesses b ON b.id = e.business_id
+      LEFT JOIN send_queue q ON q.email_id = e.id
+      WHERE lower(b.contact_email) = lower(?)
+        AND e.send_status = 'sent'
+        AND e.sent_at <= ?
+      ORDER BY e.sent_at DESC
+      LIMIT 1
+    `);
+        const row = stmt.get(contactEmail, before.toISOString()) as (EmailRow & EmailQueueColumns) | undefined;
+
+        return row ? this.mapEmailRow(row) : null;
+    }
+
+    /**
+     * Store the AI verdict on a reply to an email
+     */
+    public async saveReplyClassification(emailId: number, classification: EmailReplyClassification): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE emails
+      SET reply_category = ?, reply_confidence = ?, reply_rationale = ?, reply_needs_review = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+        stmt.run(
+            classification.category,
+            classification.confidence,
+            classification.rationale,
+            classification.needsReview ? 1 : 0,
+            emailId
+        );
+    }
+
+    /**
+     * Ask for a person to read a reply that no verdict has settled
+     */
+    public async flagReplyForReview(emailId: number): Promise<void> {
+        const stmt = this.db.prepare(`
+      UPDATE emails
+      SET reply_needs_review = 1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `);
+
+        stmt.run(emailId);
+    }
+
+    /**
+     * Check whether an inbound message has already been recorded as a reply
+     */
+    public async hasRecordedReply(replyMessageId: string): Promise<boolean> {
+        const stmt = this.db.prepare(`
+      SELECT 1 FROM email_analytics
+      WHERE event_type = 'replied' AND json_extract(event_data, '$.messageId') = ?
+      LIMIT 1
+    `);
+
+        return stmt.get(replyMessageId) !== undefined;
+    }
+
+    /**
+     * Get how far the reply poller has read a mailbox
+     */
+    public async getMailboxSyncState(mailbox: string): Promise<MailboxSyncState | null> {
+        const stmt = this.db.prepare('SELECT * FROM mailbox_sync_state WHERE mailbox = ?');
+        const row = stmt.get(mailbox) as MailboxSyncStateRow | undefined;
+
+        return row ? {
+            mailbox: row.mailbox,
+            uidValidity: row.uid_validity,
+            lastUid: row.last_uid,
+            lastSyncedAt: row.last_synced_at ? new Date(row.last_synced_at) : undefined
+        } : null;
+    }
+
+    /**
+     * Save how far the reply poller has read a mailbox
+     */
+    public async saveMailboxSyncState(state: MailboxSyncState): Promise<void> {
+        const stmt = this.db.prepare(`
+      INSERT INTO mailbox_sync_state (mailbox, uid_validity, last_uid, last_synced_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(mailbox) DO UPDATE SET
+        uid_validity = excluded.uid_validity,
+        last_uid = excluded.last_uid,
+        last_synced_at = excluded.last_synced_at,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+
+        stmt.run(state.mailbox, state.uidValidity, state.lastUid, state.lastSyncedAt?.toISOString() || null);
+    }
+
+    // Email Analytics operations
+
+    /**
+     * Record email analytics event
+     */
+    public async recordEmailEvent(
+        emailId: number,
+        eventType: 'sent' | 'opened' | 'clicked' | 'replied',
+        eventData?: Record<string, any>
+    ): Promise<number> {
+        const stmt = this.db.prepare(`
+      INSERT INTO email_analytics (email_id, event_type, event_data)
+      VALUES (?, ?, ?)
+    `);
+
+        const eventDataJson = eventData ? JSON.stringify(eventData) : null;
+
+        const result = stmt.run(emailId, eventType, eventDataJson);
+        return result.lastInsertRowid as number;
+    }
+
+    /**
+     * Get analytics for an email
+     */
+    public async getEmailAnalytics(emailId: number): Promise<EmailAnalytics[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM email_analytics 
+      WHERE email_id = ? 
+      ORDER BY timestamp DESC
+    `);
+
+        const rows = stmt.all(emailId) as EmailAnalyticsRow[];
+        return rows.map(row => this.mapEmailAnalyticsRow(row));
+    }
+
+    /**
+     * When each replied-to email got its first reply. Uses the time the poller saw the
+     * reply arrive, falling back to when the reply was recorded for manually marked ones.
+     */
+    public async getFirstReplyTimes(): Promise<Map<number, Date>> {
+        const stmt = this.db.prepare(`
+      SELECT email_id,
+        json_extract(event_data, '$.receivedAt') as received_at,
+        strftime('%Y-%m-%dT%H:%M:%SZ', timestamp) as recorded_at
+      FROM email_analytics
+      WHERE event_type = 'replied'
+    `);
+
+        const rows = stmt.all() as { email_id: number; received_at: string | null; recorded_at: string }[];
+        const firstReplies = new Map<number, Date>();
+
+        for (const row of rows) {
+            const repliedAt = new Date(row.received_at || row.recorded_at);
+            if (isNaN(repliedAt.getTime())) {
+                continue;
+            }
+
+            const current = firstReplies.get(row.email_id);
+            if (!current || repliedAt < current) {
+                firstReplies.set(row.email_id, repliedAt);
+            }
+        }
+
+        return firstReplies;
+    }
+
+    // AI usage operations
+
+    /**
+     * Record one Claude call in the usage ledger
+     */
+    public async recordAIUsage(usage: AIUsageData): Promise<number> {
+        const stmt = this.db.prepare(`
+      INSERT INTO ai_usage (purpose, model, input_tokens, output_tokens, latency_ms, email_id, business_id, campaign_id)
+      VALUES (?, ?, ?, ?, ?, ?,
+        COALESCE(?, (SELECT business_id FROM emails WHERE id = ?)),
+        COALESCE(?, (SELECT campaign_id FROM emails WHERE id = ?)))
+    `);
+
+        const emailId = usage.emailId || null;
+        const result = stmt.run(
+            usage.purpose,
+            usage.model,
+            usage.inputTokens,
+            usage.outputTokens,
+            usage.latencyMs,
+            emailId,
+            usage.businessId || null,
+            emailId,
+            usage.campaignId || null,
+            emailId
+        );
+
+        return result.lastInsertRowid as number;
+    }
+
+    /**
+     * Get recorded Claude calls, oldest first
+     */
+    public async getAIUsage(filters: AIUsageFilters = {}): Promise<AIUsage[]> {
+        let query = 'SELECT * FROM ai_usage WHERE 1=1';
+        const params: (string | number)[] = [];
+
+        if (filters.campaignId) {
+            query += ' AND campaign_id = ?';
+            params.push(filters.campaignId);
+        }
+
+        if (filters.dateFrom) {
+            query += ' AND datetime(created_at) >= datetime(?)';
+            params.push(filters.dateFrom.toISOString());
+        }
+
+        if (filters.dateTo) {
+            query += ' AND datetime(created_at) <= datetime(?)';
+            params.push(filters.dateTo.toISOString());
+        }
+
+        query += ' ORDER BY created_at ASC, id ASC';
+
+        const rows = this.db.prepare(query).all(...params) as AIUsageRow[];
+        return rows.map(row => this.mapAIUsageRow(row));
+    }
+
+    // Scrape snapshot operations
+
+    /**
+     * Store the outcome of a scrape, with the start page's HTML
+     */
+    public async saveScrapeSnapshot(snapshot: ScrapeSnapshotData): Promise<number> {
+        const stmt = this.db.prepare(`
+      INSERT INTO scrape_snapshots (url, final_url, status, http_status, mode, max_pages, requested_mode, html, scraped_data, error_code, scraped_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+        const result = stmt.run(
+            snapshot.url,
+            snapshot.finalUrl || null,
+            snapshot.status,
+            snapshot.httpStatus ?? null,
+            snapshot.mode || null,
+            snapshot.options?.maxPages ?? null,
+            snapshot.options?.mode ?? null,
+            snapshot.html ?? null,
+            snapshot.scrapedData ? JSON.stringify(snapshot.scrapedData) : null,
+            snapshot.errorCode || null,
+            (snapshot.scrapedAt || new Date()).toISOString()
+        );
+
+        return result.lastInsertRowid as number;
+    }
+
+    /**
+     * Get a snapshot, including its HTML
+     */
+    public async getScrapeSnapshotById(id: number): Promise<ScrapeSnapshot | null> {
+        const row = this.db.prepare('SELECT * FROM scrape_snapshots WHERE id = ?').get(id) as ScrapeSnapshotRow | undefined;
+        return row ? this.mapScrapeSnapshotRow(row) : null;
+    }
+
+    /**
+     * Latest successful scrape of a URL taken at or after `since` with the same
+     * options, for serving from cache instead of scraping again
+     */
+    public async findRecentScrapeSnapshot(url: string, since: Date, options: ScrapeSnapshotOptions): Promise<ScrapeSnapshot | null> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM scrape_snapshots
+      WHERE url = ? AND status = 'success' AND scraped_at >= ? AND max_pages = ? AND requested_mode = ?
+      ORDER BY scraped_at DESC, id DESC
+      LIMIT 1
+    `);
+
+        const row = stmt.get(url, since.toISOString(), options.maxPages, options.mode) as ScrapeSnapshotRow | undefined;
+        return row ? this.mapScrapeSnapshotRow(row) : null;
+    }
+
+    // Website change operations
+
+    /**
+     * Record what changed on a business's website between two scrapes
+     */
+    public async recordWebsiteChange(change: WebsiteChangeData): Promise<number> {
+        const stmt = this.db.prepare(`
+      INSERT INTO website_changes (business_id, snapshot_id, previous_snapshot_id, summary, changes, detected_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+        const result = stmt.run(
+            change.businessId,
+            change.snapshotId || null,
+            change.previousSnapshotId || null,
+            change.summary,
+            JSON.stringify(change.changes),
+            (change.detectedAt || new Date()).toISOString()
+        );
+
+        return result.lastInsertRowid as number;
+    }
+
+    /**
+     * Website changes for a business, newest first
+     */
+    public async getWebsiteChanges(businessId: number, limit: number = 20): Promise<WebsiteChangeEvent[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM website_changes
+      WHERE business_id = ?
+      ORDER BY detected_at DESC, id DESC
+      LIMIT ?
+    `);
+
+        const rows = stmt.all(businessId, limit) as WebsiteChangeRow[];
+        return rows.map(row => this.mapWebsiteChangeRow(row));
+    }
+
+    /**
+     * Website changes detected since the business's latest email, oldest first:
+     * the ones no email has had the chance to mention yet
+     */
+    public async getPendingWebsiteChanges(businessId: number): Promise<WebsiteChangeEvent[]> {
+        const stmt = this.db.prepare(`
+      SELECT * FROM website_changes
+      WHERE business_id = ?
+        AND datetime(detected_at) > COALESCE(
+          (SELECT datetime(MAX(created_at)) FROM emails WHERE business_id = ?),
+          '0000-00-00 00:00:00'
+        )
+      ORDER BY detected_at ASC, id ASC
+    `);
+
+        const rows = stmt.all(businessId, businessId) as WebsiteChangeRow[];
+        return rows.map(row => this.mapWebsiteChangeRow(row));
+    }
+
+    // Private mapping methods
+
+    private mapBusinessRow(row: BusinessRow): Business {
+        return {
+            id: row.id,
+            name: row.name,
+            websiteUrl: row.website_url || undefined,
+            contactEmail: row.contact_email || undefined,
+            description: row.description || undefined,
+            scrapedData: row.scraped_data ? JSON.parse(row.scraped_data) as ScrapedData : undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    private mapEmailRow(row: EmailRow & Partial<EmailQueueColumns>): Email {
+        return {
+            id: row.id,
+            businessId: row.business_id,
+            campaignId: row.campaign_id || undefined,
+            subject: row.subject,
+            htmlContent: row.html_content,
+            personalNotes: row.personal_notes || undefined,
+            sendStatus: row.send_status as 'draft' | 'sent' | 'failed',
+            responseStatus: row.response_status as 'unsent' | 'no_response' | 'good_response' | 'bad_response',
+            sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+            messageId: row.message_id || undefined,
+            replyClassification: row.reply_category ? {
+                category: row.reply_category,
+                confidence: row.reply_confidence ?? 0,
+                rationale: row.reply_rationale || '',
+                needsReview: row.reply_needs_review === 1
+            } : undefined,
+            generationSettings: this.mapGenerationSettings(row),
+            promptVersionId: row.prompt_version_id ?? undefined,
+            noteId: row.note_id ?? undefined,
+            scrapeSnapshotId: row.scrape_snapshot_id ?? undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at),
+            queueItemId: row.queue_item_id ?? undefined,
+            queueStatus: (row.queue_status as QueueStatus) || undefined,
+            scheduledFor: row.scheduled_for ? new Date(row.scheduled_for) : undefined,
+            sendAttempts: row.send_attempts ?? undefined,
+            lastSendError: row.last_send_error || undefined
+        };
+    }
+
+    private mapSendQueueRow(row: SendQueueRow): SendQueueItem {
+        return {
+            id: row.id,
+            emailId: row.email_id,
+            recipientEmail: row.recipient_email,
+            fromName: row.from_name,
+            fromEmail: row.from_email,
+            status: row.status as QueueStatus,
+            attempts: row.attempts,
+            maxAttempts: row.max_attempts,
+            scheduledFor: new Date(row.scheduled_for),
+            nextAttemptAt: new Date(row.next_attempt_at),
+            lastError: row.last_error || undefined,
+            lastErrorCode: row.last_error_code || undefined,
+            eventData: row.event_data ? JSON.parse(row.event_data) : undefined,
+            lockedAt: row.locked_at ? new Date(row.locked_at) : undefined,
+            sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    private mapNoteRow(row: NoteRow): Note {
+        return {
+            id: row.id,
+            title: row.title,
+            content: row.content,
+            category: row.category || undefined,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    // Rows written before the settings were recorded have none
+    private mapGenerationSettings(row: Pick<EmailRow, 'model' | 'temperature' | 'max_tokens'>): GenerationSettings | undefined {
+        if (row.model === null && row.temperature === null && row.max_tokens === null) {
+            return undefined;
+        }
+
+        return {
+            model: row.model || undefined,
+            temperature: row.temperature ?? undefined,
+            maxTokens: row.max_tokens ?? undefined
+        };
+    }
+
+    private mapCampaignRow(row: CampaignRow): Campaign {
+        return {
+            id: row.id,
+            name: row.name,
+            goal: row.goal || undefined,
+            defaultTemplateId: row.default_template_id || undefined,
+            defaultNoteId: row.default_note_id || undefined,
+            senderName: row.sender_name || undefined,
+            senderEmail: row.sender_email || undefined,
+            generationSettings: this.mapGenerationSettings(row),
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    private mapPromptTemplateRow(row: PromptTemplateRow & { version_count: number }, latestRow: PromptTemplateVersionRow): PromptTemplate {
+        return {
+            id: row.id,
+            name: row.name,
+            description: row.description || undefined,
+            latestVersion: this.mapPromptTemplateVersionRow(latestRow),
+            versionCount: row.version_count,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    private mapPromptTemplateVersionRow(row: PromptTemplateVersionRow): PromptTemplateVersion {
+        return {
+            id: row.id,
+            promptTemplateId: row.prompt_template_id,
+            version: row.version,
+            content: row.content,
+            note: row.note || undefined,
+            createdAt: new Date(row.created_at)
+        };
+    }
+
+    private mapEmailRevisionRow(row: EmailRevisionRow): EmailRevision {
+        return {
+            id: row.id,
+            emailId: row.email_id,
+            revisionNumber: row.revision_number,
+            source: row.source as EmailRevisionSource,
+            subject: row.subject,
+            htmlContent: row.html_content,
+            note: row.note || undefined,
+            createdAt: new Date(row.created_at)
+        };
+    }
+
+    private mapEmailVariantRow(row: EmailVariantRow): EmailVariant {
+        return {
+            id: row.id,
+            businessId: row.business_id,
+            angle: row.angle,
+            subject: row.subject,
+            htmlBody: row.html_body,
+            textBody: row.text_body,
+            personalizationHooks: row.personalization_hooks ? JSON.parse(row.personalization_hooks) : [],
+            scrapedFacts: row.scraped_facts ? JSON.parse(row.scraped_facts) : [],
+            createdAt: new Date(row.created_at)
+        };
+    }
+
+    private getSequenceStepRows(sequenceId: number): SequenceStepRow[] {
+        const stmt = this.db.prepare('SELECT * FROM sequence_steps WHERE sequence_id = ? ORDER BY step_order ASC');
+        return stmt.all(sequenceId) as SequenceStepRow[];
+    }
+
+    private mapSequenceRow(row: SequenceRow, stepRows: SequenceStepRow[]): Sequence {
+        return {
+            id: row.id,
+            name: row.name,
+            description: row.description || undefined,
+            steps: stepRows.map(step => ({
+                id: step.id,
+                sequenceId: step.sequence_id,
+                stepOrder: step.step_order,
+                delayDays: step.delay_days,
+                prompt: step.prompt,
+                templateId: step.template_id || undefined,
+                subject: step.subject || undefined
+            })),
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    private mapSequenceEnrollmentRow(row: SequenceEnrollmentRow): SequenceEnrollment {
+        return {
+            id: row.id,
+            sequenceId: row.sequence_id,
+            businessId: row.business_id,
+            campaignId: row.campaign_id || undefined,
+            recipientEmail: row.recipient_email,
+            senderName: row.sender_name || undefined,
+            senderEmail: row.sender_email || undefined,
+            currentStep: row.current_step,
+            status: row.status as EnrollmentStatus,
+            stopReason: row.stop_reason || undefined,
+            nextStepAt: row.next_step_at ? new Date(row.next_step_at) : undefined,
+            lastError: row.last_error || undefined,
+            failedAttempts: row.failed_attempts ?? 0,
+            createdAt: new Date(row.created_at),
+            updatedAt: new Date(row.updated_at)
+        };
+    }
+
+    private mapAIUsageRow(row: AIUsageRow): AIUsage {
+        return {
+            id: row.id,
+            purpose: row.purpose as AIUsagePurpose,
+            model: row.model,
+            inputTokens: row.input_tokens,
+            outputTokens: row.output_tokens,
+            latencyMs: row.latency_ms,
+            emailId: row.email_id ?? undefined,
+            businessId: row.business_id ?? undefined,
+            campaignId: row.campaign_id ?? undefined,
+            createdAt: new Date(row.created_at)
+        };
+    }
+
+    private mapScrapeSnapshotRow(row: ScrapeSnapshotRow): ScrapeSnapshot {
+        return {
+            id: row.id,
+            url: row.url,
+            finalUrl: row.final_url || undefined,
+            status: row.status as ScrapeSnapshotStatus,
+            httpStatus: row.http_status ?? undefined,
+            mode: (row.mode as ScrapeSnapshot['mode']) || undefined,
+            options: row.max_pages !== null && row.requested_mode
+                ? { maxPages: row.max_pages, mode: row.requested_mode as ScrapeSnapshotOptions['mode'] }
+                : undefined,
+            html: row.html ?? undefined,
+            scrapedData: row.scraped_data ? JSON.parse(row.scraped_data) as ScrapedData : undefined,
+            errorCode: row.error_code || undefined,
+            scrapedAt: new Date(row.scraped_at)
+        };
+    }
+
+    private mapWebsiteChangeRow(row: WebsiteChangeRow): WebsiteChangeEvent {
+        return {
+            id: row.id,
+            businessId: row.business_id,
+            snapshotId: row.snapshot_id ?? undefined,
+            previousSnapshotId: row.previous_snapshot_id ?? undefined,
+            summary: row.summary,
+            changes: JSON.parse(row.changes) as WebsiteChange[],
+            detectedAt: new Date(row.detected_at)
         };
     }
 
@@ -0,0 +1,74 @@
+import type { EmailAngle, EmailGenerationRequest } from '../types/index.js';
+import type { AIUsagePurpose } from '../types/database.js';
+import { AnthropicProvider } from './AnthropicProvider.js';
+import { MockAIProvider, type MockAIProviderOptions } from './MockAIProvider.js';
+
+export interface AIMessageRequest {
+    purpose: AIUsagePurpose;
+    prompt: string;
+    model: string;
+    maxTokens: number;
+    temperature: number;
+    // The structured input the prompt was built from, for providers that do not read prompts
+    context?: AIMessageContext;
+    // Aborts the request when signalled
+    signal?: AbortSignal;
+}
+
+export interface AIMessageContext {
+    generation?: EmailGenerationRequest;
+    angle?: EmailAngle;
+    originalEmail?: string;
+    feedback?: string;
+    replyText?: string;
+    businessName?: string;
+    // Fact checks: the email's text and the business info it is checked against
+    emailText?: string;
+    sourceText?: string;
+}
+
+export interface AIMessageResponse {
+    text: string;
+    // Model that actually answered, for the usage ledger
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * A model that writes text from a prompt. ClaudeService only talks to this
+ * interface, so the Anthropic API can be swapped for a local provider.
+ * Failures are thrown as errors that ErrorHandler.handleAIServiceError understands.
+ */
+export interface AIProvider {
+    readonly name: AIProviderName;
+    isConfigured(): boolean;
+    createMessage(request: AIMessageRequest): Promise<AIMessageResponse>;
+    // Calls onText as text arrives, with the new chunk and everything received so far
+    streamMessage(
+        request: AIMessageRequest,
+        onText: (delta: string, snapshot: string) => void
+    ): Promise<AIMessageResponse>;
+}
+
+export type AIProviderName = 'anthropic' | 'mock';
+
+export interface AIProviderConfig {
+    provider: AIProviderName;
+    apiKey: string;
+    mock: MockAIProviderOptions;
+}
+
+/**
+ * Create the provider selected in the server configuration
+ */
+export function createAIProvider(config: AIProviderConfig): AIProvider {
+    switch (config.provider) {
+        case 'mock':
+            return new MockAIProvider(config.mock);
+        case 'anthropic':
+            return new AnthropicProvider(config.apiKey);
+        default:
+            throw new Error(`Unknown AI provider: ${config.provider as string}`);
+    }
+}
@@ -0,0 +1,75 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { AIMessageRequest, AIMessageResponse, AIProvider } from './AIProvider.js';
+
+/**
+ * AIProvider backed by the Anthropic Messages API
+ */
+export class AnthropicProvider implements AIProvider {
+    readonly name = 'anthropic' as const;
+    private client: Anthropic | null = null;
+
+    constructor(apiKey?: string) {
+        if (apiKey) {
+            this.client = new Anthropic({ apiKey });
+        }
+    }
+
+    isConfigured(): boolean {
+        return this.client !== null;
+    }
+
+    async createMessage(request: AIMessageRequest): Promise<AIMessageResponse> {
+        const message = await this.getClient().messages.create(this.toParams(request));
+        return this.toResponse(message);
+    }
+
+    async streamMessage(
+        request: AIMessageRequest,
+        onText: (delta: string, snapshot: string) => void
+    ): Promise<AIMessageResponse> {
+        const stream = this.getClient().messages.stream(this.toParams(request), { signal: request.signal });
+        stream.on('text', onText);
+
+        await stream.finalText();
+        return this.toResponse(await stream.finalMessage());
+    }
+
+    private getClient(): Anthropic {
+        if (!this.client) {
+            throw new Error('Claude API key is required');
+        }
+        return this.client;
+    }
+
+    private toParams(request: AIMessageRequest): Anthropic.MessageCreateParamsNonStreaming {
+        return {
+            model: request.model,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            messages: [
+                {
+                    role: 'user',
+                    content: request.prompt
+                }
+            ]
+        };
+    }
+
+    private toResponse(message: Anthropic.Message): AIMessageResponse {
+        if (!message.content || message.content.length === 0) {
+            throw new Error('Claude API returned empty response');
+        }
+
+        const content = message.content[0];
+        if (content.type !== 'text') {
+            throw new Error('Claude API returned non-text response');
+        }
+
+        return {
+            text: content.text,
+            model: message.model,
+            inputTokens: message.usage?.input_tokens ?? 0,
+            outputTokens: message.usage?.output_tokens ?? 0
+        };
+    }
+}
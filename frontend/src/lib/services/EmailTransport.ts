@@ -0,0 +1,52 @@
+import type { EmailData, UserFriendlyError } from '../types/index.js';
+import { ZohoEmailService, type ZohoConfig } from './ZohoEmailService.js';
+import { SmtpEmailService, type SmtpConfig } from './SmtpEmailService.js';
+
+export interface SendResult {
+    messageId: string;
+    status: 'sent' | 'failed';
+    timestamp: Date;
+    recipient: string;
+    // Message-ID header (without angle brackets) when the transport sets it,
+    // used to match replies
+    headerMessageId?: string;
+}
+
+export interface EmailTransportResult {
+    success: boolean;
+    data?: SendResult;
+    error?: UserFriendlyError;
+}
+
+/**
+ * A way of delivering outbound email. The send queue and API routes only talk
+ * to this interface, so providers can be swapped through configuration.
+ */
+export interface EmailTransport {
+    readonly name: EmailTransportName;
+    isConfigured(): boolean;
+    sendEmail(emailData: EmailData): Promise<EmailTransportResult>;
+    validateCredentials(): Promise<EmailTransportResult>;
+}
+
+export type EmailTransportName = 'zoho' | 'smtp';
+
+export interface EmailTransportConfig {
+    transport: EmailTransportName;
+    zoho: ZohoConfig;
+    smtp: SmtpConfig;
+}
+
+/**
+ * Create the transport selected in the server configuration
+ */
+export function createEmailTransport(config: EmailTransportConfig): EmailTransport {
+    switch (config.transport) {
+        case 'smtp':
+            return new SmtpEmailService(config.smtp);
+        case 'zoho':
+            return new ZohoEmailService(config.zoho);
+        default:
+            throw new Error(`Unknown email transport: ${config.transport as string}`);
+    }
+}
@@ -191,6 +191,21 @@ export class ErrorHandler {
     static handleEmailServiceError(error: Error): UserFriendlyError {
         const message = error.message.toLowerCase();
 
+        // SMTP replies carry their own status code, e.g. "SMTP 550 RCPT: mailbox unavailable"
+        const smtpReply = message.match(/^smtp (\d{3}) (\S+):/);
+        if (smtpReply) {
+            return this.handleSmtpReply(parseInt(smtpReply[1], 10), smtpReply[2], error.message);
+        }
+
+        if (message.startsWith('smtp authentication failed')) {
+            return {
+                message: 'SMTP authentication failed. Please check your SMTP username and password.',
+                code: ErrorCode.EMAIL_AUTH_ERROR,
+                retryable: false,
+                suggestedAction: 'Verify SMTP_USERNAME, SMTP_PASSWORD and SMTP_AUTH_METHOD in your .env file.'
+            };
+        }
+
         // Authentication errors
         if (message.includes('authentication') || message.includes('401') || message.includes('unauthorized')) {
             return {
@@ -306,10 +321,10 @@ export class ErrorHandler {
         // Configuration errors
         if (message.includes('missing zoho configuration') || message.includes('not configured')) {
             return {
-                message: 'Zoho email service is not properly configured.',
+                message: 'The email service is not properly configured.',
                 code: ErrorCode.EMAIL_AUTH_ERROR,
                 retryable: false,
-                suggestedAction: 'Add ZOHO_CLIENT_ID, ZOHO_CLIENT_SECRET, ZOHO_REFRESH_TOKEN, and ZOHO_EMAIL_ADDRESS to your .env file.'
+                suggestedAction: 'For Zoho, add ZOHO_CLIENT_ID, ZOHO_CLIENT_SECRET, ZOHO_REFRESH_TOKEN, and ZOHO_EMAIL_ADDRESS to your .env file. For SMTP, set EMAIL_TRANSPORT=smtp and the SMTP_* settings.'
             };
         }
 
@@ -331,6 +346,45 @@ export class ErrorHandler {
         };
     }
 
+    /**
+     * Classify an SMTP error reply: 4xx codes are temporary, 5xx are permanent
+     */
+    private static handleSmtpReply(code: number, command: string, detail: string): UserFriendlyError {
+        if (code === 530 || code === 534 || code === 535 || command === 'auth') {
+            return {
+                message: 'SMTP authentication failed. Please check your SMTP username and password.',
+                code: ErrorCode.EMAIL_AUTH_ERROR,
+                retryable: false,
+                suggestedAction: 'Verify SMTP_USERNAME, SMTP_PASSWORD and SMTP_AUTH_METHOD in your .env file.'
+            };
+        }
+
+        if (code >= 500 && command === 'rcpt') {
+            return {
+                message: 'The recipient email address is invalid or not accepted.',
+                code: ErrorCode.EMAIL_INVALID_RECIPIENT,
+                retryable: false,
+                suggestedAction: 'Check the recipient email address and try again.'
+            };
+        }
+
+        if (code >= 400 && code < 500) {
+            return {
+                message: `The mail server temporarily refused the email (${code}).`,
+                code: ErrorCode.EMAIL_SEND_ERROR,
+                retryable: true,
+                suggestedAction: 'The email will be retried automatically. No action is needed unless this keeps happening.'
+            };
+        }
+
+        return {
+            message: `The mail server rejected the email: ${detail}`,
+            code: ErrorCode.EMAIL_SEND_ERROR,
+            retryable: false,
+            suggestedAction: 'Check your SMTP server settings and the email content, then try again.'
+        };
+    }
+
     /**
      * Handle database errors
      */
@@ -0,0 +1,357 @@
+import net from 'node:net';
+import tls from 'node:tls';
+
+export interface ImapConfig {
+    host: string;
+    port: number;
+    // true for implicit TLS (usually port 993); false to upgrade with STARTTLS
+    secure: boolean;
+    // Refuse to log in over a plain connection when the server does not offer STARTTLS
+    requireTls: boolean;
+    username: string;
+    password: string;
+    rejectUnauthorized: boolean;
+    timeoutMs: number;
+}
+
+export interface MailboxInfo {
+    uidValidity: number;
+    exists: number;
+}
+
+export interface FetchedMessage {
+    uid: number;
+    raw: Buffer;
+}
+
+// One untagged or tagged server response, with any literals it carried
+interface ImapResponse {
+    line: string;
+    literals: Buffer[];
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Minimal IMAP4rev1 client covering what the reply poller needs: log in,
+ * select a mailbox, search by UID and fetch raw messages. Server-side only.
+ */
+export class ImapClient {
+    private socket: net.Socket;
+    private buffer = Buffer.alloc(0);
+    private pending: ImapResponse | null = null;
+    private literalBytes = 0;
+    private responses: ImapResponse[] = [];
+    private waiting: { resolve: (response: ImapResponse) => void; reject: (error: Error) => void } | null = null;
+    private failure: Error | null = null;
+    private tagCounter = 0;
+
+    private constructor(socket: net.Socket, private config: ImapConfig) {
+        this.socket = socket;
+        this.attach(socket);
+    }
+
+    /**
+     * Connect, secure the connection and log in
+     */
+    static async connect(config: ImapConfig): Promise<ImapClient> {
+        const socket = await new Promise<net.Socket>((resolve, reject) => {
+            const socket = config.secure
+                ? tls.connect({
+                    host: config.host,
+                    port: config.port,
+                    servername: config.host,
+                    rejectUnauthorized: config.rejectUnauthorized
+                })
+                : net.connect({ host: config.host, port: config.port });
+
+            const onError = (error: Error) => reject(new Error(`IMAP connection failed: ${error.message}`));
+            socket.once('error', onError);
+            socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+                socket.off('error', onError);
+                resolve(socket);
+            });
+        });
+
+        const client = new ImapClient(socket, config);
+        try {
+            const greeting = await client.read();
+            if (!/^\* (OK|PREAUTH)/i.test(greeting.line)) {
+                throw new Error(`IMAP server refused the connection: ${greeting.line}`);
+            }
+
+            if (!client.isSecure) {
+                const capabilities = await client.capabilities();
+                if (capabilities.includes('STARTTLS')) {
+                    await client.command('STARTTLS');
+                    await client.upgradeToTls();
+                } else if (config.requireTls) {
+                    throw new Error('IMAP server does not offer STARTTLS and IMAP_REQUIRE_TLS is enabled');
+                }
+            }
+
+            await client.command(`LOGIN ${quote(config.username)} ${quote(config.password)}`, 'LOGIN');
+            return client;
+        } catch (error) {
+            client.destroy();
+            throw error;
+        }
+    }
+
+    /**
+     * Open a mailbox read-only
+     */
+    async examine(mailbox: string): Promise<MailboxInfo> {
+        const responses = await this.command(`EXAMINE ${quote(mailbox)}`);
+        const info: MailboxInfo = { uidValidity: 0, exists: 0 };
+
+        for (const { line } of responses) {
+            const uidValidity = line.match(/\[UIDVALIDITY (\d+)\]/i);
+            if (uidValidity) {
+                info.uidValidity = parseInt(uidValidity[1], 10);
+            }
+            const exists = line.match(/^\* (\d+) EXISTS/i);
+            if (exists) {
+                info.exists = parseInt(exists[1], 10);
+            }
+        }
+
+        return info;
+    }
+
+    /**
+     * UIDs of messages newer than the given UID
+     */
+    async searchAfterUid(lastUid: number): Promise<number[]> {
+        // "n:*" always includes the highest UID, even when it is below n
+        const uids = await this.uidSearch(`UID ${lastUid + 1}:*`);
+        return uids.filter(uid => uid > lastUid);
+    }
+
+    /**
+     * UIDs of messages received on or after the given date
+     */
+    async searchSince(date: Date): Promise<number[]> {
+        const day = `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+        return this.uidSearch(`SINCE ${day}`);
+    }
+
+    private async uidSearch(criteria: string): Promise<number[]> {
+        const responses = await this.command(`UID SEARCH ${criteria}`);
+        const uids: number[] = [];
+
+        for (const { line } of responses) {
+            const match = line.match(/^\* SEARCH\b(.*)$/i);
+            if (match) {
+                uids.push(...match[1].trim().split(/\s+/).filter(Boolean).map(uid => parseInt(uid, 10)));
+            }
+        }
+
+        return uids.sort((a, b) => a - b);
+    }
+
+    /**
+     * Fetch full raw messages without marking them as read
+     */
+    async fetchMessages(uids: number[]): Promise<FetchedMessage[]> {
+        if (uids.length === 0) {
+            return [];
+        }
+
+        const responses = await this.command(`UID FETCH ${uids.join(',')} (UID BODY.PEEK[])`);
+        const messages: FetchedMessage[] = [];
+
+        for (const { line, literals } of responses) {
+            const uid = line.match(/^\* \d+ FETCH .*\bUID (\d+)/i);
+            if (uid && literals.length > 0) {
+                messages.push({ uid: parseInt(uid[1], 10), raw: literals[0] });
+            }
+        }
+
+        return messages.sort((a, b) => a.uid - b.uid);
+    }
+
+    /**
+     * Log out and close the connection
+     */
+    async logout(): Promise<void> {
+        try {
+            if (!this.failure) {
+                await this.command('LOGOUT');
+            }
+        } catch {
+            // Nothing useful left to do with a connection that failed to log out
+        } finally {
+            this.destroy();
+        }
+    }
+
+    private async capabilities(): Promise<string[]> {
+        const responses = await this.command('CAPABILITY');
+        const line = responses.find(response => /^\* CAPABILITY /i.test(response.line))?.line || '';
+        return line.slice('* CAPABILITY '.length).toUpperCase().split(/\s+/);
+    }
+
+    /**
+     * Send a tagged command and collect the untagged responses until it completes
+     * @param label Shown in errors instead of the command, to keep credentials out of logs
+     */
+    private async command(command: string, label: string = command): Promise<ImapResponse[]> {
+        const tag = `A${++this.tagCounter}`;
+        this.socket.write(`${tag} ${command}\r\n`);
+
+        const untagged: ImapResponse[] = [];
+        for (;;) {
+            const response = await this.read();
+            if (!response.line.startsWith(`${tag} `)) {
+                untagged.push(response);
+                continue;
+            }
+
+            const status = response.line.slice(tag.length + 1);
+            if (!/^OK\b/i.test(status)) {
+                throw new Error(`IMAP ${label.split(' ')[0]} failed: ${status}`);
+            }
+            return untagged;
+        }
+    }
+
+    private read(): Promise<ImapResponse> {
+        const queued = this.responses.shift();
+        if (queued) {
+            return Promise.resolve(queued);
+        }
+        if (this.failure) {
+            return Promise.reject(this.failure);
+        }
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+        });
+    }
+
+    private onData = (chunk: Buffer): void => {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        for (;;) {
+            if (this.pending && this.literalBytes > 0) {
+                if (this.buffer.length < this.literalBytes) {
+                    return;
+                }
+                this.pending.literals.push(this.buffer.subarray(0, this.literalBytes));
+                this.buffer = this.buffer.subarray(this.literalBytes);
+                this.literalBytes = 0;
+            }
+
+            const newline = this.buffer.indexOf('\r\n');
+            if (newline === -1) {
+                return;
+            }
+
+            const text = this.buffer.subarray(0, newline).toString('utf8');
+            this.buffer = this.buffer.subarray(newline + 2);
+
+            const response = this.pending || { line: '', literals: [] };
+            response.line += text;
+
+            // A line ending in {n} is followed by n bytes of literal data
+            const literal = text.match(/\{(\d+)\}$/);
+            if (literal) {
+                this.pending = response;
+                this.literalBytes = parseInt(literal[1], 10);
+                continue;
+            }
+
+            this.pending = null;
+            this.deliver(response);
+        }
+    };
+
+    private onError = (error: Error): void => {
+        this.fail(new Error(`IMAP connection error: ${error.message}`));
+    };
+
+    private onClose = (): void => {
+        this.fail(new Error('IMAP connection closed unexpectedly'));
+    };
+
+    private onTimeout = (): void => {
+        this.fail(new Error('IMAP server timed out'));
+        this.socket.destroy();
+    };
+
+    private attach(socket: net.Socket): void {
+        socket.setTimeout(this.config.timeoutMs);
+        socket.on('data', this.onData);
+        socket.on('error', this.onError);
+        socket.on('close', this.onClose);
+        socket.on('timeout', this.onTimeout);
+    }
+
+    private detach(socket: net.Socket): void {
+        socket.off('data', this.onData);
+        socket.off('error', this.onError);
+        socket.off('close', this.onClose);
+        socket.off('timeout', this.onTimeout);
+        socket.setTimeout(0);
+    }
+
+    private deliver(response: ImapResponse): void {
+        if (this.waiting) {
+            const { resolve } = this.waiting;
+            this.waiting = null;
+            resolve(response);
+        } else {
+            this.responses.push(response);
+        }
+    }
+
+    private fail(error: Error): void {
+        if (!this.failure) {
+            this.failure = error;
+        }
+        if (this.waiting) {
+            const { reject } = this.waiting;
+            this.waiting = null;
+            reject(this.failure);
+        }
+    }
+
+    private upgradeToTls(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const plainSocket = this.socket;
+            this.detach(plainSocket);
+
+            const secureSocket = tls.connect({
+                socket: plainSocket,
+                servername: this.config.host,
+                rejectUnauthorized: this.config.rejectUnauthorized
+            });
+
+            const onError = (error: Error) => reject(new Error(`IMAP STARTTLS failed: ${error.message}`));
+            secureSocket.once('error', onError);
+            secureSocket.once('secureConnect', () => {
+                secureSocket.off('error', onError);
+                this.socket = secureSocket;
+                this.attach(secureSocket);
+                resolve();
+            });
+        });
+    }
+
+    private get isSecure(): boolean {
+        return this.socket instanceof tls.TLSSocket;
+    }
+
+    private destroy(): void {
+        this.detach(this.socket);
+        this.socket.on('error', () => { });
+        this.socket.destroy();
+    }
+}
+
+/**
+ * Quote a string argument for an IMAP command
+ */
+function quote(value: string): string {
+    return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MockAIProvider, MOCK_MODEL } from './MockAIProvider.js';
+import { ClaudeService } from './ClaudeService.js';
+import { ErrorHandler } from './ErrorHandler.js';
+import type { AIMessageRequest } from './AIProvider.js';
+import type { EmailGenerationRequest } from '../types/index.js';
+
+describe('MockAIProvider', () => {
+    const request: EmailGenerationRequest = {
+        personalNotes: 'Their booking page is hard to find',
+        promptTemplate: '',
+        businessContext: '',
+        scrapedData: {
+            businessName: 'Rise Bakery',
+            description: 'Neighbourhood sourdough bakery',
+            services: ['Bread', 'Catering'],
+            contactInfo: {},
+            socialMedia: {},
+            keyContent: []
+        }
+    };
+
+    const message = (overrides: Partial<AIMessageRequest> = {}): AIMessageRequest => ({
+        purpose: 'generate',
+        prompt: 'Write an email',
+        model: 'claude-test',
+        maxTokens: 1000,
+        temperature: 0.7,
+        context: { generation: request },
+        ...overrides
+    });
+
+    it('writes the same email from the scraped data every time', async () => {
+        const onUsage = vi.fn().mockResolvedValue(1);
+        const service = new ClaudeService(undefined, { provider: new MockAIProvider(), onUsage });
+
+        const first = await service.generateEmail(request);
+        const second = await service.generateEmail(request);
+
+        expect(first.success).toBe(true);
+        expect(first.data).toEqual(second.data);
+        expect(first.data?.subject).toContain('Rise Bakery');
+        expect(first.data?.textBody).toContain('bread and catering');
+        expect(first.data?.htmlBody.startsWith('<p>')).toBe(true);
+        expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ purpose: 'generate', model: MOCK_MODEL }));
+    });
+
+    it('opens each variant from its own angle', async () => {
+        const service = new ClaudeService(undefined, { provider: new MockAIProvider() });
+
+        const result = await service.generateEmailVariants(request);
+
+        const openings = result.data!.map(variant => variant.textBody.split('\n\n')[0]);
+        expect(openings).toHaveLength(3);
+        expect(new Set(openings).size).toBe(3);
+    });
+
+    it('classifies replies by their wording', async () => {
+        const service = new ClaudeService(undefined, { provider: new MockAIProvider() });
+
+        const result = await service.classifyReply({
+            originalSubject: 'Quick idea',
+            originalEmail: 'Hello',
+            replyText: 'I am out of the office until Monday.'
+        });
+
+        expect(result.data?.category).toBe('out_of_office');
+    });
+
+    it('flags claims that are not in the business info', async () => {
+        const service = new ClaudeService(undefined, { provider: new MockAIProvider() });
+
+        const result = await service.verifyEmailFacts({
+            emailContent: '<p>I noticed you offer bread and catering.</p><p>Congrats on your award for best croissants in Ohio.</p>',
+            scrapedData: request.scrapedData,
+            businessName: 'Rise Bakery'
+        });
+
+        expect(result.data?.claims).toEqual([
+            { claim: 'I noticed you offer bread and catering.', supported: true, evidence: 'Services: Bread, Catering' },
+            { claim: 'Congrats on your award for best croissants in Ohio.', supported: false }
+        ]);
+    });
+
+    it('throws errors that are reported like the real API errors', async () => {
+        const provider = new MockAIProvider({ errorMode: 'rate_limit' });
+
+        const rateLimit = await provider.createMessage(message()).catch((error: Error) => error);
+        provider.setErrorMode('overloaded');
+        const overloaded = await provider.createMessage(message()).catch((error: Error) => error);
+
+        expect(ErrorHandler.handleAIServiceError(rateLimit as Error).code).toBe('AI_RATE_LIMIT');
+        expect(ErrorHandler.handleAIServiceError(overloaded as Error).message).toContain('overloaded');
+    });
+
+    it('returns output that does not parse in malformed mode', async () => {
+        const provider = new MockAIProvider({ errorMode: 'malformed' });
+
+        const response = await provider.createMessage(message());
+
+        expect(() => ClaudeService.parseGeneratedEmail(response.text)).toThrow();
+    });
+
+    it('fails the same calls on every run for a given seed', async () => {
+        const outcomes = async () => {
+            const provider = new MockAIProvider({ errorMode: 'overloaded', errorRate: 0.5, seed: 42 });
+            const results: boolean[] = [];
+            for (let i = 0; i < 10; i++) {
+                results.push(await provider.createMessage(message()).then(() => true, () => false));
+            }
+            return results;
+        };
+
+        const first = await outcomes();
+
+        expect(first).toEqual(await outcomes());
+        expect(first).toContain(true);
+        expect(first).toContain(false);
+    });
+
+    it('streams the response in chunks and stops when aborted', async () => {
+        const provider = new MockAIProvider({ latencyMs: 20 });
+        const chunks: string[] = [];
+
+        const response = await provider.streamMessage(message(), delta => chunks.push(delta));
+
+        expect(chunks.length).toBeGreaterThan(1);
+        expect(chunks.join('')).toBe(response.text);
+
+        const controller = new AbortController();
+        controller.abort();
+        await expect(provider.streamMessage(message({ signal: controller.signal }), () => undefined))
+            .rejects.toThrow('aborted');
+    });
+});
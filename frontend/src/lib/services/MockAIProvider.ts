@@ -0,0 +1,302 @@
+import type { GeneratedEmail, ScrapedData } from '../types/index.js';
+import type { AIMessageContext, AIMessageRequest, AIMessageResponse, AIProvider } from './AIProvider.js';
+
+export type MockAIErrorMode = 'none' | 'rate_limit' | 'overloaded' | 'malformed';
+
+export interface MockAIProviderOptions {
+    // Simulated response time; streams spread it over their chunks
+    latencyMs?: number;
+    errorMode?: MockAIErrorMode;
+    // Share of calls (0-1) that fail with errorMode, picked from a seeded
+    // sequence so the same calls fail on every run
+    errorRate?: number;
+    seed?: number;
+}
+
+// Model id reported to the usage ledger; priced at $0
+export const MOCK_MODEL = 'mock';
+
+const STREAM_CHUNK_SIZE = 24;
+
+/**
+ * Local stand-in for Claude that writes templated emails from the business data
+ * instead of calling an API. The same input always gives the same output, so the
+ * pipeline can be run and tested offline. Errors can be injected to exercise retries.
+ */
+export class MockAIProvider implements AIProvider {
+    readonly name = 'mock' as const;
+    private latencyMs: number;
+    private errorMode: MockAIErrorMode;
+    private errorRate: number;
+    private random: () => number;
+
+    constructor(options: MockAIProviderOptions = {}) {
+        this.latencyMs = Math.max(0, options.latencyMs ?? 0);
+        this.errorMode = options.errorMode ?? 'none';
+        this.errorRate = options.errorRate ?? 1;
+        this.random = seededRandom(options.seed ?? 1);
+    }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    /**
+     * Change which failure later calls simulate
+     */
+    setErrorMode(mode: MockAIErrorMode, rate: number = 1): void {
+        this.errorMode = mode;
+        this.errorRate = rate;
+    }
+
+    async createMessage(request: AIMessageRequest): Promise<AIMessageResponse> {
+        await this.wait(this.latencyMs, request.signal);
+        return this.respond(request);
+    }
+
+    async streamMessage(
+        request: AIMessageRequest,
+        onText: (delta: string, snapshot: string) => void
+    ): Promise<AIMessageResponse> {
+        const response = this.respond(request);
+        const chunks = response.text.match(new RegExp(`[\\s\\S]{1,${STREAM_CHUNK_SIZE}}`, 'g')) || [];
+
+        let snapshot = '';
+        for (const chunk of chunks) {
+            await this.wait(this.latencyMs / chunks.length, request.signal);
+            snapshot += chunk;
+            onText(chunk, snapshot);
+        }
+
+        return response;
+    }
+
+    private respond(request: AIMessageRequest): AIMessageResponse {
+        const failure = this.errorMode !== 'none' && this.random() < this.errorRate ? this.errorMode : 'none';
+
+        if (failure === 'rate_limit') {
+            throw new Error('429 {"type":"error","error":{"type":"rate_limit_error","message":"Number of requests has exceeded your rate limit (mock)"}}');
+        }
+        if (failure === 'overloaded') {
+            throw new Error('529 {"type":"error","error":{"type":"overloaded_error","message":"Overloaded (mock)"}}');
+        }
+
+        const text = failure === 'malformed' ? malformedText(request) : this.writeText(request);
+
+        return {
+            text,
+            model: MOCK_MODEL,
+            inputTokens: estimateTokens(request.prompt),
+            outputTokens: estimateTokens(text)
+        };
+    }
+
+    private writeText(request: AIMessageRequest): string {
+        const context = request.context || {};
+
+        switch (request.purpose) {
+            case 'generate':
+                return JSON.stringify(writeEmail(context));
+            case 'refine':
+                return refineEmail(context);
+            case 'classify':
+                return JSON.stringify(classifyReply(context.replyText || ''));
+            case 'subject':
+                return `Quick idea for ${context.businessName || 'your business'}`;
+            case 'verify':
+                return JSON.stringify(checkFacts(context));
+            default:
+                return '';
+        }
+    }
+
+    private wait(ms: number, signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            return Promise.reject(new Error('Request was aborted.'));
+        }
+        if (ms <= 0) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new Error('Request was aborted.'));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+}
+
+function writeEmail(context: AIMessageContext): GeneratedEmail {
+    const request = context.generation;
+    const scraped: Partial<ScrapedData> = request?.scrapedData || {};
+    const name = request?.business_name || scraped.businessName || 'your business';
+    const services = (scraped.services || []).slice(0, 3);
+    const description = truncate(scraped.description || '', 120);
+    const previous = request?.previousEmails?.[request.previousEmails.length - 1];
+
+    const paragraphs: string[] = [];
+    if (previous) {
+        paragraphs.push(`I wanted to follow up on my last note about ${name}'s website in case it got buried.`);
+    } else {
+        paragraphs.push(openingLine(context.angle?.name, name, services, description));
+    }
+
+    if (services.length > 0) {
+        paragraphs.push(`I noticed you offer ${joinList(services)}. I think there is room to make that easier for new customers to find and act on, especially on mobile.`);
+    } else {
+        paragraphs.push('I think there is room to make it easier for new customers to find what you offer and get in touch, especially on mobile.');
+    }
+    paragraphs.push('Would you be open to a quick 15-minute call next week to see if it is a fit?');
+
+    const hooks = [description, ...services].filter(Boolean);
+    const subjects = services.length > 0
+        ? [`Quick idea for ${name}`, `${name} + ${services[0].toLowerCase()}`]
+        : [`Quick idea for ${name}`, `A thought on ${name}'s website`];
+
+    return {
+        subject: previous ? `Re: ${previous.subject}` : truncate(subjects[hash(name + (context.angle?.name || '')) % subjects.length], 50),
+        htmlBody: paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join(''),
+        textBody: paragraphs.join('\n\n'),
+        personalizationHooks: hooks,
+        scrapedFacts: hooks
+    };
+}
+
+function openingLine(angle: string | undefined, name: string, services: string[], description: string): string {
+    const service = services[0]?.toLowerCase();
+
+    switch (angle) {
+        case 'Problem-led':
+            return `Running ${name} means ${service ? `keeping ${service} running smoothly` : 'juggling a lot at once'}, and it is easy for the website to fall behind.`;
+        case 'Compliment-led':
+            return description
+                ? `I came across ${name} and really liked how you describe what you do: "${description}".`
+                : `I came across ${name} and really liked what you have built.`;
+        case 'Case-study-led':
+            return `I recently helped a business much like ${name} turn more of its website visitors into enquiries.`;
+        default:
+            return `I came across ${name} while looking at local businesses and had an idea for your website.`;
+    }
+}
+
+function refineEmail(context: AIMessageContext): string {
+    const original = (context.originalEmail || '').trim();
+
+    // Keep the opening and the ask when asked for something shorter
+    if (/short|concise|brief|trim/i.test(context.feedback || '')) {
+        const paragraphs = original.match(/<p>[\s\S]*?<\/p>/gi) || original.split(/\n\s*\n/);
+        if (paragraphs.length > 2) {
+            const separator = original.includes('<p>') ? '' : '\n\n';
+            return [paragraphs[0], paragraphs[paragraphs.length - 1]].join(separator);
+        }
+    }
+
+    return original;
+}
+
+// Keyword rules, checked in order; the first match wins
+const REPLY_RULES: { pattern: RegExp; category: string; confidence: number; rationale: string }[] = [
+    { pattern: /undeliverable|delivery status|address not found|mailbox unavailable/i, category: 'bounce', confidence: 0.95, rationale: 'Delivery failure notice.' },
+    { pattern: /out of (the )?office|on vacation|away until|automatic reply/i, category: 'out_of_office', confidence: 0.95, rationale: 'Automatic away notice.' },
+    { pattern: /unsubscribe|remove me|stop emailing|take me off/i, category: 'unsubscribe', confidence: 0.9, rationale: 'Asks not to be contacted again.' },
+    { pattern: /wrong person|not the right person|no longer (work|with)/i, category: 'wrong_person', confidence: 0.8, rationale: 'Says someone else handles this.' },
+    { pattern: /not interested|no thanks|no thank you|all set/i, category: 'not_interested', confidence: 0.85, rationale: 'Declines the offer.' },
+    { pattern: /interested|sounds good|tell me more|let's talk|happy to chat|call/i, category: 'interested', confidence: 0.8, rationale: 'Wants to continue the conversation.' }
+];
+
+function classifyReply(replyText: string): { category: string; confidence: number; rationale: string } {
+    const rule = REPLY_RULES.find(candidate => candidate.pattern.test(replyText));
+    if (!rule) {
+        return { category: 'not_interested', confidence: 0.4, rationale: 'No clear signal in the reply.' };
+    }
+
+    return { category: rule.category, confidence: rule.confidence, rationale: rule.rationale };
+}
+
+// Words too common to count as evidence for a claim
+const STOP_WORDS = new Set(['that', 'this', 'with', 'your', 'their', 'they', 'have', 'from', 'what', 'about', 'noticed', 'offer', 'offers', 'really', 'like', 'there', 'which', 'would', 'could']);
+
+// Sentences about the recipient are claims; a claim is supported when most of
+// its distinctive words appear in a line of the business info
+function checkFacts(context: AIMessageContext): { claims: { claim: string; supported: boolean; evidence: string }[] } {
+    const sourceLines = (context.sourceText || '').split('\n').map(line => line.trim()).filter(Boolean);
+    const sourceWords = new Set(contentWords(context.sourceText || ''));
+    const name = context.businessName?.toLowerCase();
+
+    const sentences = (context.emailText || '')
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map(sentence => sentence.trim())
+        .filter(sentence => sentence && !sentence.endsWith('?'))
+        .filter(sentence => /\byou(r)?\b/i.test(sentence) || (name && sentence.toLowerCase().includes(name)));
+
+    const claims = sentences.map(claim => {
+        const words = contentWords(claim).filter(word => word !== name);
+        const found = words.filter(word => sourceWords.has(word));
+        const supported = words.length > 0 && found.length / words.length >= 0.5;
+        const evidence = supported
+            ? sourceLines.reduce((best, line) => {
+                const overlap = (text: string) => contentWords(text).filter(word => found.includes(word)).length;
+                return overlap(line) > overlap(best) ? line : best;
+            }, '')
+            : '';
+        return { claim, supported, evidence };
+    });
+
+    return { claims };
+}
+
+function contentWords(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9']{4,}/g) || []).filter(word => !STOP_WORDS.has(word));
+}
+
+// What a model that ignored the format instructions might send back
+function malformedText(request: AIMessageRequest): string {
+    if (request.purpose === 'generate' || request.purpose === 'classify' || request.purpose === 'verify') {
+        return 'I would be happy to help with that! Could you tell me a little more about the business first?';
+    }
+    return '';
+}
+
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function joinList(items: string[]): string {
+    const lower = items.map(item => item.toLowerCase());
+    return lower.length > 1 ? `${lower.slice(0, -1).join(', ')} and ${lower[lower.length - 1]}` : lower[0];
+}
+
+function truncate(text: string, length: number): string {
+    const trimmed = text.trim();
+    return trimmed.length > length ? `${trimmed.slice(0, length - 1).trimEnd()}…` : trimmed;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function hash(text: string): number {
+    let value = 0;
+    for (let i = 0; i < text.length; i++) {
+        value = (value * 31 + text.charCodeAt(i)) >>> 0;
+    }
+    return value;
+}
+
+// mulberry32
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
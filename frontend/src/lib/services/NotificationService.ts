@@ -117,7 +117,7 @@ export class NotificationService {
             case 'email_generation':
                 return 'Email Generated';
             case 'email_sending':
-                return 'Email Sent';
+                return 'Email Queued';
             case 'settings_save':
                 return 'Settings Saved';
             case 'note_save':
@@ -141,7 +141,7 @@ export class NotificationService {
             case 'email_generation':
                 return 'Your personalized email has been generated and is ready for review.';
             case 'email_sending':
-                return 'Your email has been sent successfully.';
+                return 'Your email is queued and will be sent shortly.';
             case 'settings_save':
                 return 'Your configuration has been updated.';
             case 'note_save':
@@ -181,7 +181,7 @@ export class NotificationService {
             case 'email_generation':
                 return 'Claude AI is generating your personalized email...';
             case 'email_sending':
-                return 'Sending your email through Zoho...';
+                return 'Adding your email to the send queue...';
             default:
                 return 'Please wait while we process your request...';
         }
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReplyClassifier } from './ReplyClassifier.js';
+import type { DatabaseService } from '../database/service.js';
+import type { ClaudeService } from './ClaudeService.js';
+import type { Email } from '../types/database.js';
+
+describe('ReplyClassifier', () => {
+    const now = new Date('2025-01-10T12:00:00.000Z');
+
+    const email: Email = {
+        id: 100,
+        businessId: 42,
+        subject: 'Quick idea',
+        htmlContent: '<p>Hello there,<br>I loved your sourdough.</p>',
+        sendStatus: 'sent',
+        responseStatus: 'no_response',
+        messageId: 'abc@example.com',
+        createdAt: now,
+        updatedAt: now,
+        sentAt: now
+    };
+
+    let db: Record<string, ReturnType<typeof vi.fn>>;
+    let claude: { classifyReply: ReturnType<typeof vi.fn> };
+    let classifier: ReplyClassifier;
+
+    const verdict = (category: string, confidence: number) => ({
+        success: true,
+        data: { category, confidence, rationale: 'Because.' }
+    });
+
+    beforeEach(() => {
+        db = {
+            saveReplyClassification: vi.fn().mockResolvedValue(undefined),
+            updateResponseStatus: vi.fn().mockResolvedValue(undefined)
+        };
+        claude = { classifyReply: vi.fn().mockResolvedValue(verdict('interested', 0.9)) };
+        classifier = new ReplyClassifier(db as unknown as DatabaseService, claude as unknown as ClaudeService, 0.7);
+    });
+
+    it('sends the original email as text along with the reply', async () => {
+        await classifier.classifyAndApply(email, { subject: 'Re: Quick idea', body: 'Call me!' });
+
+        expect(claude.classifyReply).toHaveBeenCalledWith({
+            originalSubject: 'Quick idea',
+            originalEmail: 'Hello there,\nI loved your sourdough.',
+            replySubject: 'Re: Quick idea',
+            replyText: 'Call me!',
+            emailId: 100
+        });
+    });
+
+    it('applies confident verdicts to the response status', async () => {
+        const result = await classifier.classifyAndApply(email, { body: 'Call me!' });
+
+        expect(result.data).toMatchObject({ needsReview: false, appliedStatus: 'good_response' });
+        expect(db.saveReplyClassification).toHaveBeenCalledWith(100, expect.objectContaining({ category: 'interested', needsReview: false }));
+        expect(db.updateResponseStatus).toHaveBeenCalledWith(100, 'good_response');
+    });
+
+    it.each([
+        ['not_interested', 'bad_response'],
+        ['unsubscribe', 'bad_response'],
+        ['wrong_person', 'bad_response'],
+        ['bounce', 'bad_response'],
+        ['out_of_office', null]
+    ])('maps %s to %s', (category, status) => {
+        expect(ReplyClassifier.responseStatusFor(category as Parameters<typeof ReplyClassifier.responseStatusFor>[0])).toBe(status);
+    });
+
+    it('leaves low-confidence verdicts for manual review', async () => {
+        claude.classifyReply.mockResolvedValue(verdict('not_interested', 0.4));
+
+        const result = await classifier.classifyAndApply(email, { body: 'Hmm, maybe later?' });
+
+        expect(result.data?.needsReview).toBe(true);
+        expect(db.saveReplyClassification).toHaveBeenCalledWith(100, expect.objectContaining({ needsReview: true }));
+        expect(db.updateResponseStatus).not.toHaveBeenCalled();
+    });
+
+    it('does not override a status someone already set', async () => {
+        await classifier.classifyAndApply({ ...email, responseStatus: 'bad_response' }, { body: 'Call me!' });
+
+        expect(db.saveReplyClassification).toHaveBeenCalled();
+        expect(db.updateResponseStatus).not.toHaveBeenCalled();
+    });
+
+    it('applies verdicts to emails sent before they were marked as awaiting a reply', async () => {
+        await classifier.classifyAndApply({ ...email, responseStatus: 'unsent' }, { body: 'Call me!' });
+        expect(db.updateResponseStatus).toHaveBeenCalledWith(100, 'good_response');
+
+        db.updateResponseStatus.mockClear();
+        await classifier.classifyAndApply({ ...email, sendStatus: 'draft', responseStatus: 'unsent', sentAt: undefined }, { body: 'Call me!' });
+        expect(db.updateResponseStatus).not.toHaveBeenCalled();
+    });
+
+    it('reports classification failures without saving anything', async () => {
+        claude.classifyReply.mockResolvedValue({ success: false, error: { message: 'Rate limited', code: 'AI_RATE_LIMIT', retryable: true } });
+
+        const result = await classifier.classifyAndApply(email, { body: 'Call me!' });
+
+        expect(result.success).toBe(false);
+        expect(db.saveReplyClassification).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,97 @@
+import type { DatabaseService } from '../database/service.js';
+import type { Email } from '../types/database.js';
+import type { UserFriendlyError } from '../types/index.js';
+import type { ClaudeService, ReplyCategory, ReplyClassification } from './ClaudeService.js';
+
+export interface ClassifiedReply {
+    classification: ReplyClassification;
+    needsReview: boolean;
+    // Status the email was moved to, if any
+    appliedStatus?: 'good_response' | 'bad_response';
+}
+
+export interface ClassifyReplyResult {
+    success: boolean;
+    data?: ClassifiedReply;
+    error?: UserFriendlyError;
+}
+
+// Verdicts that settle the outcome. Out-of-office notices leave the email
+// waiting for a real reply, so follow-ups keep going.
+const RESPONSE_STATUS_BY_CATEGORY: Record<ReplyCategory, 'good_response' | 'bad_response' | null> = {
+    interested: 'good_response',
+    not_interested: 'bad_response',
+    unsubscribe: 'bad_response',
+    wrong_person: 'bad_response',
+    bounce: 'bad_response',
+    out_of_office: null
+};
+
+/**
+ * Classifies replies with Claude and applies confident verdicts to the
+ * email's response status. Server-side only.
+ */
+export class ReplyClassifier {
+    constructor(
+        private db: DatabaseService,
+        private claudeService: ClaudeService,
+        // Verdicts below this confidence are left for manual review
+        private reviewThreshold: number = 0.7
+    ) { }
+
+    /**
+     * Get the response status a verdict maps to, or null if it should not change
+     */
+    static responseStatusFor(category: ReplyCategory): 'good_response' | 'bad_response' | null {
+        return RESPONSE_STATUS_BY_CATEGORY[category];
+    }
+
+    /**
+     * Whether the email went out and nobody has settled its outcome yet. Emails
+     * sent before the send queue marked them as waiting are still 'unsent'.
+     */
+    static isAwaitingReply(email: Email): boolean {
+        return email.responseStatus === 'no_response'
+            || (email.responseStatus === 'unsent' && email.sendStatus === 'sent');
+    }
+
+    /**
+     * Classify a reply to the given email, store the verdict and apply it when confident
+     */
+    async classifyAndApply(email: Email, reply: { subject?: string; body: string }): Promise<ClassifyReplyResult> {
+        const result = await this.claudeService.classifyReply({
+            originalSubject: email.subject,
+            originalEmail: htmlToText(email.htmlContent),
+            replySubject: reply.subject,
+            replyText: reply.body,
+            emailId: email.id
+        });
+
+        if (!result.success || !result.data) {
+            return { success: false, error: result.error };
+        }
+
+        const classification = result.data;
+        const needsReview = classification.confidence < this.reviewThreshold;
+        await this.db.saveReplyClassification(email.id, { ...classification, needsReview });
+
+        // Manually set statuses are left alone
+        const status = ReplyClassifier.responseStatusFor(classification.category);
+        if (needsReview || !status || !ReplyClassifier.isAwaitingReply(email)) {
+            return { success: true, data: { classification, needsReview } };
+        }
+
+        await this.db.updateResponseStatus(email.id, status);
+        return { success: true, data: { classification, needsReview, appliedStatus: status } };
+    }
+}
+
+function htmlToText(html: string): string {
+    return html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/p>/gi, '\n\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .trim();
+}
@@ -0,0 +1,382 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import net from 'node:net';
+import { ReplyPollerService, parseInboundMessage } from './ReplyPollerService.js';
+import type { ImapConfig } from './ImapClient.js';
+import { DatabaseService } from '../database/service.js';
+import { SendQueueService } from './SendQueueService.js';
+import { ReplyClassifier } from './ReplyClassifier.js';
+import type { ClaudeService } from './ClaudeService.js';
+import type { EmailTransport } from './EmailTransport.js';
+import type { Email } from '../types/database.js';
+
+// The send queue to poller test runs against a real, empty database
+vi.mock('../database/init.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../database/init.js')>()),
+    getDatabasePath: () => ':memory:'
+}));
+
+interface StoredMessage {
+    uid: number;
+    raw: string;
+}
+
+/**
+ * In-process IMAP stand-in serving a fixed mailbox
+ */
+function startImapStandIn(messages: StoredMessage[], uidValidity = 7) {
+    const commands: string[] = [];
+
+    const server = net.createServer(socket => {
+        let buffer = '';
+        socket.setEncoding('utf8');
+        socket.write('* OK IMAP stand-in ready\r\n');
+
+        socket.on('data', (chunk: string) => {
+            buffer += chunk;
+            let newline: number;
+            while ((newline = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, newline);
+                buffer = buffer.slice(newline + 2);
+                commands.push(line);
+
+                const [tag, ...rest] = line.split(' ');
+                const command = rest.join(' ');
+
+                if (/^CAPABILITY/i.test(command)) {
+                    socket.write(`* CAPABILITY IMAP4rev1 AUTH=PLAIN\r\n${tag} OK done\r\n`);
+                } else if (/^LOGIN/i.test(command)) {
+                    socket.write(command.includes('"wrong"') ? `${tag} NO bad credentials\r\n` : `${tag} OK logged in\r\n`);
+                } else if (/^EXAMINE/i.test(command)) {
+                    socket.write(`* ${messages.length} EXISTS\r\n* OK [UIDVALIDITY ${uidValidity}] ok\r\n${tag} OK [READ-ONLY] done\r\n`);
+                } else if (/^UID SEARCH UID (\d+):\*/i.test(command)) {
+                    const from = parseInt(command.match(/UID (\d+):/)![1], 10);
+                    const highest = Math.max(...messages.map(m => m.uid));
+                    const uids = messages.filter(m => m.uid >= from).map(m => m.uid);
+                    socket.write(`* SEARCH ${(uids.length ? uids : [highest]).join(' ')}\r\n${tag} OK done\r\n`);
+                } else if (/^UID SEARCH SINCE/i.test(command)) {
+                    socket.write(`* SEARCH ${messages.map(m => m.uid).join(' ')}\r\n${tag} OK done\r\n`);
+                } else if (/^UID FETCH/i.test(command)) {
+                    const wanted = command.split(' ')[2].split(',').map(Number);
+                    messages.filter(m => wanted.includes(m.uid)).forEach((message, index) => {
+                        const size = Buffer.byteLength(message.raw);
+                        socket.write(`* ${index + 1} FETCH (UID ${message.uid} BODY[] {${size}}\r\n${message.raw})\r\n`);
+                    });
+                    socket.write(`${tag} OK done\r\n`);
+                } else if (/^LOGOUT/i.test(command)) {
+                    socket.end(`* BYE\r\n${tag} OK bye\r\n`);
+                } else {
+                    socket.write(`${tag} BAD unknown command\r\n`);
+                }
+            }
+        });
+    });
+
+    return new Promise<{ server: net.Server; port: number; commands: string[] }>(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            resolve({ server, port: (server.address() as net.AddressInfo).port, commands });
+        });
+    });
+}
+
+function rawMessage(headers: Record<string, string>, body: string): string {
+    return Object.entries(headers).map(([key, value]) => `${key}: ${value}`).join('\r\n') + '\r\n\r\n' + body;
+}
+
+describe('ReplyPollerService', () => {
+    const now = new Date('2025-01-10T12:00:00.000Z');
+
+    const sentEmail: Email = {
+        id: 100,
+        businessId: 42,
+        subject: 'Quick idea',
+        htmlContent: '<p>Hello</p>',
+        sendStatus: 'sent',
+        responseStatus: 'no_response',
+        sentAt: new Date('2025-01-08T12:00:00.000Z'),
+        messageId: 'abc@example.com',
+        createdAt: now,
+        updatedAt: now
+    };
+
+    const threadedReply = {
+        uid: 11,
+        raw: rawMessage({
+            'Message-ID': '<reply-1@bakery.com>',
+            'In-Reply-To': '<abc@example.com>',
+            From: '"Pat Baker" <pat@bakery.com>',
+            Subject: 'Re: Quick idea',
+            Date: 'Thu, 09 Jan 2025 10:00:00 +0000'
+        }, 'Sounds great, call me.\r\n\r\nOn Wed, Jan 8, 2025 Sam wrote:\r\n> Hello\r\n')
+    };
+
+    let standIn: Awaited<ReturnType<typeof startImapStandIn>>;
+    let db: Record<string, ReturnType<typeof vi.fn>>;
+
+    const serviceFor = (overrides: Partial<ImapConfig> = {}, classifier?: ReplyClassifier) => new ReplyPollerService(
+        db as unknown as DatabaseService,
+        {
+            host: '127.0.0.1',
+            port: standIn.port,
+            secure: false,
+            requireTls: false,
+            username: 'sam@example.com',
+            password: 'secret',
+            rejectUnauthorized: false,
+            timeoutMs: 5000,
+            ...overrides
+        },
+        { mailbox: 'INBOX', lookbackDays: 30 },
+        classifier
+    );
+
+    beforeEach(() => {
+        db = {
+            getMailboxSyncState: vi.fn().mockResolvedValue(null),
+            saveMailboxSyncState: vi.fn().mockResolvedValue(undefined),
+            hasRecordedReply: vi.fn().mockResolvedValue(false),
+            findEmailByMessageIds: vi.fn().mockResolvedValue(null),
+            findLatestSentEmailForContact: vi.fn().mockResolvedValue(null),
+            recordEmailEvent: vi.fn().mockResolvedValue(1),
+            updateResponseStatus: vi.fn().mockResolvedValue(undefined),
+            stopEnrollmentsForBusiness: vi.fn().mockResolvedValue(undefined),
+            flagReplyForReview: vi.fn().mockResolvedValue(undefined)
+        };
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => standIn.server.close(resolve));
+    });
+
+    it('matches a reply by In-Reply-To and records it', async () => {
+        standIn = await startImapStandIn([threadedReply]);
+        db.findEmailByMessageIds.mockResolvedValue(sentEmail);
+
+        const summary = await serviceFor().pollOnce(now);
+
+        expect(summary).toEqual({ fetched: 1, matched: 1, unmatched: 0, skipped: 0 });
+        expect(db.findEmailByMessageIds).toHaveBeenCalledWith(['abc@example.com']);
+        expect(db.recordEmailEvent).toHaveBeenCalledWith(100, 'replied', expect.objectContaining({
+            messageId: 'reply-1@bakery.com',
+            matchedBy: 'message_id',
+            from: 'pat@bakery.com',
+            body: 'Sounds great, call me.'
+        }));
+        // Follow-ups stop, but whether the reply is good news is left for review
+        expect(db.stopEnrollmentsForBusiness).toHaveBeenCalledWith(42, 'replied');
+        expect(db.flagReplyForReview).toHaveBeenCalledWith(100);
+        expect(db.updateResponseStatus).not.toHaveBeenCalled();
+        expect(db.saveMailboxSyncState).toHaveBeenLastCalledWith({ mailbox: 'INBOX', uidValidity: 7, lastUid: 11, lastSyncedAt: now });
+        // Messages are read without being marked as seen
+        expect(standIn.commands).toContainEqual(expect.stringMatching(/^A\d+ EXAMINE "INBOX"$/));
+        expect(standIn.commands).toContainEqual(expect.stringMatching(/BODY\.PEEK\[\]/));
+    });
+
+    it('falls back to the sender address when the reply is not threaded', async () => {
+        standIn = await startImapStandIn([{
+            uid: 12,
+            raw: rawMessage({
+                'Message-ID': '<fresh@bakery.com>',
+                From: 'PAT@bakery.com',
+                Subject: 'Your email',
+                Date: 'Thu, 09 Jan 2025 10:00:00 +0000'
+            }, 'Interested!')
+        }]);
+        db.findLatestSentEmailForContact.mockResolvedValue(sentEmail);
+
+        const summary = await serviceFor().pollOnce(now);
+
+        expect(summary.matched).toBe(1);
+        expect(db.findLatestSentEmailForContact).toHaveBeenCalledWith('pat@bakery.com', new Date('2025-01-09T10:00:00.000Z'));
+        expect(db.recordEmailEvent).toHaveBeenCalledWith(100, 'replied', expect.objectContaining({ matchedBy: 'sender' }));
+    });
+
+    it('only reads messages after the last seen UID', async () => {
+        standIn = await startImapStandIn([threadedReply]);
+        db.getMailboxSyncState.mockResolvedValue({ mailbox: 'INBOX', uidValidity: 7, lastUid: 11 });
+
+        const summary = await serviceFor().pollOnce(now);
+
+        expect(summary.fetched).toBe(0);
+        expect(standIn.commands).toContainEqual(expect.stringMatching(/UID SEARCH UID 12:\*$/));
+    });
+
+    it('rescans recent mail when the mailbox UIDVALIDITY changed', async () => {
+        standIn = await startImapStandIn([threadedReply], 8);
+        db.getMailboxSyncState.mockResolvedValue({ mailbox: 'INBOX', uidValidity: 7, lastUid: 50 });
+
+        const summary = await serviceFor().pollOnce(now);
+
+        expect(summary.fetched).toBe(1);
+        expect(standIn.commands).toContainEqual(expect.stringMatching(/UID SEARCH SINCE 11-Dec-2024$/));
+    });
+
+    it('skips replies already recorded and leaves reviewed emails alone', async () => {
+        standIn = await startImapStandIn([threadedReply, {
+            uid: 12,
+            raw: rawMessage({ 'Message-ID': '<reply-2@bakery.com>', 'In-Reply-To': '<abc@example.com>', From: 'pat@bakery.com' }, 'Actually, no thanks.')
+        }]);
+        db.hasRecordedReply.mockImplementation(async (id: string) => id === 'reply-1@bakery.com');
+        db.findEmailByMessageIds.mockResolvedValue({ ...sentEmail, responseStatus: 'bad_response' });
+
+        const summary = await serviceFor().pollOnce(now);
+
+        expect(summary).toMatchObject({ fetched: 2, matched: 1, skipped: 1 });
+        expect(db.updateResponseStatus).not.toHaveBeenCalled();
+    });
+
+    it('does not count out-of-office replies as responses', async () => {
+        standIn = await startImapStandIn([{
+            uid: 13,
+            raw: rawMessage({
+                'Message-ID': '<ooo@bakery.com>',
+                'In-Reply-To': '<abc@example.com>',
+                From: 'pat@bakery.com',
+                'Auto-Submitted': 'auto-replied',
+                Subject: 'Out of office'
+            }, 'Back Monday.')
+        }]);
+        db.findEmailByMessageIds.mockResolvedValue(sentEmail);
+
+        await serviceFor().pollOnce(now);
+
+        expect(db.recordEmailEvent).toHaveBeenCalledWith(100, 'replied', expect.objectContaining({ autoReply: true }));
+        expect(db.updateResponseStatus).not.toHaveBeenCalled();
+        expect(db.stopEnrollmentsForBusiness).not.toHaveBeenCalled();
+        expect(db.flagReplyForReview).not.toHaveBeenCalled();
+    });
+
+    it('lets the classifier decide the response status when one is set', async () => {
+        standIn = await startImapStandIn([threadedReply]);
+        db.findEmailByMessageIds.mockResolvedValue(sentEmail);
+        const classifier = {
+            classifyAndApply: vi.fn()
+                .mockResolvedValueOnce({ success: true, data: { classification: { category: 'not_interested', confidence: 0.4 }, needsReview: true } })
+                .mockResolvedValueOnce({ success: true, data: { classification: { category: 'interested', confidence: 0.9 }, needsReview: false, appliedStatus: 'good_response' } })
+        };
+        const service = serviceFor({}, classifier as unknown as ReplyClassifier);
+
+        await service.pollOnce(now);
+        expect(classifier.classifyAndApply).toHaveBeenCalledWith(sentEmail, { subject: 'Re: Quick idea', body: 'Sounds great, call me.' });
+        expect(db.updateResponseStatus).not.toHaveBeenCalled();
+        // A verdict left for review still stops follow-ups
+        expect(db.stopEnrollmentsForBusiness).toHaveBeenCalledWith(42, 'replied');
+
+        db.stopEnrollmentsForBusiness.mockClear();
+        db.flagReplyForReview.mockClear();
+        db.hasRecordedReply.mockResolvedValue(false);
+        await service.pollOnce(now);
+        // An applied verdict has stopped them already and settled the reply
+        expect(db.stopEnrollmentsForBusiness).not.toHaveBeenCalled();
+        expect(db.flagReplyForReview).not.toHaveBeenCalled();
+    });
+
+    it('fails the poll when login is rejected', async () => {
+        standIn = await startImapStandIn([]);
+
+        await expect(serviceFor({ password: 'wrong' }).pollOnce(now)).rejects.toThrow('IMAP LOGIN failed');
+        expect(db.saveMailboxSyncState).not.toHaveBeenCalled();
+    });
+});
+
+describe('send queue to reply poller', () => {
+    /**
+     * Send an email to a business enrolled in a sequence, then poll a reply to it
+     */
+    async function sendAndReply(reply: string, classifier?: ReplyClassifier) {
+        const db = DatabaseService.getInstance();
+        const businessId = await db.createBusiness({ name: 'Pat Bakery', contactEmail: 'pat@bakery.com' });
+        const emailId = await db.saveDraft({ businessId, subject: 'Quick idea', htmlContent: '<p>Hello</p>' });
+        await db.enqueueEmail({ emailId, recipientEmail: 'pat@bakery.com', fromName: 'Sam', fromEmail: 'sam@example.com' });
+        const sequenceId = await db.createSequence({ name: 'Two-touch', steps: [{ delayDays: 3, prompt: 'Gentle bump' }] });
+        const enrollmentId = await db.enrollInSequence({ sequenceId, businessId, recipientEmail: 'pat@bakery.com' }, new Date());
+
+        const messageId = `email-${emailId}@example.com`;
+        const transport = {
+            name: 'smtp',
+            sendEmail: vi.fn().mockResolvedValue({ success: true, data: { messageId, headerMessageId: messageId } })
+        } as unknown as EmailTransport;
+        await new SendQueueService(db, transport).processDueItems(new Date(Date.now() + 1000));
+        const sent = await db.getEmailById(emailId);
+
+        const standIn = await startImapStandIn([{
+            uid: emailId,
+            raw: rawMessage({ 'Message-ID': `<reply-${emailId}@bakery.com>`, 'In-Reply-To': `<${messageId}>`, From: 'pat@bakery.com' }, reply)
+        }]);
+        try {
+            const poller = new ReplyPollerService(db, {
+                host: '127.0.0.1',
+                port: standIn.port,
+                secure: false,
+                requireTls: false,
+                username: 'sam@example.com',
+                password: 'secret',
+                rejectUnauthorized: false,
+                timeoutMs: 5000
+            }, { mailbox: `INBOX-${emailId}`, lookbackDays: 30 }, classifier);
+            await poller.pollOnce();
+        } finally {
+            await new Promise(resolve => standIn.server.close(resolve));
+        }
+
+        return { sent, email: await db.getEmailById(emailId), enrollment: await db.getEnrollmentById(enrollmentId) };
+    }
+
+    it('waits for a reply once sent, then stops follow-ups and asks for review when one arrives without a classifier', async () => {
+        const { sent, email, enrollment } = await sendAndReply('Please stop emailing me.');
+
+        expect(sent).toMatchObject({ sendStatus: 'sent', responseStatus: 'no_response' });
+        expect(email).toMatchObject({ responseStatus: 'no_response' });
+        expect(enrollment).toMatchObject({ status: 'stopped', stopReason: 'replied' });
+        const needsReview = await DatabaseService.getInstance().searchEmails({ needsReview: true });
+        expect(needsReview.map(candidate => candidate.id)).toContain(email?.id);
+    });
+
+    it('applies a confident verdict to the sent email', async () => {
+        const claude = {
+            classifyReply: vi.fn().mockResolvedValue({ success: true, data: { category: 'unsubscribe', confidence: 0.95, rationale: 'Asked to stop.' } })
+        };
+        const classifier = new ReplyClassifier(DatabaseService.getInstance(), claude as unknown as ClaudeService, 0.7);
+
+        const { email, enrollment } = await sendAndReply('Please stop emailing me.', classifier);
+
+        expect(email).toMatchObject({ responseStatus: 'bad_response' });
+        expect(enrollment).toMatchObject({ status: 'stopped', stopReason: 'bad_response' });
+    });
+});
+
+describe('parseInboundMessage', () => {
+    it('prefers the text part of a multipart reply and decodes it', () => {
+        const raw = rawMessage({
+            'Message-ID': '<m1@bakery.com>',
+            References: '<first@example.com> <abc@example.com>',
+            From: '=?UTF-8?B?Wm/Dqw==?= <zoe@bakery.com>',
+            Subject: '=?UTF-8?Q?Re:_Caf=C3=A9?=',
+            'Content-Type': 'multipart/alternative; boundary="b1"'
+        }, [
+            '--b1',
+            'Content-Type: text/plain; charset=utf-8',
+            'Content-Transfer-Encoding: quoted-printable',
+            '',
+            'Caf=C3=A9 sounds good =',
+            'to me.',
+            '--b1',
+            'Content-Type: text/html; charset=utf-8',
+            '',
+            '<p>Caf&eacute; sounds good to me.</p>',
+            '--b1--',
+            ''
+        ].join('\r\n'));
+
+        const message = parseInboundMessage(Buffer.from(raw));
+
+        expect(message).toMatchObject({
+            messageId: 'm1@bakery.com',
+            references: ['first@example.com', 'abc@example.com'],
+            fromAddress: 'zoe@bakery.com',
+            fromName: 'Zoë',
+            subject: 'Re: Café',
+            body: 'Café sounds good to me.',
+            autoReply: false
+        });
+    });
+});
@@ -0,0 +1,397 @@
+import type { DatabaseService } from '../database/service.js';
+import type { Email } from '../types/database.js';
+import { ImapClient, type ImapConfig } from './ImapClient.js';
+import { ErrorHandler } from './ErrorHandler.js';
+import { ReplyClassifier } from './ReplyClassifier.js';
+
+export interface ReplyPollerOptions {
+    mailbox: string;
+    // How far back to look the first time a mailbox is read
+    lookbackDays: number;
+    // Messages fetched per FETCH command
+    batchSize?: number;
+}
+
+export interface ReplyPollSummary {
+    fetched: number;
+    matched: number;
+    unmatched: number;
+    skipped: number;
+}
+
+export interface InboundMessage {
+    messageId?: string;
+    inReplyTo: string[];
+    references: string[];
+    fromAddress: string;
+    fromName?: string;
+    subject: string;
+    date?: Date;
+    // Automatic replies such as out-of-office notices
+    autoReply: boolean;
+    // Reply text with the quoted original removed
+    body: string;
+}
+
+interface MimePart {
+    headers: Map<string, string>;
+    body: Buffer;
+}
+
+/**
+ * Reads the sending mailbox over IMAP and matches replies to sent emails,
+ * first by In-Reply-To/References and then by sender address.
+ * Server-side only.
+ */
+export class ReplyPollerService {
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+
+    constructor(
+        private db: DatabaseService,
+        private imapConfig: ImapConfig,
+        private options: ReplyPollerOptions,
+        // When set, replies are classified and confident verdicts applied
+        private classifier?: ReplyClassifier
+    ) { }
+
+    /**
+     * Read new messages from the mailbox and record the replies among them
+     */
+    async pollOnce(now: Date = new Date()): Promise<ReplyPollSummary> {
+        const summary: ReplyPollSummary = { fetched: 0, matched: 0, unmatched: 0, skipped: 0 };
+
+        // Skip this tick if the previous poll is still reading
+        if (this.running) {
+            return summary;
+        }
+
+        this.running = true;
+        let client: ImapClient | null = null;
+        try {
+            client = await ImapClient.connect(this.imapConfig);
+
+            const { mailbox, lookbackDays, batchSize = 20 } = this.options;
+            const info = await client.examine(mailbox);
+            const state = await this.db.getMailboxSyncState(mailbox);
+
+            // Start over when the mailbox is new to us or the server renumbered it
+            const uids = state && state.uidValidity === info.uidValidity
+                ? await client.searchAfterUid(state.lastUid)
+                : await client.searchSince(new Date(now.getTime() - lookbackDays * 24 * 60 * 60 * 1000));
+
+            let lastUid = state && state.uidValidity === info.uidValidity ? state.lastUid : 0;
+
+            for (let i = 0; i < uids.length; i += batchSize) {
+                const messages = await client.fetchMessages(uids.slice(i, i + batchSize));
+
+                for (const { uid, raw } of messages) {
+                    summary.fetched++;
+                    const outcome = await this.handleMessage(parseInboundMessage(raw), `${info.uidValidity}:${uid}`);
+                    summary[outcome]++;
+                    lastUid = Math.max(lastUid, uid);
+                }
+
+                await this.db.saveMailboxSyncState({ mailbox, uidValidity: info.uidValidity, lastUid, lastSyncedAt: now });
+            }
+
+            await this.db.saveMailboxSyncState({ mailbox, uidValidity: info.uidValidity, lastUid, lastSyncedAt: now });
+        } finally {
+            await client?.logout();
+            this.running = false;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Match one inbound message to a sent email and record it as a reply
+     * @param fallbackId Identifies the message for de-duplication when it has no Message-ID
+     */
+    private async handleMessage(message: InboundMessage, fallbackId: string): Promise<'matched' | 'unmatched' | 'skipped'> {
+        if (!message.fromAddress || message.fromAddress === this.imapConfig.username.toLowerCase()) {
+            return 'skipped';
+        }
+
+        const replyId = message.messageId || `imap:${this.options.mailbox}:${fallbackId}`;
+        if (await this.db.hasRecordedReply(replyId)) {
+            return 'skipped';
+        }
+
+        let matchedBy: 'message_id' | 'sender' = 'message_id';
+        let email: Email | null = await this.db.findEmailByMessageIds([...message.inReplyTo, ...message.references]);
+        if (!email) {
+            matchedBy = 'sender';
+            email = await this.db.findLatestSentEmailForContact(message.fromAddress, message.date || new Date());
+        }
+
+        if (!email) {
+            return 'unmatched';
+        }
+
+        await this.db.recordEmailEvent(email.id, 'replied', {
+            source: 'imap',
+            messageId: replyId,
+            matchedBy,
+            from: message.fromAddress,
+            fromName: message.fromName,
+            subject: message.subject,
+            receivedAt: message.date?.toISOString(),
+            autoReply: message.autoReply,
+            body: message.body
+        });
+
+        const verdict = this.classifier
+            ? await this.classifier.classifyAndApply(email, { subject: message.subject, body: message.body })
+            : null;
+
+        // The response status waits for a confident verdict or a person, but a
+        // reply from a person stops follow-ups straight away and is flagged for
+        // review. An applied verdict has already stopped them; out-of-office
+        // notices leave them running.
+        const outOfOffice = message.autoReply || verdict?.data?.classification.category === 'out_of_office';
+        if (!verdict?.data?.appliedStatus && !outOfOffice) {
+            await this.db.stopEnrollmentsForBusiness(email.businessId, 'replied');
+            if (ReplyClassifier.isAwaitingReply(email)) {
+                await this.db.flagReplyForReview(email.id);
+            }
+        }
+
+        return 'matched';
+    }
+
+    /**
+     * Start polling the mailbox
+     */
+    start(intervalMs: number): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.pollOnce().catch(error => {
+                ErrorHandler.logError(error as Error, 'ReplyPollerService.start');
+            });
+        }, intervalMs);
+    }
+
+    /**
+     * Stop polling
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+}
+
+/**
+ * Parse the headers and reply text out of a raw RFC 5322 message
+ */
+export function parseInboundMessage(raw: Buffer): InboundMessage {
+    const part = parseMimePart(raw);
+    const header = (name: string) => part.headers.get(name) || '';
+
+    const from = decodeHeaderWords(header('from'));
+    const address = from.match(/<([^>]+)>/)?.[1] || from.match(/[^\s<>"]+@[^\s<>"]+/)?.[0] || '';
+    const name = from.replace(/<[^>]*>/, '').replace(/"/g, '').trim();
+
+    const date = header('date') ? new Date(header('date')) : undefined;
+    const autoSubmitted = header('auto-submitted').toLowerCase();
+
+    return {
+        messageId: extractMessageIds(header('message-id'))[0],
+        inReplyTo: extractMessageIds(header('in-reply-to')),
+        references: extractMessageIds(header('references')),
+        fromAddress: address.toLowerCase(),
+        fromName: name && name !== address ? name : undefined,
+        subject: decodeHeaderWords(header('subject')),
+        date: date && !isNaN(date.getTime()) ? date : undefined,
+        autoReply: (autoSubmitted !== '' && autoSubmitted !== 'no') ||
+            part.headers.has('x-autoreply') ||
+            /^(auto|automatic reply|out of office)/i.test(header('subject')),
+        body: stripQuotedReply(extractText(part))
+    };
+}
+
+/**
+ * Split a MIME entity into unfolded, lower-cased headers and its body
+ */
+function parseMimePart(raw: Buffer): MimePart {
+    let split = raw.indexOf('\r\n\r\n');
+    let separatorLength = 4;
+    if (split === -1) {
+        split = raw.indexOf('\n\n');
+        separatorLength = 2;
+    }
+    if (split === -1) {
+        split = raw.length;
+        separatorLength = 0;
+    }
+
+    const headers = new Map<string, string>();
+    const headerText = raw.subarray(0, split).toString('latin1').replace(/\r?\n[ \t]+/g, ' ');
+    for (const line of headerText.split(/\r?\n/)) {
+        const colon = line.indexOf(':');
+        if (colon > 0) {
+            const key = line.slice(0, colon).trim().toLowerCase();
+            // Keep the first occurrence, which is the outermost header
+            if (!headers.has(key)) {
+                headers.set(key, Buffer.from(line.slice(colon + 1).trim(), 'latin1').toString('utf8'));
+            }
+        }
+    }
+
+    return { headers, body: raw.subarray(split + separatorLength) };
+}
+
+/**
+ * Find the best plain text for a MIME entity, preferring text/plain over HTML
+ */
+function extractText(part: MimePart): string {
+    const contentType = part.headers.get('content-type') || 'text/plain';
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+    if (mimeType.startsWith('multipart/')) {
+        const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+        if (!boundary) {
+            return '';
+        }
+
+        const children = splitMultipart(part.body, boundary).map(parseMimePart);
+        const plain = children.find(child => (child.headers.get('content-type') || 'text/plain').toLowerCase().startsWith('text/plain'));
+        if (plain) {
+            return extractText(plain);
+        }
+        for (const child of children) {
+            const text = extractText(child);
+            if (text) {
+                return text;
+            }
+        }
+        return '';
+    }
+
+    if (!mimeType.startsWith('text/')) {
+        return '';
+    }
+
+    const text = decodeBody(part.body, part.headers.get('content-transfer-encoding'), contentType);
+    return mimeType === 'text/html' ? htmlToText(text) : text;
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+    const text = body.toString('latin1');
+    const delimiter = `--${boundary}`;
+    const parts: Buffer[] = [];
+
+    const sections = text.split(delimiter);
+    // The first section is the preamble; the section after the closing "--" is the epilogue
+    for (const section of sections.slice(1)) {
+        if (section.startsWith('--')) {
+            break;
+        }
+        parts.push(Buffer.from(section.replace(/^\r?\n/, '').replace(/\r?\n$/, ''), 'latin1'));
+    }
+
+    return parts;
+}
+
+/**
+ * Undo the transfer encoding and decode the charset
+ */
+function decodeBody(body: Buffer, transferEncoding: string | undefined, contentType: string): string {
+    const encoding = (transferEncoding || '').toLowerCase();
+    let bytes = body;
+
+    if (encoding === 'base64') {
+        bytes = Buffer.from(body.toString('latin1').replace(/\s+/g, ''), 'base64');
+    } else if (encoding === 'quoted-printable') {
+        bytes = decodeQuotedPrintable(body.toString('latin1'));
+    }
+
+    return decodeCharset(bytes, contentType.match(/charset="?([^";]+)"?/i)?.[1]);
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+    const unwrapped = text.replace(/=\r?\n/g, '');
+    const bytes: number[] = [];
+
+    for (let i = 0; i < unwrapped.length; i++) {
+        const hex = unwrapped.slice(i + 1, i + 3);
+        if (unwrapped[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+            bytes.push(parseInt(hex, 16));
+            i += 2;
+        } else {
+            bytes.push(unwrapped.charCodeAt(i) & 0xff);
+        }
+    }
+
+    return Buffer.from(bytes);
+}
+
+function decodeCharset(bytes: Buffer, charset = 'utf-8'): string {
+    try {
+        return new TextDecoder(charset.toLowerCase()).decode(bytes);
+    } catch {
+        return bytes.toString('utf8');
+    }
+}
+
+/**
+ * Decode RFC 2047 encoded words such as =?UTF-8?B?...?=
+ */
+function decodeHeaderWords(value: string): string {
+    return value
+        .replace(/\?=\s+=\?/g, '?==?')
+        .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+            const bytes = encoding.toUpperCase() === 'B'
+                ? Buffer.from(text, 'base64')
+                : decodeQuotedPrintable(text.replace(/_/g, ' '));
+            return decodeCharset(bytes, charset);
+        });
+}
+
+/**
+ * Pull the <id> values out of Message-ID, In-Reply-To or References, without brackets
+ */
+function extractMessageIds(value: string): string[] {
+    return Array.from(value.matchAll(/<([^<>\s]+)>/g), match => match[1]);
+}
+
+function htmlToText(html: string): string {
+    return html
+        .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+        .replace(/<blockquote[\s\S]*<\/blockquote>/gi, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'");
+}
+
+/**
+ * Keep only what the sender wrote, dropping the quoted original below it
+ */
+function stripQuotedReply(text: string): string {
+    const lines = text.replace(/\r\n/g, '\n').split('\n');
+    const kept: string[] = [];
+
+    for (const line of lines) {
+        const trimmed = line.trim();
+        if (/^On .+wrote:$/i.test(trimmed) || /^-{2,}\s*Original Message\s*-{2,}/i.test(trimmed) || (/^From: .+/.test(line) && kept.length > 0)) {
+            break;
+        }
+        if (line.startsWith('>')) {
+            continue;
+        }
+        kept.push(line);
+    }
+
+    return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ScrapeSnapshotService } from './ScrapeSnapshotService.js';
+import type { DatabaseService } from '../database/service.js';
+import type { WebScraperService } from './WebScraperService.js';
+import type { ScrapeSnapshot } from '../types/database.js';
+import type { ScrapedData } from '../types/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ScrapeSnapshotService', () => {
+    const now = new Date('2025-01-10T12:00:00.000Z');
+
+    const data: ScrapedData = {
+        businessName: 'Rise Bakery',
+        description: 'Family bakery in Leeds',
+        services: ['Bread'],
+        contactInfo: { email: 'hello@risebakery.example' },
+        socialMedia: {},
+        keyContent: []
+    };
+
+    const snapshot: ScrapeSnapshot = {
+        id: 3,
+        url: 'https://risebakery.example',
+        finalUrl: 'https://www.risebakery.example/',
+        status: 'success',
+        httpStatus: 200,
+        mode: 'http',
+        html: '<h1>Rise Bakery</h1>',
+        scrapedData: data,
+        scrapedAt: new Date(now.getTime() - HOUR_MS)
+    };
+
+    let db: Record<string, ReturnType<typeof vi.fn>>;
+    let scraper: { scrapeWebsite: ReturnType<typeof vi.fn> };
+    let service: ScrapeSnapshotService;
+
+    beforeEach(() => {
+        db = {
+            findRecentScrapeSnapshot: vi.fn().mockResolvedValue(snapshot),
+            saveScrapeSnapshot: vi.fn().mockResolvedValue(4)
+        };
+        scraper = {
+            scrapeWebsite: vi.fn().mockResolvedValue({
+                success: true,
+                data,
+                mode: 'browser',
+                finalUrl: 'https://www.risebakery.example/',
+                httpStatus: 200,
+                html: '<h1>Rise Bakery</h1><p>New menu</p>'
+            })
+        };
+        service = new ScrapeSnapshotService(db as unknown as DatabaseService, scraper as unknown as WebScraperService);
+    });
+
+    it('serves a snapshot within the TTL without scraping', async () => {
+        const result = await service.scrape('https://RiseBakery.example/#menu', { ttlMs: 24 * HOUR_MS }, now);
+
+        expect(db.findRecentScrapeSnapshot).toHaveBeenCalledWith(
+            'https://risebakery.example',
+            new Date(now.getTime() - 24 * HOUR_MS),
+            { maxPages: 5, mode: 'auto' }
+        );
+        expect(scraper.scrapeWebsite).not.toHaveBeenCalled();
+        expect(result).toMatchObject({ success: true, data, snapshotId: 3, cached: true, scrapedAt: snapshot.scrapedAt });
+        expect(result).not.toHaveProperty('html');
+    });
+
+    it('scrapes and stores a snapshot when forced, with no recent snapshot, or with caching off', async () => {
+        const forced = await service.scrape('https://risebakery.example/', { ttlMs: 24 * HOUR_MS, force: true, maxPages: 1 }, now);
+        db.findRecentScrapeSnapshot.mockResolvedValueOnce(null);
+        await service.scrape('https://risebakery.example', { ttlMs: 24 * HOUR_MS }, now);
+        await service.scrape('https://risebakery.example', { ttlMs: 0 }, now);
+
+        expect(db.findRecentScrapeSnapshot).toHaveBeenCalledTimes(1);
+        expect(scraper.scrapeWebsite).toHaveBeenCalledTimes(3);
+        expect(scraper.scrapeWebsite).toHaveBeenCalledWith('https://risebakery.example/', undefined, expect.objectContaining({ maxPages: 1 }));
+        expect(db.saveScrapeSnapshot).toHaveBeenCalledWith({
+            url: 'https://risebakery.example',
+            finalUrl: 'https://www.risebakery.example/',
+            status: 'success',
+            httpStatus: 200,
+            mode: 'browser',
+            options: { maxPages: 1, mode: 'auto' },
+            html: '<h1>Rise Bakery</h1><p>New menu</p>',
+            scrapedData: data,
+            errorCode: undefined,
+            scrapedAt: now
+        });
+        expect(forced).toMatchObject({ success: true, snapshotId: 4, cached: false, scrapedAt: now });
+        expect(forced).not.toHaveProperty('html');
+    });
+
+    it('records failed and incomplete scrapes, and still returns them if storing fails', async () => {
+        scraper.scrapeWebsite.mockResolvedValueOnce({
+            success: false,
+            error: { message: 'Not found', code: 'INVALID_URL', retryable: false },
+            requiresManualInput: true
+        });
+        await service.scrape('https://risebakery.example', { ttlMs: 0 }, now);
+        expect(db.saveScrapeSnapshot).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'failed', errorCode: 'INVALID_URL' }));
+
+        scraper.scrapeWebsite.mockResolvedValueOnce({ success: true, data, requiresManualInput: true });
+        db.saveScrapeSnapshot.mockRejectedValueOnce(new Error('database is locked'));
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+        const result = await service.scrape('https://risebakery.example', { ttlMs: 0 }, now);
+
+        expect(db.saveScrapeSnapshot).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'partial' }));
+        expect(result).toMatchObject({ success: true, data, cached: false });
+        expect(result.snapshotId).toBeUndefined();
+        consoleError.mockRestore();
+    });
+
+    it('only serves a snapshot scraped with the same pages and mode', async () => {
+        await service.scrape('https://risebakery.example', { ttlMs: 24 * HOUR_MS, maxPages: 1, mode: 'http' }, now);
+
+        expect(db.findRecentScrapeSnapshot).toHaveBeenCalledWith(
+            'https://risebakery.example',
+            expect.any(Date),
+            { maxPages: 1, mode: 'http' }
+        );
+    });
+});
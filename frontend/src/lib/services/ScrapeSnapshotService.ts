@@ -0,0 +1,101 @@
+import type { DatabaseService } from '../database/service.js';
+import type { ScrapeSnapshotStatus } from '../types/database.js';
+import { resolveScrapeOptions, type ScrapeOptions, type ScrapingResult, type WebScraperService } from './WebScraperService.js';
+
+export interface CachedScrapeOptions extends ScrapeOptions {
+    maxRetries?: number;
+    // Scrape again even when a recent snapshot exists
+    force?: boolean;
+    // How old a snapshot may be and still be served; 0 always scrapes
+    ttlMs: number;
+}
+
+// What /api/scrape returns: the scrape, without its HTML, and the snapshot it was stored as
+export interface CachedScrapingResult extends Omit<ScrapingResult, 'html'> {
+    snapshotId?: number;
+    // True when served from a stored snapshot rather than scraped just now
+    cached: boolean;
+    scrapedAt: Date;
+}
+
+/**
+ * Stores every scrape as a snapshot, with the start page's HTML, and serves a
+ * recent successful snapshot instead of scraping the same site again.
+ * Server-side only.
+ */
+export class ScrapeSnapshotService {
+    constructor(
+        private db: DatabaseService,
+        private scraper: WebScraperService
+    ) { }
+
+    /**
+     * Scrape a website, or return its latest snapshot if it is within the TTL
+     * and was scraped with the same options
+     */
+    async scrape(url: string, options: CachedScrapeOptions, now: Date = new Date()): Promise<CachedScrapingResult> {
+        const key = ScrapeSnapshotService.normalizeUrl(url);
+        const scrapeOptions = resolveScrapeOptions(options);
+
+        if (!options.force && options.ttlMs > 0) {
+            const snapshot = await this.db.findRecentScrapeSnapshot(key, new Date(now.getTime() - options.ttlMs), scrapeOptions);
+            if (snapshot?.scrapedData) {
+                return {
+                    success: true,
+                    data: snapshot.scrapedData,
+                    mode: snapshot.mode,
+                    finalUrl: snapshot.finalUrl,
+                    httpStatus: snapshot.httpStatus,
+                    snapshotId: snapshot.id,
+                    cached: true,
+                    scrapedAt: snapshot.scrapedAt
+                };
+            }
+        }
+
+        const { html, ...result } = await this.scraper.scrapeWebsite(url, options.maxRetries, options);
+
+        // A snapshot that cannot be stored should not lose the scrape itself
+        let snapshotId: number | undefined;
+        try {
+            snapshotId = await this.db.saveScrapeSnapshot({
+                url: key,
+                finalUrl: result.finalUrl,
+                status: ScrapeSnapshotService.snapshotStatus(result),
+                httpStatus: result.httpStatus,
+                mode: result.mode,
+                options: scrapeOptions,
+                html,
+                scrapedData: result.data,
+                errorCode: result.error?.code,
+                scrapedAt: now
+            });
+        } catch (error) {
+            console.error('Failed to store scrape snapshot:', error);
+        }
+
+        return { ...result, snapshotId, cached: false, scrapedAt: now };
+    }
+
+    /**
+     * The key snapshots of a URL are stored and looked up under: the same page
+     * whatever the case of its host, its fragment or a trailing slash
+     */
+    static normalizeUrl(url: string): string {
+        try {
+            const parsed = new URL(url.trim());
+            parsed.hash = '';
+            return parsed.toString().replace(/\/+$/, '');
+        } catch {
+            return url.trim();
+        }
+    }
+
+    // Data that needed manual review is kept, but never served from cache
+    private static snapshotStatus(result: ScrapingResult): ScrapeSnapshotStatus {
+        if (!result.success) {
+            return 'failed';
+        }
+        return result.requiresManualInput ? 'partial' : 'success';
+    }
+}
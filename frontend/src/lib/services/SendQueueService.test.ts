@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SendQueueService } from './SendQueueService.js';
+import type { DatabaseService } from '../database/service.js';
+import type { EmailTransport } from './EmailTransport.js';
+import type { Email, SendQueueItem } from '../types/database.js';
+
+describe('SendQueueService', () => {
+    const now = new Date('2025-01-10T12:00:00.000Z');
+
+    const item: SendQueueItem = {
+        id: 3,
+        emailId: 100,
+        recipientEmail: 'owner@bakery.com',
+        fromName: 'Sam',
+        fromEmail: 'sam@example.com',
+        status: 'queued',
+        attempts: 0,
+        maxAttempts: 3,
+        scheduledFor: now,
+        nextAttemptAt: now,
+        eventData: { sequenceId: 1 },
+        createdAt: now,
+        updatedAt: now
+    };
+
+    const email: Email = {
+        id: 100,
+        businessId: 42,
+        subject: 'Quick idea',
+        htmlContent: '<p>Hello</p>',
+        sendStatus: 'draft',
+        responseStatus: 'unsent',
+        createdAt: now,
+        updatedAt: now
+    };
+
+    let db: Record<string, ReturnType<typeof vi.fn>>;
+    let transport: { name: string; sendEmail: ReturnType<typeof vi.fn> };
+    let service: SendQueueService;
+
+    beforeEach(() => {
+        db = {
+            getDueQueueItems: vi.fn().mockResolvedValue([item]),
+            claimQueueItem: vi.fn().mockResolvedValue(true),
+            getEmailById: vi.fn().mockResolvedValue(email),
+            markQueueItemSent: vi.fn().mockResolvedValue(undefined),
+            rescheduleQueueItem: vi.fn().mockResolvedValue(undefined),
+            deadLetterQueueItem: vi.fn().mockResolvedValue(undefined),
+            updateEmailStatus: vi.fn().mockResolvedValue(undefined),
+            recordEmailEvent: vi.fn().mockResolvedValue(1),
+            setEmailMessageId: vi.fn().mockResolvedValue(undefined),
+            releaseInFlightQueueItems: vi.fn().mockResolvedValue(0)
+        };
+        transport = {
+            name: 'smtp',
+            sendEmail: vi.fn().mockResolvedValue({ success: true, data: { messageId: 'msg-1', headerMessageId: 'msg-1' } })
+        };
+
+        service = new SendQueueService(
+            db as unknown as DatabaseService,
+            transport as unknown as EmailTransport
+        );
+    });
+
+    afterEach(() => {
+        service.stop();
+    });
+
+    it('sends due items and records the sent event', async () => {
+        const summary = await service.processDueItems(now);
+
+        expect(summary).toMatchObject({ processed: 1, sent: 1 });
+        expect(transport.sendEmail).toHaveBeenCalledWith(
+            expect.objectContaining({ to: 'owner@bakery.com', subject: 'Quick idea', fromEmail: 'sam@example.com' })
+        );
+        expect(db.markQueueItemSent).toHaveBeenCalledWith(3, expect.any(Date));
+        expect(db.updateEmailStatus).toHaveBeenCalledWith(100, 'sent', expect.any(Date));
+        expect(db.setEmailMessageId).toHaveBeenCalledWith(100, 'msg-1');
+        expect(db.recordEmailEvent).toHaveBeenCalledWith(
+            100,
+            'sent',
+            expect.objectContaining({ sequenceId: 1, transport: 'smtp', messageId: 'msg-1', attempts: 1 })
+        );
+    });
+
+    it('skips items another run already claimed', async () => {
+        db.claimQueueItem.mockResolvedValue(false);
+
+        const summary = await service.processDueItems(now);
+
+        expect(summary.processed).toBe(0);
+        expect(transport.sendEmail).not.toHaveBeenCalled();
+    });
+
+    it('reschedules transient failures on the long backoff', async () => {
+        transport.sendEmail.mockResolvedValue({
+            success: false,
+            error: { message: 'Rate limit exceeded', code: 'EMAIL_SEND_ERROR', retryable: true }
+        });
+
+        const summary = await service.processDueItems(now);
+
+        expect(summary.retried).toBe(1);
+        expect(db.rescheduleQueueItem).toHaveBeenCalledWith(
+            3,
+            'Rate limit exceeded',
+            'EMAIL_SEND_ERROR',
+            new Date(now.getTime() + SendQueueService.getRetryDelay(1))
+        );
+        expect(db.updateEmailStatus).not.toHaveBeenCalled();
+    });
+
+    it('dead-letters permanent failures immediately', async () => {
+        transport.sendEmail.mockResolvedValue({
+            success: false,
+            error: { message: 'Invalid recipient', code: 'EMAIL_INVALID_RECIPIENT', retryable: false }
+        });
+
+        const summary = await service.processDueItems(now);
+
+        expect(summary.deadLettered).toBe(1);
+        expect(db.deadLetterQueueItem).toHaveBeenCalledWith(3, 'Invalid recipient', 'EMAIL_INVALID_RECIPIENT');
+        expect(db.updateEmailStatus).toHaveBeenCalledWith(100, 'failed');
+    });
+
+    it('dead-letters transient failures once attempts run out', async () => {
+        db.getDueQueueItems.mockResolvedValue([{ ...item, attempts: 2 }]);
+        transport.sendEmail.mockResolvedValue({
+            success: false,
+            error: { message: 'Service unavailable', code: 'EMAIL_SEND_ERROR', retryable: true }
+        });
+
+        const summary = await service.processDueItems(now);
+
+        expect(summary.deadLettered).toBe(1);
+        expect(db.rescheduleQueueItem).not.toHaveBeenCalled();
+    });
+
+    it('dead-letters an email that fails the pre-send check instead of sending it', async () => {
+        service = new SendQueueService(
+            db as unknown as DatabaseService,
+            transport as unknown as EmailTransport,
+            { checkBeforeSend: () => 'Email scored 40 on the pre-send check; the minimum to send is 70' }
+        );
+
+        const summary = await service.processDueItems(now);
+
+        expect(summary).toMatchObject({ processed: 1, deadLettered: 1 });
+        expect(transport.sendEmail).not.toHaveBeenCalled();
+        expect(db.deadLetterQueueItem).toHaveBeenCalledWith(3, 'Email scored 40 on the pre-send check; the minimum to send is 70', 'EMAIL_SEND_ERROR');
+        expect(db.updateEmailStatus).toHaveBeenCalledWith(100, 'failed');
+    });
+
+    it('grows the retry delay and caps it at the last step', () => {
+        expect(SendQueueService.getRetryDelay(2)).toBeGreaterThan(SendQueueService.getRetryDelay(1));
+        expect(SendQueueService.getRetryDelay(20)).toBe(SendQueueService.getRetryDelay(5));
+    });
+
+    it('requeues items left in flight by a restart before polling', async () => {
+        await service.start(60_000);
+
+        expect(db.releaseInFlightQueueItems).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,175 @@
+import type { DatabaseService } from '../database/service.js';
+import type { SendQueueItem } from '../types/database.js';
+import type { UserFriendlyError } from '../types/index.js';
+import type { EmailTransport } from './EmailTransport.js';
+import { ErrorHandler, ErrorCode } from './ErrorHandler.js';
+
+export interface SendQueueRunSummary {
+    processed: number;
+    sent: number;
+    retried: number;
+    deadLettered: number;
+}
+
+export interface SendQueueOptions {
+    // Most items sent per run
+    batchSize?: number;
+    // Pre-send check; a reason dead-letters the item instead of sending it
+    checkBeforeSend?: (email: { subject: string; htmlContent: string }) => string | null;
+}
+
+// Wait before each retry; the last entry repeats for any further attempts.
+// Much longer than retryWithBackoff so provider outages and rate limits can clear.
+const RETRY_DELAYS_MS = [
+    60 * 1000,
+    5 * 60 * 1000,
+    15 * 60 * 1000,
+    60 * 60 * 1000,
+    4 * 60 * 60 * 1000
+];
+
+/**
+ * Background worker that delivers emails from the persistent send queue.
+ * Server-side only.
+ */
+export class SendQueueService {
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+
+    constructor(
+        private db: DatabaseService,
+        private emailService: EmailTransport,
+        private options: SendQueueOptions = {}
+    ) { }
+
+    /**
+     * Get the delay before the given retry (1-based attempt that just failed)
+     */
+    static getRetryDelay(attempt: number): number {
+        return RETRY_DELAYS_MS[Math.min(attempt, RETRY_DELAYS_MS.length) - 1];
+    }
+
+    /**
+     * Send every queued item that is due
+     */
+    async processDueItems(now: Date = new Date()): Promise<SendQueueRunSummary> {
+        const summary: SendQueueRunSummary = { processed: 0, sent: 0, retried: 0, deadLettered: 0 };
+
+        // Skip this tick if the previous run is still sending
+        if (this.running) {
+            return summary;
+        }
+
+        this.running = true;
+        try {
+            const due = await this.db.getDueQueueItems(now, this.options.batchSize ?? 10);
+            for (const item of due) {
+                if (!(await this.db.claimQueueItem(item.id))) {
+                    continue;
+                }
+
+                summary.processed++;
+                const outcome = await this.deliver({ ...item, attempts: item.attempts + 1 }, now);
+                summary[outcome]++;
+            }
+        } finally {
+            this.running = false;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Send a claimed item and record the outcome
+     */
+    private async deliver(item: SendQueueItem, now: Date): Promise<'sent' | 'retried' | 'deadLettered'> {
+        const email = await this.db.getEmailById(item.emailId);
+        if (!email) {
+            await this.db.deadLetterQueueItem(item.id, 'Email no longer exists', ErrorCode.UNKNOWN_ERROR);
+            return 'deadLettered';
+        }
+
+        // Checked at delivery because the content can be edited, or a blocked
+        // item retried, after the email was queued
+        const blocked = this.options.checkBeforeSend?.({ subject: email.subject, htmlContent: email.htmlContent });
+        if (blocked) {
+            await this.db.deadLetterQueueItem(item.id, blocked, ErrorCode.EMAIL_SEND_ERROR);
+            await this.db.updateEmailStatus(item.emailId, 'failed');
+            return 'deadLettered';
+        }
+
+        let error: UserFriendlyError;
+        try {
+            const sendResult = await this.emailService.sendEmail({
+                to: item.recipientEmail,
+                subject: email.subject,
+                htmlContent: email.htmlContent,
+                fromName: item.fromName,
+                fromEmail: item.fromEmail
+            });
+
+            if (sendResult.success) {
+                const sentAt = new Date();
+                await this.db.markQueueItemSent(item.id, sentAt);
+                await this.db.updateEmailStatus(item.emailId, 'sent', sentAt);
+                if (sendResult.data?.headerMessageId) {
+                    await this.db.setEmailMessageId(item.emailId, sendResult.data.headerMessageId);
+                }
+                await this.db.recordEmailEvent(item.emailId, 'sent', {
+                    ...item.eventData,
+                    recipient: item.recipientEmail,
+                    transport: this.emailService.name,
+                    messageId: sendResult.data?.messageId,
+                    attempts: item.attempts
+                });
+                return 'sent';
+            }
+
+            error = sendResult.error || ErrorHandler.handleEmailServiceError(new Error('Failed to send email'));
+        } catch (sendError) {
+            error = ErrorHandler.handleEmailServiceError(sendError as Error);
+        }
+
+        ErrorHandler.logError(error, `SendQueueService.deliver(${item.id}) attempt ${item.attempts}`);
+
+        if (ErrorHandler.isRetryable(error) && item.attempts < item.maxAttempts) {
+            const nextAttemptAt = new Date(now.getTime() + SendQueueService.getRetryDelay(item.attempts));
+            await this.db.rescheduleQueueItem(item.id, error.message, error.code, nextAttemptAt);
+            return 'retried';
+        }
+
+        await this.db.deadLetterQueueItem(item.id, error.message, error.code);
+        await this.db.updateEmailStatus(item.emailId, 'failed');
+        return 'deadLettered';
+    }
+
+    /**
+     * Recover items interrupted by a restart, then start polling the queue
+     */
+    async start(intervalMs: number): Promise<void> {
+        if (this.timer) {
+            return;
+        }
+
+        const released = await this.db.releaseInFlightQueueItems();
+        if (released > 0) {
+            console.log(`Requeued ${released} email(s) interrupted by a restart`);
+        }
+
+        this.timer = setInterval(() => {
+            this.processDueItems().catch(error => {
+                ErrorHandler.logError(error as Error, 'SendQueueService.start');
+            });
+        }, intervalMs);
+    }
+
+    /**
+     * Stop polling
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+}
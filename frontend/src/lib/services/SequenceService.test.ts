@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SequenceService } from './SequenceService.js';
+import type { DatabaseService } from '../database/service.js';
+import type { ClaudeService } from './ClaudeService.js';
+import type { Email, Sequence, SequenceEnrollment } from '../types/database.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SequenceService', () => {
+    const now = new Date('2025-01-10T12:00:00.000Z');
+
+    const sequence: Sequence = {
+        id: 1,
+        name: 'Three-touch',
+        steps: [
+            { id: 1, sequenceId: 1, stepOrder: 0, delayDays: 3, prompt: 'Gentle bump' },
+            { id: 2, sequenceId: 1, stepOrder: 1, delayDays: 5, prompt: 'Share a case study' }
+        ],
+        createdAt: now,
+        updatedAt: now
+    };
+
+    const enrollment: SequenceEnrollment = {
+        id: 7,
+        sequenceId: 1,
+        businessId: 42,
+        recipientEmail: 'owner@bakery.com',
+        currentStep: 0,
+        status: 'active',
+        createdAt: now,
+        updatedAt: now
+    };
+
+    const sentEmail: Email = {
+        id: 100,
+        businessId: 42,
+        subject: 'Quick idea for Corner Bakery',
+        htmlContent: '<p>Hi there,<br>I loved your sourdough.</p>',
+        sendStatus: 'sent',
+        responseStatus: 'no_response',
+        createdAt: now,
+        updatedAt: now,
+        sentAt: now
+    };
+
+    let db: Record<string, ReturnType<typeof vi.fn>>;
+    let claude: { generateEmail: ReturnType<typeof vi.fn> };
+    let service: SequenceService;
+
+    beforeEach(() => {
+        db = {
+            getDueEnrollments: vi.fn().mockResolvedValue([enrollment]),
+            getBusinessHistory: vi.fn().mockResolvedValue([sentEmail]),
+            getSequenceById: vi.fn().mockResolvedValue(sequence),
+            findBusinessById: vi.fn().mockResolvedValue({ id: 42, name: 'Corner Bakery', createdAt: now, updatedAt: now }),
+            saveDraft: vi.fn().mockResolvedValue(101),
+            enqueueEmail: vi.fn().mockResolvedValue(1),
+            advanceEnrollment: vi.fn().mockResolvedValue(undefined),
+            stopEnrollment: vi.fn().mockResolvedValue(undefined),
+            recordEnrollmentError: vi.fn().mockResolvedValue(undefined),
+            enrollInSequence: vi.fn().mockResolvedValue(7),
+            getCampaignById: vi.fn().mockResolvedValue(null),
+            getPendingWebsiteChanges: vi.fn().mockResolvedValue([])
+        };
+        claude = {
+            generateEmail: vi.fn().mockResolvedValue({
+                success: true,
+                data: {
+                    subject: 'Checking in',
+                    htmlBody: 'Just following up.',
+                    textBody: 'Just following up.',
+                    personalizationHooks: [],
+                    scrapedFacts: []
+                }
+            })
+        };
+
+        service = new SequenceService(
+            db as unknown as DatabaseService,
+            claude as unknown as ClaudeService,
+            { fromEmail: 'outreach@example.com' }
+        );
+    });
+
+    it('schedules the first step after its delay when enrolling', async () => {
+        await service.enroll({ sequenceId: 1, businessId: 42, recipientEmail: 'owner@bakery.com' }, now);
+
+        expect(db.enrollInSequence).toHaveBeenCalledWith(
+            expect.objectContaining({ businessId: 42 }),
+            new Date(now.getTime() + 3 * DAY_MS)
+        );
+    });
+
+    it('drafts the step with earlier emails as context, queues it and schedules the next step', async () => {
+        db.getPendingWebsiteChanges.mockResolvedValueOnce([
+            { id: 1, businessId: 42, summary: '', changes: [{ field: 'services', kind: 'added', after: 'Wedding cakes' }], detectedAt: now }
+        ]);
+        const summary = await service.processDueEnrollments(now);
+
+        expect(summary).toMatchObject({ processed: 1, queued: 1 });
+
+        const request = claude.generateEmail.mock.calls[0][0];
+        expect(request.promptTemplate).toBe('Gentle bump');
+        expect(request.previousEmails).toEqual([
+            expect.objectContaining({ subject: sentEmail.subject, content: 'Hi there,\nI loved your sourdough.' })
+        ]);
+        expect(request.websiteChanges).toEqual(['Added "Wedding cakes" to their services']);
+
+        expect(db.saveDraft).toHaveBeenCalledWith(
+            expect.objectContaining({
+                businessId: 42,
+                subject: 'Re: Quick idea for Corner Bakery',
+                htmlContent: expect.stringContaining('Just following up.'),
+                // The AI body is kept as a revision under the template render
+                revisions: [expect.objectContaining({ source: 'ai_generation', htmlContent: 'Just following up.' })],
+                contentSource: 'template_render'
+            })
+        );
+        expect(db.enqueueEmail).toHaveBeenCalledWith(
+            // The enrollment names no sender, so the configured address is used
+            expect.objectContaining({ emailId: 101, recipientEmail: 'owner@bakery.com', fromEmail: 'outreach@example.com' })
+        );
+        expect(db.advanceEnrollment).toHaveBeenCalledWith(7, new Date(now.getTime() + 5 * DAY_MS));
+    });
+
+    it("generates with the campaign's model settings and records the ones used", async () => {
+        const settings = { model: 'claude-campaign', temperature: 0.3, maxTokens: 1500 };
+        db.getDueEnrollments.mockResolvedValue([{ ...enrollment, campaignId: 3 }]);
+        db.getCampaignById.mockResolvedValue({ id: 3, name: 'Bakeries', generationSettings: { model: 'claude-campaign', temperature: 0.3 } });
+        claude.generateEmail.mockResolvedValue({
+            success: true,
+            data: { subject: 'Checking in', htmlBody: 'Just following up.', textBody: '', personalizationHooks: [], scrapedFacts: [] },
+            settings
+        });
+
+        await service.processDueEnrollments(now);
+
+        expect(db.getCampaignById).toHaveBeenCalledWith(3);
+        expect(claude.generateEmail.mock.calls[0][0].generationSettings).toEqual({ model: 'claude-campaign', temperature: 0.3 });
+        expect(db.saveDraft).toHaveBeenCalledWith(expect.objectContaining({ campaignId: 3, generationSettings: settings }));
+    });
+
+    it("sends from the campaign's sender when the enrollment names none", async () => {
+        db.getDueEnrollments.mockResolvedValue([{ ...enrollment, campaignId: 3 }]);
+        db.getCampaignById.mockResolvedValue({ id: 3, name: 'Bakeries', senderEmail: 'bakeries@example.com' });
+
+        await service.processDueEnrollments(now);
+
+        expect(db.enqueueEmail).toHaveBeenCalledWith(expect.objectContaining({ fromEmail: 'bakeries@example.com' }));
+    });
+
+    it('completes the enrollment after the last step', async () => {
+        db.getDueEnrollments.mockResolvedValue([{ ...enrollment, currentStep: 1 }]);
+
+        await service.processDueEnrollments(now);
+
+        expect(db.advanceEnrollment).toHaveBeenCalledWith(7, null);
+    });
+
+    it('stops without sending once the business has replied', async () => {
+        db.getBusinessHistory.mockResolvedValue([{ ...sentEmail, responseStatus: 'good_response' }]);
+
+        const summary = await service.processDueEnrollments(now);
+
+        expect(summary.stopped).toBe(1);
+        expect(db.stopEnrollment).toHaveBeenCalledWith(7, 'good_response');
+        expect(claude.generateEmail).not.toHaveBeenCalled();
+        expect(db.enqueueEmail).not.toHaveBeenCalled();
+    });
+
+    it('records the error and retries later when drafting fails', async () => {
+        claude.generateEmail.mockResolvedValue({ success: false, error: { message: 'Rate limited' } });
+
+        const summary = await service.processDueEnrollments(now);
+
+        expect(summary.failed).toBe(1);
+        expect(db.enqueueEmail).not.toHaveBeenCalled();
+        expect(db.recordEnrollmentError).toHaveBeenCalledWith(7, 'Rate limited', expect.any(Date));
+        expect(db.advanceEnrollment).not.toHaveBeenCalled();
+        expect(db.stopEnrollment).not.toHaveBeenCalled();
+    });
+
+    it('stops the enrollment once a step has failed too many times', async () => {
+        db.getDueEnrollments.mockResolvedValue([{ ...enrollment, failedAttempts: 4, lastError: 'Rate limited' }]);
+        claude.generateEmail.mockResolvedValue({ success: false, error: { message: 'Rate limited' } });
+
+        const summary = await service.processDueEnrollments(now);
+
+        expect(summary.failed).toBe(1);
+        expect(db.recordEnrollmentError).toHaveBeenCalledWith(7, 'Rate limited', expect.any(Date));
+        expect(db.stopEnrollment).toHaveBeenCalledWith(7, 'step_failed');
+    });
+
+    it('does not queue a step that fails the pre-send check', async () => {
+        service = new SequenceService(
+            db as unknown as DatabaseService,
+            claude as unknown as ClaudeService,
+            { fromEmail: 'outreach@example.com', checkBeforeSend: () => 'Email scored 40 on the pre-send check; the minimum to send is 70' }
+        );
+
+        const summary = await service.processDueEnrollments(now);
+
+        expect(summary.failed).toBe(1);
+        expect(db.saveDraft).not.toHaveBeenCalled();
+        expect(db.enqueueEmail).not.toHaveBeenCalled();
+        expect(db.recordEnrollmentError).toHaveBeenCalledWith(
+            7, 'Email scored 40 on the pre-send check; the minimum to send is 70', expect.any(Date)
+        );
+    });
+});
@@ -0,0 +1,269 @@
+import type { DatabaseService } from '../database/service.js';
+import type { Campaign, Email, SequenceEnrollment, SequenceEnrollmentData } from '../types/database.js';
+import type { GenerationSettings, PreviousEmail } from '../types/index.js';
+import type { ClaudeService } from './ClaudeService.js';
+import { TemplateManager } from './TemplateManager.js';
+import { ErrorHandler } from './ErrorHandler.js';
+import { websiteChangeHooks } from '../utils/website-changes.js';
+
+export interface SequenceRunSummary {
+    processed: number;
+    queued: number;
+    stopped: number;
+    completed: number;
+    failed: number;
+}
+
+export interface SequenceOptions {
+    // Sender for steps whose enrollment and campaign do not name one
+    fromEmail?: string;
+    // Pre-send check; a reason stops the step from being queued, and it is drafted again later
+    checkBeforeSend?: (email: { subject: string; htmlContent: string }) => string | null;
+}
+
+// How long to wait before retrying a step whose draft could not be generated
+const STEP_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Attempts at a step before the enrollment is stopped
+const MAX_STEP_ATTEMPTS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Drives multi-step follow-up sequences: drafts each due step with Claude,
+ * using the earlier emails to the business as context, and queues it for sending.
+ * Server-side only.
+ */
+export class SequenceService {
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+    private templateManager = new TemplateManager();
+
+    constructor(
+        private db: DatabaseService,
+        private claudeService: ClaudeService,
+        private options: SequenceOptions = {}
+    ) { }
+
+    /**
+     * Enroll a business in a sequence, scheduling the first step after its delay
+     */
+    async enroll(data: SequenceEnrollmentData, now: Date = new Date()): Promise<number> {
+        const sequence = await this.db.getSequenceById(data.sequenceId);
+        if (!sequence) {
+            throw new Error(`Sequence ${data.sequenceId} not found`);
+        }
+        if (sequence.steps.length === 0) {
+            throw new Error(`Sequence ${sequence.name} has no steps`);
+        }
+
+        const firstStepAt = new Date(now.getTime() + sequence.steps[0].delayDays * DAY_MS);
+        return this.db.enrollInSequence(data, firstStepAt);
+    }
+
+    /**
+     * Process every enrollment whose next step is due
+     */
+    async processDueEnrollments(now: Date = new Date()): Promise<SequenceRunSummary> {
+        const summary: SequenceRunSummary = { processed: 0, queued: 0, stopped: 0, completed: 0, failed: 0 };
+
+        // Skip this tick if the previous run is still working through its batch
+        if (this.running) {
+            return summary;
+        }
+
+        this.running = true;
+        try {
+            const due = await this.db.getDueEnrollments(now);
+            for (const enrollment of due) {
+                summary.processed++;
+                const outcome = await this.processEnrollment(enrollment, now);
+                summary[outcome]++;
+            }
+        } finally {
+            this.running = false;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Run the next step of a single enrollment
+     */
+    private async processEnrollment(
+        enrollment: SequenceEnrollment,
+        now: Date
+    ): Promise<'queued' | 'stopped' | 'completed' | 'failed'> {
+        try {
+            const history = await this.db.getBusinessHistory(enrollment.businessId);
+
+            // Any reply ends the sequence, even if the status changed outside the app
+            const replied = history.find(
+                email => email.responseStatus === 'good_response' || email.responseStatus === 'bad_response'
+            );
+            if (replied) {
+                await this.db.stopEnrollment(enrollment.id, replied.responseStatus);
+                return 'stopped';
+            }
+
+            const sequence = await this.db.getSequenceById(enrollment.sequenceId);
+            const step = sequence?.steps[enrollment.currentStep];
+            if (!sequence || !step) {
+                await this.db.advanceEnrollment(enrollment.id, null);
+                return 'completed';
+            }
+
+            const business = await this.db.findBusinessById(enrollment.businessId);
+            if (!business) {
+                await this.db.stopEnrollment(enrollment.id, 'business_deleted');
+                return 'stopped';
+            }
+
+            const sentEmails = history.filter(email => email.sendStatus === 'sent').reverse();
+            const campaign = enrollment.campaignId ? await this.db.getCampaignById(enrollment.campaignId) : null;
+
+            // Anything new on their website since the last email is the best reason to follow up
+            const websiteChanges = await this.db.getPendingWebsiteChanges(business.id);
+
+            const generation = await this.claudeService.generateEmail({
+                scrapedData: business.scrapedData,
+                manualContent: business.description,
+                personalNotes: `Follow-up ${enrollment.currentStep + 1} of ${sequence.steps.length} in the "${sequence.name}" sequence.`,
+                promptTemplate: step.prompt,
+                businessContext: business.description || business.name,
+                business_name: business.name,
+                previousEmails: sentEmails.map(email => this.toPreviousEmail(email)),
+                generationSettings: campaign?.generationSettings,
+                businessId: business.id,
+                campaignId: enrollment.campaignId,
+                websiteChanges: websiteChangeHooks(websiteChanges.flatMap(change => change.changes))
+            });
+
+            if (!generation.success || !generation.data) {
+                throw new Error(generation.error?.message || 'Email generation failed');
+            }
+
+            const template = this.templateManager.getTemplate(step.templateId || '') || this.templateManager.getDefaultTemplate();
+            const rendered = this.templateManager.renderEmail(template.id, generation.data.htmlBody);
+
+            // Follow-ups stay in the original thread, so the generated subject is not used
+            const lastSubject = sentEmails.length > 0 ? sentEmails[sentEmails.length - 1].subject : business.name;
+            const subject = step.subject || (lastSubject.startsWith('Re:') ? lastSubject : `Re: ${lastSubject}`);
+
+            await this.queueStep(enrollment, campaign, {
+                subject,
+                htmlContent: rendered.htmlContent,
+                generatedHtml: generation.data.htmlBody,
+                generationSettings: generation.settings,
+                aiUsageIds: generation.usageIds,
+                stepNumber: enrollment.currentStep + 1
+            });
+
+            const nextStep = sequence.steps[enrollment.currentStep + 1];
+            const nextStepAt = nextStep ? new Date(now.getTime() + nextStep.delayDays * DAY_MS) : null;
+            await this.db.advanceEnrollment(enrollment.id, nextStepAt);
+
+            return 'queued';
+        } catch (error) {
+            ErrorHandler.logError(error as Error, `SequenceService.processEnrollment(${enrollment.id})`);
+            await this.db.recordEnrollmentError(
+                enrollment.id,
+                (error as Error).message,
+                new Date(now.getTime() + STEP_RETRY_DELAY_MS)
+            );
+
+            // A step that keeps failing would otherwise be drafted again every hour
+            if ((enrollment.failedAttempts ?? 0) + 1 >= MAX_STEP_ATTEMPTS) {
+                await this.db.stopEnrollment(enrollment.id, 'step_failed');
+            }
+            return 'failed';
+        }
+    }
+
+    /**
+     * Save the drafted step and hand it to the send queue
+     */
+    private async queueStep(
+        enrollment: SequenceEnrollment,
+        campaign: Campaign | null,
+        email: {
+            subject: string;
+            htmlContent: string;
+            generatedHtml: string;
+            generationSettings?: GenerationSettings;
+            aiUsageIds?: number[];
+            stepNumber: number;
+        }
+    ): Promise<void> {
+        const blocked = this.options.checkBeforeSend?.({ subject: email.subject, htmlContent: email.htmlContent });
+        if (blocked) {
+            throw new Error(blocked);
+        }
+
+        const emailId = await this.db.saveDraft({
+            businessId: enrollment.businessId,
+            campaignId: enrollment.campaignId,
+            subject: email.subject,
+            htmlContent: email.htmlContent,
+            personalNotes: `Sequence follow-up step ${email.stepNumber}`,
+            revisions: [{ source: 'ai_generation', subject: email.subject, htmlContent: email.generatedHtml }],
+            contentSource: 'template_render',
+            generationSettings: email.generationSettings,
+            aiUsageIds: email.aiUsageIds
+        });
+
+        await this.db.enqueueEmail({
+            emailId,
+            recipientEmail: enrollment.recipientEmail,
+            fromName: enrollment.senderName || campaign?.senderName || 'Cold Email System',
+            fromEmail: enrollment.senderEmail || campaign?.senderEmail || this.options.fromEmail || '',
+            eventData: {
+                sequenceId: enrollment.sequenceId,
+                enrollmentId: enrollment.id,
+                step: email.stepNumber
+            }
+        });
+    }
+
+    /**
+     * Convert a stored email into prompt context, stripping the HTML template
+     */
+    private toPreviousEmail(email: Email): PreviousEmail {
+        return {
+            subject: email.subject,
+            content: email.htmlContent
+                .replace(/<style[\s\S]*?<\/style>/gi, '')
+                .replace(/<br\s*\/?>/gi, '\n')
+                .replace(/<[^>]*>/g, '')
+                .replace(/&nbsp;/g, ' ')
+                .replace(/\n\s*\n+/g, '\n\n')
+                .trim(),
+            sentAt: email.sentAt
+        };
+    }
+
+    /**
+     * Start polling for due steps
+     */
+    start(intervalMs: number): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.processDueEnrollments().catch(error => {
+                ErrorHandler.logError(error as Error, 'SequenceService.start');
+            });
+        }, intervalMs);
+    }
+
+    /**
+     * Stop polling
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+}
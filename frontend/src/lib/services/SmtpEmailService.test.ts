@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import net from 'node:net';
+import { SmtpEmailService, buildMimeMessage, encodeQuotedPrintable, type SmtpConfig } from './SmtpEmailService.js';
+import type { EmailData } from '../types/index.js';
+
+interface SinkOptions {
+    extensions: string[];
+    // Reply overrides keyed by command verb, e.g. { RCPT: '550 No such user' }
+    replies: Record<string, string>;
+}
+
+interface ReceivedMessage {
+    commands: string[];
+    data: string;
+}
+
+/**
+ * In-process SMTP sink that speaks just enough of the protocol to accept a message
+ */
+function startSmtpSink(options: Partial<SinkOptions> = {}) {
+    const { extensions = ['AUTH PLAIN LOGIN'], replies = {} } = options;
+    const sessions: ReceivedMessage[] = [];
+
+    const server = net.createServer(socket => {
+        const session: ReceivedMessage = { commands: [], data: '' };
+        sessions.push(session);
+        let buffer = '';
+        let inData = false;
+        let authLoginStep = 0;
+
+        const reply = (verb: string, fallback: string) => socket.write(`${replies[verb] || fallback}\r\n`);
+
+        socket.setEncoding('utf8');
+        socket.write('220 sink.test ESMTP ready\r\n');
+
+        socket.on('data', (chunk: string) => {
+            buffer += chunk;
+
+            if (inData) {
+                const end = buffer.indexOf('\r\n.\r\n');
+                if (end === -1) return;
+                session.data = buffer.slice(0, end);
+                buffer = buffer.slice(end + 5);
+                inData = false;
+                reply('DATA_END', '250 2.0.0 Queued');
+            }
+
+            let newline: number;
+            while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, newline);
+                buffer = buffer.slice(newline + 2);
+                session.commands.push(line);
+
+                if (authLoginStep > 0) {
+                    authLoginStep = authLoginStep === 1 ? 2 : 0;
+                    reply('AUTH', authLoginStep ? '334 UGFzc3dvcmQ6' : '235 2.7.0 Authenticated');
+                    continue;
+                }
+
+                const verb = line.split(' ')[0].toUpperCase();
+                switch (verb) {
+                    case 'EHLO':
+                        socket.write(['250-sink.test', ...extensions.map(ext => `250-${ext}`), '250 SMTPUTF8']
+                            .join('\r\n') + '\r\n');
+                        break;
+                    case 'AUTH':
+                        if (line.toUpperCase() === 'AUTH LOGIN') {
+                            authLoginStep = 1;
+                            socket.write('334 VXNlcm5hbWU6\r\n');
+                        } else {
+                            reply('AUTH', '235 2.7.0 Authenticated');
+                        }
+                        break;
+                    case 'DATA':
+                        if (replies.DATA) {
+                            reply('DATA', '');
+                        } else {
+                            inData = true;
+                            socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+                        }
+                        break;
+                    case 'QUIT':
+                        socket.end('221 2.0.0 Bye\r\n');
+                        break;
+                    default:
+                        reply(verb, '250 2.1.0 Ok');
+                }
+            }
+        });
+    });
+
+    return new Promise<{ server: net.Server; port: number; sessions: ReceivedMessage[] }>(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            resolve({ server, port: (server.address() as net.AddressInfo).port, sessions });
+        });
+    });
+}
+
+describe('SmtpEmailService', () => {
+    const emailData: EmailData = {
+        to: 'owner@bakery.com',
+        subject: 'Quick idea',
+        htmlContent: '<p>Hello there,</p><p>.hidden line</p>',
+        fromName: 'Sam',
+        fromEmail: 'sam@example.com'
+    };
+
+    let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+
+    const configFor = (overrides: Partial<SmtpConfig> = {}): SmtpConfig => ({
+        host: '127.0.0.1',
+        port: sink.port,
+        secure: false,
+        requireTls: false,
+        username: 'sam@example.com',
+        password: 'secret',
+        clientName: 'test-client',
+        rejectUnauthorized: false,
+        timeoutMs: 5000,
+        ...overrides
+    });
+
+    afterEach(async () => {
+        await new Promise(resolve => sink.server.close(resolve));
+    });
+
+    describe('with a cooperative server', () => {
+        beforeEach(async () => {
+            sink = await startSmtpSink();
+        });
+
+        it('authenticates with AUTH PLAIN and delivers the message', async () => {
+            const service = new SmtpEmailService(configFor());
+
+            const result = await service.sendEmail(emailData);
+
+            expect(result.success).toBe(true);
+            expect(result.data?.messageId).toMatch(/@example\.com$/);
+
+            const { commands, data } = sink.sessions[0];
+            const plain = Buffer.from('\0sam@example.com\0secret').toString('base64');
+            expect(commands).toEqual([
+                'EHLO test-client',
+                `AUTH PLAIN ${plain}`,
+                'MAIL FROM:<sam@example.com>',
+                'RCPT TO:<owner@bakery.com>',
+                'DATA',
+                'QUIT'
+            ]);
+            expect(data).toContain(`Message-ID: <${result.data?.messageId}>`);
+            // Lines starting with a dot are stuffed on the wire
+            expect(data).toContain('..hidden line');
+        });
+
+        it('uses AUTH LOGIN when configured', async () => {
+            const service = new SmtpEmailService(configFor({ authMethod: 'LOGIN' }));
+
+            const result = await service.sendEmail(emailData);
+
+            expect(result.success).toBe(true);
+            expect(sink.sessions[0].commands.slice(1, 4)).toEqual([
+                'AUTH LOGIN',
+                Buffer.from('sam@example.com').toString('base64'),
+                Buffer.from('secret').toString('base64')
+            ]);
+        });
+
+        it('skips authentication when no username is set', async () => {
+            const service = new SmtpEmailService(configFor({ username: '', password: '' }));
+
+            await service.validateCredentials();
+
+            expect(sink.sessions[0].commands).toEqual(['EHLO test-client', 'QUIT']);
+        });
+
+        it('refuses a server without STARTTLS when TLS is required', async () => {
+            const service = new SmtpEmailService(configFor({ requireTls: true }));
+
+            const result = await service.sendEmail(emailData);
+
+            expect(result.success).toBe(false);
+            expect(result.error?.retryable).toBe(false);
+            expect(sink.sessions[0].commands).not.toContain('MAIL FROM:<sam@example.com>');
+        });
+    });
+
+    it('treats a rejected recipient as permanent', async () => {
+        sink = await startSmtpSink({ replies: { RCPT: '550 5.1.1 No such user' } });
+        const service = new SmtpEmailService(configFor());
+
+        const result = await service.sendEmail(emailData);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatchObject({ code: 'EMAIL_INVALID_RECIPIENT', retryable: false });
+    });
+
+    it('treats 4xx replies as retryable', async () => {
+        sink = await startSmtpSink({ replies: { MAIL: '451 4.7.1 Greylisted, try again later' } });
+        const service = new SmtpEmailService(configFor());
+
+        const result = await service.sendEmail(emailData);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatchObject({ code: 'EMAIL_SEND_ERROR', retryable: true });
+    });
+
+    it('reports failed authentication', async () => {
+        sink = await startSmtpSink({ replies: { AUTH: '535 5.7.8 Bad credentials' } });
+        const service = new SmtpEmailService(configFor());
+
+        const result = await service.validateCredentials();
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatchObject({ code: 'EMAIL_AUTH_ERROR', retryable: false });
+    });
+});
+
+describe('buildMimeMessage', () => {
+    it('builds a multipart message with text and HTML parts', () => {
+        const message = buildMimeMessage({
+            to: 'owner@bakery.com',
+            subject: 'Quick idea',
+            htmlContent: '<p>Hello there,</p><p>See <a href="https://example.com">our work</a></p>',
+            fromName: 'Sam',
+            fromEmail: 'sam@example.com'
+        }, { messageId: 'abc@example.com', date: new Date('2025-01-10T12:00:00.000Z') });
+
+        expect(message).toContain('From: "Sam" <sam@example.com>');
+        expect(message).toContain('Date: Fri, 10 Jan 2025 12:00:00 +0000');
+        expect(message).toContain('Message-ID: <abc@example.com>');
+        expect(message).toContain('Content-Type: text/plain; charset=utf-8');
+        expect(message).toContain('Hello there,\r\n\r\nSee our work (https://example.com)');
+        expect(message).toContain('Content-Type: text/html; charset=utf-8');
+    });
+
+    it('encodes non-ASCII subjects and names', () => {
+        const message = buildMimeMessage({
+            to: 'owner@bakery.com',
+            subject: 'Café idea',
+            htmlContent: '<p>Hi</p>',
+            fromName: 'Zoë',
+            fromEmail: 'zoe@example.com'
+        }, { messageId: 'abc@example.com' });
+
+        expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from('Café idea').toString('base64')}?=`);
+        expect(message).toContain(`From: =?UTF-8?B?${Buffer.from('Zoë').toString('base64')}?= <zoe@example.com>`);
+    });
+
+    it('quoted-printable encodes long and non-ASCII lines', () => {
+        const encoded = encodeQuotedPrintable(`${'a'.repeat(100)} é=`);
+
+        expect(encoded.split('\r\n').every(line => line.length <= 76)).toBe(true);
+        expect(encoded).toContain('=C3=A9=3D');
+    });
+});
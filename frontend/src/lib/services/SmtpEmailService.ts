@@ -0,0 +1,535 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import { randomUUID } from 'node:crypto';
+import type { EmailData } from '../types/index.js';
+import type { EmailTransport, EmailTransportResult, SendResult } from './EmailTransport.js';
+import { ErrorHandler } from './ErrorHandler.js';
+
+export interface SmtpConfig {
+    host: string;
+    port: number;
+    // true for implicit TLS (usually port 465); false to upgrade with STARTTLS
+    secure: boolean;
+    // Refuse to send over a plain connection when the server does not offer STARTTLS
+    requireTls: boolean;
+    username: string;
+    password: string;
+    // Leave unset to pick PLAIN or LOGIN from what the server advertises
+    authMethod?: 'PLAIN' | 'LOGIN';
+    // Name sent with EHLO
+    clientName: string;
+    rejectUnauthorized: boolean;
+    timeoutMs: number;
+}
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+export interface MimeMessageOptions {
+    messageId: string;
+    date?: Date;
+}
+
+/**
+ * Minimal SMTP client connection: reads multi-line replies and supports
+ * upgrading the socket in place for STARTTLS
+ */
+class SmtpConnection {
+    private socket: net.Socket;
+    private buffer = '';
+    private currentLines: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private failure: Error | null = null;
+
+    private constructor(socket: net.Socket, private config: SmtpConfig) {
+        this.socket = socket;
+        this.attach(socket);
+    }
+
+    /**
+     * Open a connection and wait until the socket is ready
+     */
+    static open(config: SmtpConfig): Promise<SmtpConnection> {
+        return new Promise((resolve, reject) => {
+            const socket = config.secure
+                ? tls.connect({
+                    host: config.host,
+                    port: config.port,
+                    servername: config.host,
+                    rejectUnauthorized: config.rejectUnauthorized
+                })
+                : net.connect({ host: config.host, port: config.port });
+
+            const onError = (error: Error) => reject(new Error(`SMTP connection failed: ${error.message}`));
+            socket.once('error', onError);
+            socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+                socket.off('error', onError);
+                resolve(new SmtpConnection(socket, config));
+            });
+        });
+    }
+
+    private attach(socket: net.Socket): void {
+        socket.setEncoding('utf8');
+        socket.setTimeout(this.config.timeoutMs);
+        socket.on('data', this.onData);
+        socket.on('error', this.onError);
+        socket.on('close', this.onClose);
+        socket.on('timeout', this.onTimeout);
+    }
+
+    private detach(socket: net.Socket): void {
+        socket.off('data', this.onData);
+        socket.off('error', this.onError);
+        socket.off('close', this.onClose);
+        socket.off('timeout', this.onTimeout);
+        socket.setTimeout(0);
+    }
+
+    private onData = (chunk: string): void => {
+        this.buffer += chunk;
+
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+            this.buffer = this.buffer.slice(newline + 1);
+            this.currentLines.push(line);
+
+            // "250-..." continues a reply, "250 ..." (or a bare code) ends it
+            if (/^\d{3}(?: |$)/.test(line)) {
+                const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.currentLines.map(l => l.slice(4)) };
+                this.currentLines = [];
+                this.deliver(reply);
+            }
+        }
+    };
+
+    private onError = (error: Error): void => {
+        this.fail(new Error(`SMTP connection error: ${error.message}`));
+    };
+
+    private onClose = (): void => {
+        this.fail(new Error('SMTP connection closed unexpectedly'));
+    };
+
+    private onTimeout = (): void => {
+        this.fail(new Error('SMTP server timed out'));
+        this.socket.destroy();
+    };
+
+    private deliver(reply: SmtpReply): void {
+        if (this.waiting) {
+            const { resolve } = this.waiting;
+            this.waiting = null;
+            resolve(reply);
+        } else {
+            this.replies.push(reply);
+        }
+    }
+
+    private fail(error: Error): void {
+        if (!this.failure) {
+            this.failure = error;
+        }
+        if (this.waiting) {
+            const { reject } = this.waiting;
+            this.waiting = null;
+            reject(this.failure);
+        }
+    }
+
+    /**
+     * Wait for the next complete reply from the server
+     */
+    read(): Promise<SmtpReply> {
+        const queued = this.replies.shift();
+        if (queued) {
+            return Promise.resolve(queued);
+        }
+        if (this.failure) {
+            return Promise.reject(this.failure);
+        }
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+        });
+    }
+
+    /**
+     * Send a command and check the reply code
+     * @param label Shown in errors instead of the command, to keep credentials out of logs
+     */
+    async command(line: string, expected: number[], label: string = line): Promise<SmtpReply> {
+        this.socket.write(`${line}\r\n`);
+        return this.expect(expected, label);
+    }
+
+    /**
+     * Read a reply and throw if its code is not one of the expected ones
+     */
+    async expect(expected: number[], label: string): Promise<SmtpReply> {
+        const reply = await this.read();
+        if (!expected.includes(reply.code)) {
+            throw new Error(`SMTP ${reply.code} ${label.split(' ')[0]}: ${reply.lines.join(' ')}`);
+        }
+        return reply;
+    }
+
+    /**
+     * Send the message body after DATA, with dot-stuffing and the terminating dot
+     */
+    async sendData(message: string): Promise<SmtpReply> {
+        const stuffed = message.replace(/^\./gm, '..');
+        this.socket.write(`${stuffed}\r\n.\r\n`);
+        return this.expect([250], 'DATA');
+    }
+
+    /**
+     * Upgrade the plain connection to TLS after a successful STARTTLS
+     */
+    upgradeToTls(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const plainSocket = this.socket;
+            this.detach(plainSocket);
+
+            const secureSocket = tls.connect({
+                socket: plainSocket,
+                servername: this.config.host,
+                rejectUnauthorized: this.config.rejectUnauthorized
+            });
+
+            const onError = (error: Error) => reject(new Error(`SMTP STARTTLS failed: ${error.message}`));
+            secureSocket.once('error', onError);
+            secureSocket.once('secureConnect', () => {
+                secureSocket.off('error', onError);
+                this.socket = secureSocket;
+                this.attach(secureSocket);
+                resolve();
+            });
+        });
+    }
+
+    get isSecure(): boolean {
+        return this.socket instanceof tls.TLSSocket;
+    }
+
+    /**
+     * Say goodbye politely, then close the socket
+     */
+    async close(): Promise<void> {
+        try {
+            if (!this.failure) {
+                await this.command('QUIT', [221]);
+            }
+        } catch {
+            // The message has already been accepted; a failed QUIT does not matter
+        } finally {
+            this.detach(this.socket);
+            this.socket.on('error', () => { });
+            this.socket.end();
+        }
+    }
+}
+
+/**
+ * Email transport that talks SMTP directly to any standard mail server
+ * (Gmail Workspace, Fastmail, a local sink, ...). Server-side only.
+ */
+export class SmtpEmailService implements EmailTransport {
+    readonly name = 'smtp' as const;
+    private config: SmtpConfig;
+
+    constructor(config: SmtpConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Check if the service is properly configured
+     */
+    isConfigured(): boolean {
+        return Boolean(this.config.host && this.config.port);
+    }
+
+    /**
+     * Send an HTML email (with a plain text alternative) over SMTP
+     */
+    async sendEmail(emailData: EmailData): Promise<EmailTransportResult> {
+        if (!this.isConfigured()) {
+            return {
+                success: false,
+                error: {
+                    message: 'SMTP email transport is not configured. Please set your SMTP settings in the .env file.',
+                    code: 'EMAIL_AUTH_ERROR',
+                    retryable: false,
+                    suggestedAction: 'Add SMTP_HOST, SMTP_PORT, SMTP_USERNAME and SMTP_PASSWORD to your .env file.'
+                }
+            };
+        }
+
+        try {
+            this.validateEmailData(emailData);
+
+            const messageId = `${randomUUID()}@${emailData.fromEmail.split('@')[1]}`;
+            const message = buildMimeMessage(emailData, { messageId });
+
+            await this.withSession(async connection => {
+                await connection.command(`MAIL FROM:<${emailData.fromEmail}>`, [250]);
+                await connection.command(`RCPT TO:<${emailData.to}>`, [250, 251]);
+                await connection.command('DATA', [354]);
+                await connection.sendData(message);
+            });
+
+            const result: SendResult = {
+                messageId,
+                status: 'sent',
+                timestamp: new Date(),
+                recipient: emailData.to,
+                headerMessageId: messageId
+            };
+
+            return {
+                success: true,
+                data: result
+            };
+        } catch (error) {
+            ErrorHandler.logError(error as Error, 'SmtpEmailService.sendEmail');
+            return {
+                success: false,
+                error: ErrorHandler.handleEmailServiceError(error as Error)
+            };
+        }
+    }
+
+    /**
+     * Validate SMTP credentials by connecting and authenticating without sending
+     */
+    async validateCredentials(): Promise<EmailTransportResult> {
+        try {
+            await this.withSession(async () => { });
+            return {
+                success: true,
+                data: {
+                    messageId: 'validation',
+                    status: 'sent',
+                    timestamp: new Date(),
+                    recipient: 'validation'
+                }
+            };
+        } catch (error) {
+            ErrorHandler.logError(error as Error, 'SmtpEmailService.validateCredentials');
+            return {
+                success: false,
+                error: ErrorHandler.handleEmailServiceError(error as Error)
+            };
+        }
+    }
+
+    /**
+     * Connect, greet, secure and authenticate, run the given commands, then quit
+     */
+    private async withSession(run: (connection: SmtpConnection) => Promise<void>): Promise<void> {
+        const connection = await SmtpConnection.open(this.config);
+
+        try {
+            await connection.expect([220], 'greeting');
+            let capabilities = await this.ehlo(connection);
+
+            if (!connection.isSecure) {
+                if (capabilities.has('STARTTLS')) {
+                    await connection.command('STARTTLS', [220]);
+                    await connection.upgradeToTls();
+                    capabilities = await this.ehlo(connection);
+                } else if (this.config.requireTls) {
+                    throw new Error('SMTP server does not offer STARTTLS and SMTP_REQUIRE_TLS is enabled; it is not configured for secure delivery');
+                }
+            }
+
+            if (this.config.username) {
+                await this.authenticate(connection, capabilities);
+            }
+
+            await run(connection);
+        } finally {
+            await connection.close();
+        }
+    }
+
+    /**
+     * Send EHLO and collect the advertised extensions, e.g. "STARTTLS" or "AUTH PLAIN LOGIN"
+     */
+    private async ehlo(connection: SmtpConnection): Promise<Map<string, string[]>> {
+        const reply = await connection.command(`EHLO ${this.config.clientName}`, [250]);
+        const capabilities = new Map<string, string[]>();
+
+        // The first line is the server greeting, the rest are extensions
+        for (const line of reply.lines.slice(1)) {
+            const [keyword, ...params] = line.trim().toUpperCase().split(/\s+/);
+            capabilities.set(keyword, params);
+        }
+
+        return capabilities;
+    }
+
+    /**
+     * Authenticate with AUTH PLAIN or AUTH LOGIN
+     */
+    private async authenticate(connection: SmtpConnection, capabilities: Map<string, string[]>): Promise<void> {
+        const offered = capabilities.get('AUTH') || [];
+        const method = this.config.authMethod || (offered.includes('PLAIN') ? 'PLAIN' : offered.includes('LOGIN') ? 'LOGIN' : null);
+
+        if (!method) {
+            throw new Error(`SMTP authentication failed: server offers no supported mechanism (${offered.join(', ') || 'none'})`);
+        }
+
+        const { username, password } = this.config;
+
+        if (method === 'PLAIN') {
+            const token = Buffer.from(`\0${username}\0${password}`, 'utf8').toString('base64');
+            await connection.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN');
+        } else {
+            await connection.command('AUTH LOGIN', [334]);
+            await connection.command(Buffer.from(username, 'utf8').toString('base64'), [334], 'AUTH LOGIN username');
+            await connection.command(Buffer.from(password, 'utf8').toString('base64'), [235], 'AUTH LOGIN password');
+        }
+    }
+
+    /**
+     * Validate email data before sending
+     */
+    private validateEmailData(emailData: EmailData): void {
+        const emailRegex = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+        if (!emailData.to || !emailRegex.test(emailData.to)) {
+            throw new Error(`Invalid recipient email address: ${emailData.to}`);
+        }
+
+        if (!emailData.fromEmail || !emailRegex.test(emailData.fromEmail)) {
+            throw new Error(`Invalid sender email address: ${emailData.fromEmail}`);
+        }
+
+        if (!emailData.subject || emailData.subject.trim().length === 0) {
+            throw new Error('Email subject is required');
+        }
+
+        if (!emailData.htmlContent || emailData.htmlContent.trim().length === 0) {
+            throw new Error('Email content is required');
+        }
+    }
+}
+
+/**
+ * Build a multipart/alternative MIME message with text and HTML parts
+ */
+export function buildMimeMessage(emailData: EmailData, options: MimeMessageOptions): string {
+    const boundary = `----=_Part_${randomUUID()}`;
+    const text = emailData.textContent || htmlToPlainText(emailData.htmlContent);
+
+    const headers = [
+        `From: ${formatAddress(emailData.fromName, emailData.fromEmail)}`,
+        `To: <${emailData.to}>`,
+        `Subject: ${encodeHeaderValue(emailData.subject)}`,
+        `Date: ${(options.date || new Date()).toUTCString().replace('GMT', '+0000')}`,
+        `Message-ID: <${options.messageId}>`,
+        'MIME-Version: 1.0',
+        `Content-Type: multipart/alternative; boundary="${boundary}"`
+    ];
+
+    return [
+        ...headers,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        encodeQuotedPrintable(text),
+        `--${boundary}`,
+        'Content-Type: text/html; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        encodeQuotedPrintable(emailData.htmlContent),
+        `--${boundary}--`
+    ].join('\r\n');
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded word when it is not plain ASCII
+ */
+function encodeHeaderValue(value: string): string {
+    if (/^[\x20-\x7e]*$/.test(value)) {
+        return value;
+    }
+    return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function formatAddress(name: string, address: string): string {
+    if (!name) {
+        return `<${address}>`;
+    }
+    const displayName = /^[\x20-\x7e]*$/.test(name)
+        ? `"${name.replace(/(["\\])/g, '\\$1')}"`
+        : encodeHeaderValue(name);
+    return `${displayName} <${address}>`;
+}
+
+/**
+ * Quoted-printable encode text (RFC 2045), keeping lines under 76 characters
+ */
+export function encodeQuotedPrintable(text: string): string {
+    return text
+        .replace(/\r\n|\r/g, '\n')
+        .split('\n')
+        .map(line => {
+            const bytes = Buffer.from(line, 'utf8');
+            let encoded = '';
+
+            for (let i = 0; i < bytes.length; i++) {
+                const byte = bytes[i];
+                const isLast = i === bytes.length - 1;
+                const printable = byte >= 33 && byte <= 126 && byte !== 61;
+                const innerWhitespace = (byte === 32 || byte === 9) && !isLast;
+
+                encoded += printable || innerWhitespace
+                    ? String.fromCharCode(byte)
+                    : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+            }
+
+            // Soft line breaks, never splitting an =XX escape
+            let wrapped = '';
+            while (encoded.length > 76) {
+                let cut = 75;
+                const escape = encoded.lastIndexOf('=', cut);
+                if (escape > cut - 3) {
+                    cut = escape;
+                }
+                wrapped += `${encoded.slice(0, cut)}=\r\n`;
+                encoded = encoded.slice(cut);
+            }
+
+            return wrapped + encoded;
+        })
+        .join('\r\n');
+}
+
+/**
+ * Derive a readable plain text version from the HTML body
+ */
+function htmlToPlainText(html: string): string {
+    return html
+        .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|h[1-6]|li|tr)>/gi, '\n\n')
+        .replace(/<a\s[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, '$2 ($1)')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/[ \t]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
@@ -30,6 +30,20 @@ describe('WebScraperService', () => {
         expect(result.suggestions).toBeDefined();
         expect(result.suggestions!.length).toBeGreaterThan(0);
     });
+
+    it('should tell JavaScript-rendered pages from static ones', () => {
+        const copy = '<p>Rise Bakery has baked sourdough, rye and seasonal cakes in Leeds since 1998. '
+            + 'We supply cafés across Yorkshire and cater weddings, birthdays and office events. '
+            + 'Visit our shop on Mill Lane, open Tuesday to Sunday from seven until three.</p>';
+
+        expect(WebScraperService.looksJavaScriptRendered(`<html><body><h1>Rise Bakery</h1>${copy}</body></html>`)).toBe(false);
+        expect(WebScraperService.looksJavaScriptRendered(
+            '<html><body><div id="root"></div><script src="/static/js/main.js"></script></body></html>'
+        )).toBe(true);
+        expect(WebScraperService.looksJavaScriptRendered(
+            `<html><body><div id="__next"></div><noscript>You need to enable JavaScript to run this app.</noscript>${copy}</body></html>`
+        )).toBe(true);
+    });
 });
 
 describe('ErrorHandler', () => {
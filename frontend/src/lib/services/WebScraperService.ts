@@ -2,6 +2,15 @@ import { chromium, type Browser, type Page } from 'playwright';
 import type { ScrapedData, UserFriendlyError } from '../types/index.js';
 import { ErrorHandler, retryWithBackoff } from './ErrorHandler.js';
 import { FallbackService, type FallbackResult } from './FallbackService.js';
+import { extractStructuredData, type StructuredScrapedData } from '../utils/structured-data.js';
+import { findCrawlTargets, isSameSite, mergeScrapedPages, parseSitemap, type CrawlLink, type ScrapedPage } from '../utils/site-crawl.js';
+import { HtmlDocument, textContent as elementText, type HtmlElement } from '../utils/html-document.js';
+
+// How the pages were loaded: fetched and parsed directly, or rendered in Chromium
+export type ScrapingMode = 'http' | 'browser';
+
+// Why a fast scrape was handed over to the browser
+export type ScrapeEscalationReason = 'javascript_rendered' | 'low_quality' | 'fetch_failed';
 
 export interface ScrapingResult {
     success: boolean;
@@ -10,6 +19,58 @@ export interface ScrapingResult {
     requiresManualInput?: boolean;
     suggestions?: string[];
     partialData?: Partial<ScrapedData>;
+    // Pages read, starting with the given URL
+    pagesVisited?: string[];
+    mode?: ScrapingMode;
+    // Set when the fast HTTP scrape was not good enough and the browser was used
+    escalationReason?: ScrapeEscalationReason;
+    // The start page after redirects, its HTTP status and its HTML as loaded
+    finalUrl?: string;
+    httpStatus?: number;
+    html?: string;
+}
+
+export interface ScrapeOptions {
+    // Most pages to read, counting the given URL; 1 reads only that page
+    maxPages?: number;
+    // 'auto' fetches the HTML directly and only launches the browser when that falls short
+    mode?: ScrapingMode | 'auto';
+}
+
+// Start page plus one each of About, Services, Contact and Team
+export const DEFAULT_MAX_PAGES = 5;
+
+/**
+ * The options a scrape actually runs with, after defaults
+ */
+export function resolveScrapeOptions(options: ScrapeOptions): Required<ScrapeOptions> {
+    return {
+        maxPages: Math.max(1, Math.floor(options.maxPages ?? DEFAULT_MAX_PAGES)),
+        mode: options.mode ?? 'auto'
+    };
+}
+
+// assessDataQuality scores below this are treated as incomplete
+const LOW_QUALITY_SCORE = 0.3;
+
+const FETCH_TIMEOUT_MS = 15000;
+
+// Below this much visible text, a fetched page is taken to be filled in by JavaScript
+const MIN_STATIC_TEXT_LENGTH = 200;
+
+// What the extractors read a page through: a Playwright page, or a fetched page
+// parsed without a browser
+interface PageSource {
+    url(): string;
+    content(): Promise<string>;
+    textContent(selector: string): Promise<string | null>;
+    $(selector: string): Promise<ElementSource | null>;
+    $$(selector: string): Promise<ElementSource[]>;
+}
+
+interface ElementSource {
+    textContent(): Promise<string | null>;
+    getAttribute(name: string): Promise<string | null>;
 }
 
 export class WebScraperService {
@@ -24,7 +85,9 @@ export class WebScraperService {
     /**
      * Scrape website content with stealth capabilities and anti-detection measures
      */
-    async scrapeWebsite(url: string, maxRetries: number = 2): Promise<ScrapingResult> {
+    async scrapeWebsite(url: string, maxRetries: number = 2, options: ScrapeOptions = {}): Promise<ScrapingResult> {
+        const { maxPages, mode } = resolveScrapeOptions(options);
+
         try {
             // Validate URL first
             if (!this.isValidUrl(url)) {
@@ -34,7 +97,7 @@ export class WebScraperService {
 
             // Use retry utility with exponential backoff
             const result = await retryWithBackoff(
-                () => this.attemptScraping(url),
+                () => this.attemptScraping(url, maxPages, mode),
                 maxRetries,
                 1000,
                 (error) => {
@@ -46,11 +109,10 @@ export class WebScraperService {
             if (result.success && result.data) {
                 // Validate scraped data quality
                 const dataQuality = this.assessDataQuality(result.data);
-                if (dataQuality.score < 0.3) {
+                if (dataQuality.score < LOW_QUALITY_SCORE) {
                     // Low quality data, suggest manual input
                     return {
-                        success: true,
-                        data: result.data,
+                        ...result,
                         requiresManualInput: true,
                         suggestions: [
                             'The scraped information appears incomplete',
@@ -88,9 +150,73 @@ export class WebScraperService {
     }
 
     /**
-     * Attempt to scrape a website with stealth measures
+     * Scrape in the requested mode. In 'auto' the HTML is fetched directly first,
+     * and the browser is only launched when the page looks JavaScript-rendered,
+     * cannot be fetched, or yields too little.
      */
-    private async attemptScraping(url: string): Promise<ScrapingResult> {
+    private async attemptScraping(url: string, maxPages: number, mode: ScrapingMode | 'auto'): Promise<ScrapingResult> {
+        if (mode === 'browser') {
+            return this.attemptBrowserScraping(url, maxPages);
+        }
+
+        const { result: fast, escalate } = await this.attemptHttpScraping(url, maxPages);
+        if (mode === 'http' || !escalate) {
+            return fast;
+        }
+
+        const full = await this.attemptBrowserScraping(url, maxPages);
+
+        // Keep what the fast scrape found when the browser fails too
+        if (!full.success && fast.success) {
+            return fast;
+        }
+        return { ...full, escalationReason: escalate };
+    }
+
+    /**
+     * Fetch the pages and parse them without a browser, saying whether the
+     * result is worth retrying in the browser
+     */
+    private async attemptHttpScraping(url: string, maxPages: number): Promise<{ result: ScrapingResult; escalate?: ScrapeEscalationReason }> {
+        try {
+            const home = await this.fetchPage(url);
+            const javascriptRendered = WebScraperService.looksJavaScriptRendered(await home.content());
+
+            // A page rendered by JavaScript links to nothing useful until it runs
+            const pages = await this.crawlSite(home, url, javascriptRendered ? 1 : maxPages, pageUrl => this.fetchPage(pageUrl));
+            const data = mergeScrapedPages(pages);
+
+            return {
+                result: {
+                    success: true,
+                    data,
+                    pagesVisited: pages.map(visited => visited.url),
+                    mode: 'http',
+                    finalUrl: home.url(),
+                    httpStatus: home.status,
+                    html: await home.content()
+                },
+                escalate: javascriptRendered
+                    ? 'javascript_rendered'
+                    : this.assessDataQuality(data).score < LOW_QUALITY_SCORE ? 'low_quality' : undefined
+            };
+        } catch (error) {
+            return {
+                result: {
+                    success: false,
+                    error: ErrorHandler.handleScrapingError(error as Error),
+                    mode: 'http'
+                },
+                escalate: 'fetch_failed'
+            };
+        }
+    }
+
+    /**
+     * Attempt to scrape a website with stealth measures, then read up to
+     * maxPages - 1 of its About, Services, Contact and Team pages
+     */
+    private async attemptBrowserScraping(url: string, maxPages: number): Promise<ScrapingResult> {
         let page: Page | null = null;
 
         try {
@@ -112,13 +238,14 @@ export class WebScraperService {
                 });
             }
 
-            page = await this.browser.newPage();
+            const browserPage = await this.browser.newPage();
+            page = browserPage;
 
             // Apply stealth measures
-            await this.applyStealthMeasures(page);
+            await this.applyStealthMeasures(browserPage);
 
             // Navigate to the website with timeout
-            await page.goto(url, {
+            const response = await browserPage.goto(url, {
                 waitUntil: 'domcontentloaded',
                 timeout: 30000
             });
@@ -126,18 +253,35 @@ export class WebScraperService {
             // Random delay to appear human-like
             await this.randomDelay();
 
-            // Extract business information
-            const scrapedData = await this.extractBusinessInfo(page, url);
+            // Taken before the crawl moves the tab on to other pages
+            const finalUrl = browserPage.url();
+            const html = await browserPage.content();
+
+            // Extract business information; later pages reuse the same tab
+            const pages = await this.crawlSite(browserPage, url, maxPages, async pageUrl => {
+                await browserPage.goto(pageUrl, {
+                    waitUntil: 'domcontentloaded',
+                    timeout: 30000
+                });
+                await this.randomDelay();
+                return browserPage;
+            });
 
             return {
                 success: true,
-                data: scrapedData
+                data: mergeScrapedPages(pages),
+                pagesVisited: pages.map(visited => visited.url),
+                mode: 'browser',
+                finalUrl,
+                httpStatus: response?.status(),
+                html
             };
 
         } catch (error) {
             return {
                 success: false,
-                error: ErrorHandler.handleScrapingError(error as Error)
+                error: ErrorHandler.handleScrapingError(error as Error),
+                mode: 'browser'
             };
         } finally {
             if (page) {
@@ -146,6 +290,129 @@ export class WebScraperService {
         }
     }
 
+    /**
+     * Extract the loaded start page, then load and extract up to maxPages - 1 of
+     * its About, Services, Contact and Team pages. A page that fails to load, or
+     * redirects to another site, is skipped rather than failing the whole scrape.
+     */
+    private async crawlSite(
+        home: PageSource,
+        url: string,
+        maxPages: number,
+        loadPage: (url: string) => Promise<PageSource>
+    ): Promise<ScrapedPage[]> {
+        const homeUrl = home.url();
+        const pages: ScrapedPage[] = [
+            { url: homeUrl, kind: 'home', data: await this.extractBusinessInfo(home, url) }
+        ];
+
+        if (maxPages <= 1) {
+            return pages;
+        }
+
+        const targets = findCrawlTargets(
+            homeUrl,
+            await this.extractNavLinks(home),
+            await this.fetchSitemapUrls(homeUrl),
+            maxPages - 1
+        );
+
+        for (const target of targets) {
+            try {
+                const page = await loadPage(target.url);
+                if (isSameSite(new URL(page.url()), new URL(homeUrl))) {
+                    pages.push({ url: page.url(), kind: target.kind, data: await this.extractBusinessInfo(page, homeUrl) });
+                }
+            } catch (error) {
+                ErrorHandler.logError(error as Error, `WebScraperService.crawlSite ${target.url}`);
+            }
+        }
+
+        return pages;
+    }
+
+    /**
+     * Fetch a page's HTML without a browser
+     */
+    private async fetchPage(url: string): Promise<FetchedPage> {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                headers: {
+                    'User-Agent': this.getRandomUserAgent(),
+                    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+                    'Accept-Language': 'en-US,en;q=0.9'
+                },
+                redirect: 'follow',
+                signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+            });
+        } catch (error) {
+            // fetch puts the reason (DNS failure, refused connection) in its cause
+            const cause = (error as Error & { cause?: Error }).cause;
+            throw new Error(cause?.message ? `${(error as Error).message}: ${cause.message}` : (error as Error).message);
+        }
+
+        if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`.trim());
+        }
+
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType && !/html|xml/i.test(contentType)) {
+            throw new Error(`Could not parse ${contentType} as a web page`);
+        }
+
+        return new FetchedPage(response.url || url, await response.text(), response.status);
+    }
+
+    /**
+     * Whether fetched HTML is an app shell that JavaScript fills in: an empty
+     * framework root, or almost no text outside scripts
+     */
+    static looksJavaScriptRendered(html: string): boolean {
+        const document = new HtmlDocument(html);
+        const body = document.querySelector('body') ?? document.root;
+        const text = elementText(body).replace(/\s+/g, ' ').trim();
+
+        const emptyAppRoot = document
+            .querySelectorAll('#root, #app, #__next, #__nuxt, #___gatsby, [data-reactroot], app-root')
+            .some(element => !elementText(element).trim());
+        const asksForJavaScript = document
+            .querySelectorAll('noscript')
+            .some(element => /enable javascript|javascript (is )?(required|disabled)|requires javascript/i.test(elementText(element)));
+
+        return text.length < MIN_STATIC_TEXT_LENGTH || emptyAppRoot || (asksForJavaScript && text.length < MIN_STATIC_TEXT_LENGTH * 5);
+    }
+
+    /**
+     * Links in the page's navigation, header and footer
+     */
+    private async extractNavLinks(page: PageSource): Promise<CrawlLink[]> {
+        try {
+            const links = await page.$$('nav a[href], header a[href], [class*="menu"] a[href], footer a[href]');
+            return Promise.all(links.map(async link => ({
+                href: await link.getAttribute('href') || '',
+                text: (await link.textContent())?.trim() || ''
+            })));
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Page URLs from the site's sitemap.xml, or none when it has no sitemap
+     */
+    private async fetchSitemapUrls(homeUrl: string): Promise<string[]> {
+        try {
+            const response = await fetch(new URL('/sitemap.xml', homeUrl), {
+                headers: { 'User-Agent': this.getRandomUserAgent() },
+                signal: AbortSignal.timeout(10000)
+            });
+            return response.ok ? parseSitemap(await response.text()) : [];
+        } catch {
+            return [];
+        }
+    }
+
     /**
      * Apply stealth measures to avoid detection
      */
@@ -205,14 +472,17 @@ export class WebScraperService {
     }
 
     /**
-     * Extract business information from the page
+     * Extract business information from the page. What the page's structured
+     * data states is used first; the selector-based extractors fill the gaps.
      */
-    private async extractBusinessInfo(page: Page, url: string): Promise<ScrapedData> {
-        const businessName = await this.extractBusinessName(page, url);
-        const description = await this.extractDescription(page);
-        const services = await this.extractServices(page);
-        const contactInfo = await this.extractContactInfo(page);
-        const socialMedia = await this.extractSocialMedia(page);
+    private async extractBusinessInfo(page: PageSource, url: string): Promise<ScrapedData> {
+        const structured = await this.extractStructuredData(page);
+
+        const businessName = structured.businessName || await this.extractBusinessName(page, url);
+        const description = structured.description?.substring(0, 500) || await this.extractDescription(page);
+        const services = [...new Set([...(structured.services || []), ...await this.extractServices(page)])].slice(0, 10);
+        const contactInfo = { ...await this.extractContactInfo(page), ...structured.contactInfo };
+        const socialMedia = { ...await this.extractSocialMedia(page), ...structured.socialMedia };
         const keyContent = await this.extractKeyContent(page);
 
         return {
@@ -221,14 +491,30 @@ export class WebScraperService {
             services,
             contactInfo,
             socialMedia,
-            keyContent
+            keyContent,
+            ...(structured.openingHours && { openingHours: structured.openingHours }),
+            ...(structured.geo && { geo: structured.geo }),
+            ...(structured.foundingYear && { foundingYear: structured.foundingYear }),
+            ...(structured.aggregateRating && { aggregateRating: structured.aggregateRating }),
+            ...(structured.priceRange && { priceRange: structured.priceRange })
         };
     }
 
+    /**
+     * Business details the page states as JSON-LD, microdata or OpenGraph tags
+     */
+    private async extractStructuredData(page: PageSource): Promise<StructuredScrapedData> {
+        try {
+            return extractStructuredData(await page.content());
+        } catch {
+            return {};
+        }
+    }
+
     /**
      * Extract business name from various sources
      */
-    private async extractBusinessName(page: Page, url: string): Promise<string> {
+    private async extractBusinessName(page: PageSource, url: string): Promise<string> {
         try {
             // Try multiple selectors for business name
             const selectors = [
@@ -271,7 +557,7 @@ export class WebScraperService {
     /**
      * Extract business description
      */
-    private async extractDescription(page: Page): Promise<string> {
+    private async extractDescription(page: PageSource): Promise<string> {
         try {
             const selectors = [
                 'meta[name="description"]',
@@ -307,7 +593,7 @@ export class WebScraperService {
     /**
      * Extract services offered
      */
-    private async extractServices(page: Page): Promise<string[]> {
+    private async extractServices(page: PageSource): Promise<string[]> {
         try {
             const services: string[] = [];
             const selectors = [
@@ -342,7 +628,7 @@ export class WebScraperService {
     /**
      * Extract contact information
      */
-    private async extractContactInfo(page: Page) {
+    private async extractContactInfo(page: PageSource) {
         try {
             const contactInfo = {
                 email: '',
@@ -398,7 +684,7 @@ export class WebScraperService {
     /**
      * Extract social media links
      */
-    private async extractSocialMedia(page: Page) {
+    private async extractSocialMedia(page: PageSource) {
         try {
             const socialMedia = {
                 linkedin: '',
@@ -430,7 +716,7 @@ export class WebScraperService {
     /**
      * Extract key content points
      */
-    private async extractKeyContent(page: Page): Promise<string[]> {
+    private async extractKeyContent(page: PageSource): Promise<string[]> {
         try {
             const keyContent: string[] = [];
             const selectors = [
@@ -558,4 +844,47 @@ export class WebScraperService {
 }
 
 // Export singleton instance
-export const webScraperService = new WebScraperService();
\ No newline at end of file
+export const webScraperService = new WebScraperService();
+
+// A page fetched over HTTP, read through the same calls the extractors make on a Playwright page
+class FetchedPage implements PageSource {
+    private document: HtmlDocument;
+
+    constructor(private pageUrl: string, private html: string, readonly status: number) {
+        this.document = new HtmlDocument(html);
+    }
+
+    url(): string {
+        return this.pageUrl;
+    }
+
+    async content(): Promise<string> {
+        return this.html;
+    }
+
+    async textContent(selector: string): Promise<string | null> {
+        const element = this.document.querySelector(selector);
+        return element ? elementText(element) : null;
+    }
+
+    async $(selector: string): Promise<ElementSource | null> {
+        const element = this.document.querySelector(selector);
+        return element ? new FetchedElement(element) : null;
+    }
+
+    async $$(selector: string): Promise<ElementSource[]> {
+        return this.document.querySelectorAll(selector).map(element => new FetchedElement(element));
+    }
+}
+
+class FetchedElement implements ElementSource {
+    constructor(private element: HtmlElement) {}
+
+    async textContent(): Promise<string | null> {
+        return elementText(this.element);
+    }
+
+    async getAttribute(name: string): Promise<string | null> {
+        return this.element.attributes[name.toLowerCase()] ?? null;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WebsiteChangeService } from './WebsiteChangeService.js';
+import type { DatabaseService } from '../database/service.js';
+import type { ScrapeSnapshotService } from './ScrapeSnapshotService.js';
+import type { Business, ScrapeSnapshot } from '../types/database.js';
+import type { ScrapedData } from '../types/index.js';
+
+describe('WebsiteChangeService', () => {
+    const now = new Date('2025-02-01T09:00:00.000Z');
+
+    const previousData: ScrapedData = {
+        businessName: 'Rise Bakery',
+        description: 'Family bakery in Leeds',
+        services: ['Bread'],
+        contactInfo: {},
+        socialMedia: {},
+        keyContent: []
+    };
+
+    const business: Business = {
+        id: 5,
+        name: 'Rise Bakery',
+        websiteUrl: 'https://risebakery.example/',
+        scrapedData: previousData,
+        createdAt: new Date('2025-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2025-01-01T00:00:00.000Z')
+    };
+
+    const previous: ScrapeSnapshot = {
+        id: 3,
+        url: 'https://risebakery.example',
+        status: 'success',
+        scrapedData: previousData,
+        scrapedAt: new Date('2025-01-20T09:00:00.000Z')
+    };
+
+    let db: Record<string, ReturnType<typeof vi.fn>>;
+    let snapshots: { scrape: ReturnType<typeof vi.fn> };
+    let service: WebsiteChangeService;
+
+    beforeEach(() => {
+        db = {
+            getBusinessesWithWebsite: vi.fn().mockResolvedValue([business]),
+            findRecentScrapeSnapshot: vi.fn().mockResolvedValue(previous),
+            updateBusinessScrapedData: vi.fn().mockResolvedValue(undefined),
+            recordWebsiteChange: vi.fn().mockResolvedValue(1)
+        };
+        snapshots = {
+            scrape: vi.fn().mockResolvedValue({
+                success: true,
+                data: { ...previousData, services: ['Bread', 'Wedding cakes'] },
+                snapshotId: 4,
+                cached: false,
+                scrapedAt: now
+            })
+        };
+        service = new WebsiteChangeService(db as unknown as DatabaseService, snapshots as unknown as ScrapeSnapshotService, { maxPages: 3 });
+    });
+
+    it('records what changed since the last snapshot', async () => {
+        const summary = await service.checkAllBusinesses(now);
+
+        expect(summary).toEqual({ checked: 1, changed: 1, unchanged: 0, failed: 0 });
+        expect(db.findRecentScrapeSnapshot).toHaveBeenCalledWith('https://risebakery.example', new Date(0), { maxPages: 3, mode: 'auto' });
+        expect(snapshots.scrape).toHaveBeenCalledWith('https://risebakery.example/', { maxPages: 3, force: true, ttlMs: 0 }, now);
+        expect(db.updateBusinessScrapedData).toHaveBeenCalledWith(5, expect.objectContaining({ services: ['Bread', 'Wedding cakes'] }));
+        expect(db.recordWebsiteChange).toHaveBeenCalledWith({
+            businessId: 5,
+            snapshotId: 4,
+            previousSnapshotId: 3,
+            summary: 'Added "Wedding cakes" to their services.',
+            changes: [{ field: 'services', kind: 'added', after: 'Wedding cakes' }],
+            detectedAt: now
+        });
+    });
+
+    it('records nothing for an unchanged site or a scrape that fell short', async () => {
+        snapshots.scrape.mockResolvedValueOnce({ success: true, data: previousData, cached: false, scrapedAt: now });
+        expect(await service.checkBusiness(business, now)).toBe('unchanged');
+
+        snapshots.scrape.mockResolvedValueOnce({ success: true, data: { ...previousData, services: [] }, requiresManualInput: true, cached: false, scrapedAt: now });
+        expect(await service.checkBusiness(business, now)).toBe('failed');
+
+        expect(db.recordWebsiteChange).not.toHaveBeenCalled();
+        expect(db.updateBusinessScrapedData).toHaveBeenCalledTimes(1);
+    });
+
+    it('records no changes without an earlier snapshot taken with the same options', async () => {
+        db.findRecentScrapeSnapshot.mockResolvedValueOnce(null);
+
+        expect(await service.checkBusiness(business, now)).toBe('unchanged');
+
+        expect(db.updateBusinessScrapedData).toHaveBeenCalledWith(5, expect.objectContaining({ services: ['Bread', 'Wedding cakes'] }));
+        expect(db.recordWebsiteChange).not.toHaveBeenCalled();
+    });
+
+    it('does not start a second check of every business while one is running', async () => {
+        let finish: (businesses: Business[]) => void = () => {};
+        db.getBusinessesWithWebsite.mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+
+        const first = service.checkAllBusinesses(now);
+        expect(service.isRunning()).toBe(true);
+        expect(await service.checkAllBusinesses(now)).toEqual({ checked: 0, changed: 0, unchanged: 0, failed: 0 });
+
+        finish([business]);
+        expect(await first).toMatchObject({ checked: 1 });
+        expect(service.isRunning()).toBe(false);
+    });
+});
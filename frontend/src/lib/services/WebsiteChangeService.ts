@@ -0,0 +1,132 @@
+import type { DatabaseService } from '../database/service.js';
+import type { Business } from '../types/database.js';
+import { diffScrapedData, summarizeWebsiteChanges } from '../utils/website-changes.js';
+import { ScrapeSnapshotService } from './ScrapeSnapshotService.js';
+import { resolveScrapeOptions, type ScrapeOptions } from './WebScraperService.js';
+import { ErrorHandler } from './ErrorHandler.js';
+
+export interface WebsiteCheckSummary {
+    checked: number;
+    changed: number;
+    unchanged: number;
+    failed: number;
+}
+
+/**
+ * Re-scrapes the websites of saved businesses, compares each scrape with the
+ * one before it, and records what changed so the next email can mention it.
+ * Server-side only.
+ */
+export class WebsiteChangeService {
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private running = false;
+
+    constructor(
+        private db: DatabaseService,
+        private snapshots: ScrapeSnapshotService,
+        private scrapeOptions: ScrapeOptions = {}
+    ) { }
+
+    /**
+     * Whether a check of every business is under way
+     */
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Check every business that has a website
+     */
+    async checkAllBusinesses(now: Date = new Date()): Promise<WebsiteCheckSummary> {
+        const summary: WebsiteCheckSummary = { checked: 0, changed: 0, unchanged: 0, failed: 0 };
+
+        // Skip this tick if the previous run is still working through the list
+        if (this.running) {
+            return summary;
+        }
+
+        this.running = true;
+        try {
+            const businesses = await this.db.getBusinessesWithWebsite();
+            for (const business of businesses) {
+                summary.checked++;
+                const outcome = await this.checkBusiness(business, now);
+                summary[outcome]++;
+            }
+        } finally {
+            this.running = false;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Scrape one business's website again and record any changes since its last
+     * successful scrape with the same options. Without one, nothing comparable
+     * exists yet and this scrape becomes the baseline.
+     */
+    async checkBusiness(business: Business, now: Date = new Date()): Promise<'changed' | 'unchanged' | 'failed'> {
+        if (!business.websiteUrl) {
+            return 'unchanged';
+        }
+
+        try {
+            const previous = await this.db.findRecentScrapeSnapshot(
+                ScrapeSnapshotService.normalizeUrl(business.websiteUrl),
+                new Date(0),
+                resolveScrapeOptions(this.scrapeOptions)
+            );
+            const result = await this.snapshots.scrape(business.websiteUrl, { ...this.scrapeOptions, force: true, ttlMs: 0 }, now);
+
+            // A thin or failed scrape would show everything as removed
+            if (!result.success || !result.data || result.requiresManualInput) {
+                return 'failed';
+            }
+
+            await this.db.updateBusinessScrapedData(business.id, result.data);
+
+            const changes = previous?.scrapedData ? diffScrapedData(previous.scrapedData, result.data) : [];
+            if (changes.length === 0) {
+                return 'unchanged';
+            }
+
+            await this.db.recordWebsiteChange({
+                businessId: business.id,
+                snapshotId: result.snapshotId,
+                previousSnapshotId: previous?.id,
+                summary: summarizeWebsiteChanges(changes),
+                changes,
+                detectedAt: now
+            });
+            return 'changed';
+        } catch (error) {
+            ErrorHandler.logError(error as Error, `WebsiteChangeService.checkBusiness(${business.id})`);
+            return 'failed';
+        }
+    }
+
+    /**
+     * Start re-checking websites on an interval
+     */
+    start(intervalMs: number): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => {
+            this.checkAllBusinesses().catch(error => {
+                ErrorHandler.logError(error as Error, 'WebsiteChangeService.start');
+            });
+        }, intervalMs);
+    }
+
+    /**
+     * Stop re-checking
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+}
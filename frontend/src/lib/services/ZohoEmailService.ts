@@ -1,28 +1,21 @@
-import type { EmailData, UserFriendlyError } from '../types/index.js';
+import type { EmailData } from '../types/index.js';
+import type { EmailTransport, EmailTransportResult, SendResult } from './EmailTransport.js';
 import { ErrorHandler, retryWithBackoff } from './ErrorHandler.js';
 
 // Configuration interface - will be injected from server-side
-interface ZohoConfig {
+export interface ZohoConfig {
     clientId: string;
     clientSecret: string;
     refreshToken: string;
     emailAddress: string;
+    // Looked up from the Zoho accounts API when not set
+    accountId?: string;
 }
 
 let zohoConfig: ZohoConfig | null = null;
 
-export interface ZohoEmailServiceResult {
-    success: boolean;
-    data?: SendResult;
-    error?: UserFriendlyError;
-}
-
-export interface SendResult {
-    messageId: string;
-    status: 'sent' | 'failed';
-    timestamp: Date;
-    recipient: string;
-}
+export type ZohoEmailServiceResult = EmailTransportResult;
+export type { SendResult };
 
 export interface ZohoAuthResponse {
     access_token: string;
@@ -30,6 +23,15 @@ export interface ZohoAuthResponse {
     token_type: string;
 }
 
+export interface ZohoAccountsResponse {
+    data: {
+        accountId: string;
+        primaryEmailAddress?: string;
+        mailboxAddress?: string;
+        emailAddress?: { mailId: string }[];
+    }[];
+}
+
 export interface ZohoSendResponse {
     data: {
         messageId: string;
@@ -41,9 +43,11 @@ export interface ZohoSendResponse {
     };
 }
 
-export class ZohoEmailService {
+export class ZohoEmailService implements EmailTransport {
+    readonly name = 'zoho' as const;
     private accessToken: string | null = null;
     private tokenExpiry: Date | null = null;
+    private accountId: string | null = null;
     private readonly baseUrl = 'https://mail.zoho.com/api';
     private readonly authUrl = 'https://accounts.zoho.com/oauth/v2/token';
     private config: ZohoConfig | null = null;
@@ -145,7 +149,8 @@ export class ZohoEmailService {
         const formattedEmail = this.formatEmailForZoho(emailData);
 
         // Send the email
-        const response = await fetch(`${this.baseUrl}/accounts/${this.getAccountId()}/messages`, {
+        const accountId = await this.getAccountId();
+        const response = await fetch(`${this.baseUrl}/accounts/${accountId}/messages`, {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${this.accessToken}`,
@@ -292,17 +297,47 @@ export class ZohoEmailService {
     }
 
     /**
-     * Get account ID from email address (simplified approach)
+     * Get the Zoho Mail account ID for the configured address. Uses ZOHO_ACCOUNT_ID
+     * when set, otherwise looks it up once from the accounts API.
      */
-    private getAccountId(): string {
-        // For Zoho, the account ID is typically derived from the email domain
-        // This is a simplified implementation - in production, you might need to
-        // fetch this from the Zoho API or configure it separately
+    private async getAccountId(): Promise<string> {
         if (!this.config) {
             throw new Error('Zoho configuration not set');
         }
-        const domain = this.config.emailAddress.split('@')[1];
-        return domain.replace('.', '_');
+
+        if (this.config.accountId) {
+            return this.config.accountId;
+        }
+
+        if (this.accountId) {
+            return this.accountId;
+        }
+
+        const response = await fetch(`${this.baseUrl}/accounts`, {
+            headers: {
+                'Authorization': `Bearer ${this.accessToken}`,
+                'Accept': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to look up Zoho account (${response.status}): ${await response.text()}`);
+        }
+
+        const result: ZohoAccountsResponse = await response.json();
+        const address = this.config.emailAddress.toLowerCase();
+        const account = result.data.find(candidate =>
+            candidate.primaryEmailAddress?.toLowerCase() === address ||
+            candidate.mailboxAddress?.toLowerCase() === address ||
+            candidate.emailAddress?.some(alias => alias.mailId.toLowerCase() === address)
+        );
+
+        if (!account) {
+            throw new Error(`No Zoho account found for ${this.config.emailAddress}`);
+        }
+
+        this.accountId = account.accountId;
+        return this.accountId;
     }
 
     /**
@@ -360,7 +395,8 @@ export class ZohoEmailService {
         try {
             await this.ensureValidAccessToken();
 
-            const response = await fetch(`${this.baseUrl}/accounts/${this.getAccountId()}/messages/${messageId}`, {
+            const accountId = await this.getAccountId();
+            const response = await fetch(`${this.baseUrl}/accounts/${accountId}/messages/${messageId}`, {
                 method: 'GET',
                 headers: {
                     'Authorization': `Bearer ${this.accessToken}`,
@@ -508,5 +544,6 @@ export class ZohoEmailService {
     cleanup(): void {
         this.accessToken = null;
         this.tokenExpiry = null;
+        this.accountId = null;
     }
 }
\ No newline at end of file
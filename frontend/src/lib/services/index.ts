@@ -3,8 +3,32 @@
 export type { ScrapingResult } from './WebScraperService.js';
 
 // Claude AI services
-export { ClaudeService } from './ClaudeService.js';
-export type { ClaudeServiceResult, EmailRefinementRequest } from './ClaudeService.js';
+export {
+    ClaudeService,
+    DEFAULT_EMAIL_ANGLES,
+    MAX_EMAIL_VARIANTS,
+    DEFAULT_GENERATION_SETTINGS,
+    MAX_GENERATION_TOKENS
+} from './ClaudeService.js';
+export type {
+    ClaudeServiceResult,
+    ClaudeServiceOptions,
+    EmailGenerationResult,
+    EmailVariantsResult,
+    StreamOptions,
+    EmailRefinementRequest,
+    ReplyCategory,
+    ReplyClassification,
+    ReplyClassificationRequest,
+    ReplyClassificationResult,
+    FactCheckRequest,
+    FactCheckResult
+} from './ClaudeService.js';
+
+// AI providers behind ClaudeService - Note: createAIProvider and AnthropicProvider are server-side only
+export { MockAIProvider, MOCK_MODEL } from './MockAIProvider.js';
+export type { MockAIProviderOptions, MockAIErrorMode } from './MockAIProvider.js';
+export type { AIProvider, AIProviderName, AIMessageRequest, AIMessageResponse, AIMessageContext } from './AIProvider.js';
 
 // Error handling
 export { ErrorHandler, ErrorCode, retryWithBackoff } from './ErrorHandler.js';
@@ -17,6 +41,26 @@ export type { ManualBusinessInput, FallbackResult } from './FallbackService.js';
 // It uses WebScraperService internally
 export type { BusinessDataRequest, BusinessDataResult } from './BusinessDataService.js';
 
+// Scrape snapshots and caching - Note: ScrapeSnapshotService is server-side only
+export type { CachedScrapeOptions, CachedScrapingResult } from './ScrapeSnapshotService.js';
+
+// Website change checks - Note: WebsiteChangeService is server-side only
+export type { WebsiteCheckSummary } from './WebsiteChangeService.js';
+
+// Send queue - Note: SendQueueService is server-side only
+export type { SendQueueRunSummary } from './SendQueueService.js';
+
+// Reply tracking - Note: ReplyPollerService and ImapClient are server-side only
+export type { ReplyPollSummary, InboundMessage } from './ReplyPollerService.js';
+export type { ClassifiedReply, ClassifyReplyResult } from './ReplyClassifier.js';
+
+// Follow-up sequences - Note: SequenceService is server-side only
+export type { SequenceRunSummary } from './SequenceService.js';
+
+// Email transports - Note: createEmailTransport and SmtpEmailService are server-side only
+export type { EmailTransport, EmailTransportName, EmailTransportResult } from './EmailTransport.js';
+export type { SmtpConfig } from './SmtpEmailService.js';
+
 // Zoho email services
 export { ZohoEmailService } from './ZohoEmailService.js';
 export type { ZohoEmailServiceResult, SendResult } from './ZohoEmailService.js';
@@ -68,5 +68,7 @@ export const LoadingOperations = {
     UPDATING_STATUS: 'updating_status',
     SAVING_NOTE: 'saving_note',
     DELETING_NOTE: 'deleting_note',
-    DELETING_EMAIL: 'deleting_email'
+    DELETING_EMAIL: 'deleting_email',
+    SAVING_SEQUENCE: 'saving_sequence',
+    SAVING_PROMPT: 'saving_prompt'
 } as const;
\ No newline at end of file
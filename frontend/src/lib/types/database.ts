@@ -1,5 +1,9 @@
 // Database entity types
 
+import type { GenerationSettings, ScrapedData, WebsiteChange } from './index.js';
+
+export type { GenerationSettings, ScrapedData, WebsiteChange };
+
 export interface Business {
     id: number;
     name: string;
@@ -14,12 +18,61 @@ export interface Business {
 export interface Email {
     id: number;
     businessId: number;
+    campaignId?: number;
     subject: string;
     htmlContent: string;
     personalNotes?: string;
     sendStatus: 'draft' | 'sent' | 'failed';
     responseStatus: 'unsent' | 'no_response' | 'good_response' | 'bad_response';
     sentAt?: Date;
+    // Message-ID header of the sent email, when the transport reports it
+    messageId?: string;
+    // Latest AI verdict on a reply, if one was classified
+    replyClassification?: EmailReplyClassification;
+    // Model settings that generated the content, when it was generated
+    generationSettings?: GenerationSettings;
+    // Prompt library version the content was written from
+    promptVersionId?: number;
+    // Note the content was written from, when one supplied the instructions
+    noteId?: number;
+    // Scrape of the business's website the content was written from
+    scrapeSnapshotId?: number;
+    createdAt: Date;
+    updatedAt: Date;
+    // Present when the email went through the send queue
+    queueItemId?: number;
+    queueStatus?: QueueStatus;
+    scheduledFor?: Date;
+    sendAttempts?: number;
+    lastSendError?: string;
+}
+
+export interface EmailReplyClassification {
+    category: string;
+    confidence: number;
+    rationale: string;
+    // Too uncertain to apply; waiting for someone to set the response status
+    needsReview: boolean;
+}
+
+export type QueueStatus = 'queued' | 'sending' | 'sent' | 'dead';
+
+export interface SendQueueItem {
+    id: number;
+    emailId: number;
+    recipientEmail: string;
+    fromName: string;
+    fromEmail: string;
+    status: QueueStatus;
+    attempts: number;
+    maxAttempts: number;
+    scheduledFor: Date;
+    nextAttemptAt: Date;
+    lastError?: string;
+    lastErrorCode?: string;
+    eventData?: Record<string, unknown>;
+    lockedAt?: Date;
+    sentAt?: Date;
     createdAt: Date;
     updatedAt: Date;
 }
@@ -33,6 +86,128 @@ export interface Note {
     updatedAt: Date;
 }
 
+export interface Campaign {
+    id: number;
+    name: string;
+    goal?: string;
+    defaultTemplateId?: string;
+    defaultNoteId?: number;
+    senderName?: string;
+    senderEmail?: string;
+    // Overrides the server's model settings for emails in this campaign
+    generationSettings?: GenerationSettings;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface Sequence {
+    id: number;
+    name: string;
+    description?: string;
+    steps: SequenceStep[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface SequenceStep {
+    id: number;
+    sequenceId: number;
+    stepOrder: number;
+    delayDays: number;
+    prompt: string;
+    templateId?: string;
+    subject?: string;
+}
+
+export type EnrollmentStatus = 'active' | 'completed' | 'stopped';
+
+export interface SequenceEnrollment {
+    id: number;
+    sequenceId: number;
+    businessId: number;
+    campaignId?: number;
+    recipientEmail: string;
+    senderName?: string;
+    senderEmail?: string;
+    currentStep: number;
+    status: EnrollmentStatus;
+    stopReason?: string;
+    nextStepAt?: Date;
+    lastError?: string;
+    // Failed attempts at the current step
+    failedAttempts?: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// What produced a revision of an email's subject or content
+export type EmailRevisionSource = 'ai_generation' | 'ai_refinement' | 'manual_edit' | 'template_render' | 'restore';
+
+export interface EmailRevision {
+    id: number;
+    emailId: number;
+    // 1 for the first revision of each email
+    revisionNumber: number;
+    source: EmailRevisionSource;
+    subject: string;
+    htmlContent: string;
+    // e.g. the refinement feedback, or which revision was restored
+    note?: string;
+    createdAt: Date;
+}
+
+// Named prompt in the prompt library
+export interface PromptTemplate {
+    id: number;
+    name: string;
+    description?: string;
+    // Newest version, which is used for new emails
+    latestVersion: PromptTemplateVersion;
+    versionCount: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface PromptTemplateVersion {
+    id: number;
+    promptTemplateId: number;
+    // 1 for the first version of each prompt
+    version: number;
+    content: string;
+    // e.g. what changed, or which version was restored
+    note?: string;
+    createdAt: Date;
+}
+
+export type AIUsagePurpose = 'generate' | 'refine' | 'subject' | 'classify' | 'verify';
+
+// One Claude call in the usage ledger
+export interface AIUsage {
+    id: number;
+    purpose: AIUsagePurpose;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    latencyMs: number;
+    emailId?: number;
+    businessId?: number;
+    campaignId?: number;
+    createdAt: Date;
+}
+
+// Generated variant that was not picked for the email that went out
+export interface EmailVariant {
+    id: number;
+    businessId: number;
+    angle: string;
+    subject: string;
+    htmlBody: string;
+    textBody: string;
+    personalizationHooks: string[];
+    scrapedFacts: string[];
+    createdAt: Date;
+}
+
 export interface EmailAnalytics {
     id: number;
     emailId: number;
@@ -41,21 +216,50 @@ export interface EmailAnalytics {
     timestamp: Date;
 }
 
-export interface ScrapedData {
-    businessName: string;
-    description: string;
-    services: string[];
-    contactInfo: {
-        email?: string;
-        phone?: string;
-        address?: string;
-    };
-    socialMedia: {
-        linkedin?: string;
-        twitter?: string;
-        facebook?: string;
-    };
-    keyContent: string[];
+export interface MailboxSyncState {
+    mailbox: string;
+    uidValidity: number;
+    lastUid: number;
+    lastSyncedAt?: Date;
+}
+
+export type ScrapeSnapshotStatus = 'success' | 'partial' | 'failed';
+
+// One scrape of a website, keeping the start page's HTML as it was fetched
+export interface ScrapeSnapshot {
+    id: number;
+    // As requested; cached results are looked up by it
+    url: string;
+    // Where the start page ended up after redirects
+    finalUrl?: string;
+    // 'partial' when the data was too thin to use without review
+    status: ScrapeSnapshotStatus;
+    httpStatus?: number;
+    mode?: 'http' | 'browser';
+    // Options it was scraped with; absent on snapshots stored before they were recorded
+    options?: ScrapeSnapshotOptions;
+    html?: string;
+    scrapedData?: ScrapedData;
+    errorCode?: string;
+    scrapedAt: Date;
+}
+
+// The scrape options a snapshot was taken with, as the scraper resolved them
+export interface ScrapeSnapshotOptions {
+    maxPages: number;
+    mode: 'http' | 'browser' | 'auto';
+}
+
+// What differed when a business's website was scraped again
+export interface WebsiteChangeEvent {
+    id: number;
+    businessId: number;
+    snapshotId?: number;
+    // The snapshot compared against; absent when it was the business's saved data
+    previousSnapshotId?: number;
+    summary: string;
+    changes: WebsiteChange[];
+    detectedAt: Date;
 }
 
 // Input types for creating/updating entities
@@ -70,9 +274,132 @@ export interface BusinessData {
 
 export interface EmailDraft {
     businessId: number;
+    campaignId?: number;
     subject: string;
     htmlContent: string;
     personalNotes?: string;
+    // Versions that led to this content, oldest first
+    revisions?: EmailRevisionData[];
+    // What produced the saved content; defaults to 'ai_generation'
+    contentSource?: EmailRevisionSource;
+    // Model settings the content was generated with
+    generationSettings?: GenerationSettings;
+    // Ledger entries for the AI calls that drafted the email, linked to it on save
+    aiUsageIds?: number[];
+    // Prompt library version the content was written from
+    promptVersionId?: number;
+    // Note the content was written from, when one supplied the instructions
+    noteId?: number;
+    // Scrape of the business's website the content was written from
+    scrapeSnapshotId?: number;
+}
+
+export interface EmailRevisionData {
+    source: EmailRevisionSource;
+    subject: string;
+    htmlContent: string;
+    note?: string;
+}
+
+export interface PromptTemplateData {
+    name: string;
+    description?: string;
+    content: string;
+    // Stored with the version the content creates
+    note?: string;
+}
+
+export interface AIUsageData {
+    purpose: AIUsagePurpose;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    latencyMs: number;
+    // The business and campaign are taken from the email when not given
+    emailId?: number;
+    businessId?: number;
+    campaignId?: number;
+}
+
+export interface AIUsageFilters {
+    campaignId?: number;
+    dateFrom?: Date;
+    dateTo?: Date;
+}
+
+export interface CampaignData {
+    name: string;
+    goal?: string;
+    defaultTemplateId?: string;
+    defaultNoteId?: number;
+    senderName?: string;
+    senderEmail?: string;
+    generationSettings?: GenerationSettings;
+}
+
+export interface SequenceData {
+    name: string;
+    description?: string;
+    steps: SequenceStepData[];
+}
+
+export interface SequenceStepData {
+    delayDays: number;
+    prompt: string;
+    templateId?: string;
+    subject?: string;
+}
+
+export interface SendQueueData {
+    emailId: number;
+    recipientEmail: string;
+    fromName: string;
+    fromEmail: string;
+    scheduledFor?: Date;
+    maxAttempts?: number;
+    // Extra fields recorded on the 'sent' analytics event
+    eventData?: Record<string, unknown>;
+}
+
+export interface ScrapeSnapshotData {
+    url: string;
+    finalUrl?: string;
+    status: ScrapeSnapshotStatus;
+    httpStatus?: number;
+    mode?: 'http' | 'browser';
+    options?: ScrapeSnapshotOptions;
+    html?: string;
+    scrapedData?: ScrapedData;
+    errorCode?: string;
+    scrapedAt?: Date;
+}
+
+export interface WebsiteChangeData {
+    businessId: number;
+    snapshotId?: number;
+    previousSnapshotId?: number;
+    summary: string;
+    changes: WebsiteChange[];
+    detectedAt?: Date;
+}
+
+export interface SequenceEnrollmentData {
+    sequenceId: number;
+    businessId: number;
+    campaignId?: number;
+    recipientEmail: string;
+    senderName?: string;
+    senderEmail?: string;
+}
+
+export interface EmailVariantData {
+    businessId: number;
+    angle: string;
+    subject: string;
+    htmlBody: string;
+    textBody: string;
+    personalizationHooks?: string[];
+    scrapedFacts?: string[];
 }
 
 export interface NoteData {
@@ -85,8 +412,11 @@ export interface NoteData {
 
 export interface EmailFilters {
     businessName?: string;
-    sendStatus?: 'draft' | 'sent' | 'failed';
+    campaignId?: number;
+    sendStatus?: 'draft' | 'sent' | 'failed' | QueueStatus;
     responseStatus?: 'unsent' | 'no_response' | 'good_response' | 'bad_response';
+    // Only emails whose reply verdict is waiting for manual review
+    needsReview?: boolean;
     dateFrom?: Date;
     dateTo?: Date;
     limit?: number;
@@ -124,12 +454,24 @@ export interface BusinessRow {
 export interface EmailRow {
     id: number;
     business_id: number;
+    campaign_id: number | null;
     subject: string;
     html_content: string;
     personal_notes: string | null;
     send_status: string;
     response_status: string;
     sent_at: string | null;
+    message_id: string | null;
+    reply_category: string | null;
+    reply_confidence: number | null;
+    reply_rationale: string | null;
+    reply_needs_review: number;
+    model: string | null;
+    temperature: number | null;
+    max_tokens: number | null;
+    prompt_version_id: number | null;
+    note_id: number | null;
+    scrape_snapshot_id: number | null;
     created_at: string;
     updated_at: string;
 }
@@ -143,10 +485,167 @@ export interface NoteRow {
     updated_at: string;
 }
 
+export interface CampaignRow {
+    id: number;
+    name: string;
+    goal: string | null;
+    default_template_id: string | null;
+    default_note_id: number | null;
+    sender_name: string | null;
+    sender_email: string | null;
+    model: string | null;
+    temperature: number | null;
+    max_tokens: number | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface SequenceRow {
+    id: number;
+    name: string;
+    description: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface SequenceStepRow {
+    id: number;
+    sequence_id: number;
+    step_order: number;
+    delay_days: number;
+    prompt: string;
+    template_id: string | null;
+    subject: string | null;
+}
+
+export interface SequenceEnrollmentRow {
+    id: number;
+    sequence_id: number;
+    business_id: number;
+    campaign_id: number | null;
+    recipient_email: string;
+    sender_name: string | null;
+    sender_email: string | null;
+    current_step: number;
+    status: string;
+    stop_reason: string | null;
+    next_step_at: string | null;
+    last_error: string | null;
+    failed_attempts: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface SendQueueRow {
+    id: number;
+    email_id: number;
+    recipient_email: string;
+    from_name: string;
+    from_email: string;
+    status: string;
+    attempts: number;
+    max_attempts: number;
+    scheduled_for: string;
+    next_attempt_at: string;
+    last_error: string | null;
+    last_error_code: string | null;
+    event_data: string | null; // JSON string
+    locked_at: string | null;
+    sent_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface MailboxSyncStateRow {
+    mailbox: string;
+    uid_validity: number;
+    last_uid: number;
+    last_synced_at: string | null;
+    updated_at: string;
+}
+
+export interface EmailRevisionRow {
+    id: number;
+    email_id: number;
+    revision_number: number;
+    source: string;
+    subject: string;
+    html_content: string;
+    note: string | null;
+    created_at: string;
+}
+
+export interface PromptTemplateRow {
+    id: number;
+    name: string;
+    description: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface PromptTemplateVersionRow {
+    id: number;
+    prompt_template_id: number;
+    version: number;
+    content: string;
+    note: string | null;
+    created_at: string;
+}
+
+export interface AIUsageRow {
+    id: number;
+    purpose: string;
+    model: string;
+    input_tokens: number;
+    output_tokens: number;
+    latency_ms: number;
+    email_id: number | null;
+    business_id: number | null;
+    campaign_id: number | null;
+    created_at: string;
+}
+
+export interface EmailVariantRow {
+    id: number;
+    business_id: number;
+    angle: string;
+    subject: string;
+    html_body: string;
+    text_body: string;
+    personalization_hooks: string | null; // JSON string
+    scraped_facts: string | null; // JSON string
+    created_at: string;
+}
+
 export interface EmailAnalyticsRow {
     id: number;
     email_id: number;
     event_type: string;
     event_data: string | null; // JSON string
     timestamp: string;
-}
\ No newline at end of file
+}
+
+export interface ScrapeSnapshotRow {
+    id: number;
+    url: string;
+    final_url: string | null;
+    status: string;
+    http_status: number | null;
+    mode: string | null;
+    html: string | null;
+    scraped_data: string | null; // JSON string
+    error_code: string | null;
+    scraped_at: string;
+    max_pages: number | null;
+    requested_mode: string | null;
+}
+
+export interface WebsiteChangeRow {
+    id: number;
+    business_id: number;
+    snapshot_id: number | null;
+    previous_snapshot_id: number | null;
+    summary: string;
+    changes: string; // JSON string
+    detected_at: string;
+}
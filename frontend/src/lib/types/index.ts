@@ -14,6 +14,7 @@ export interface Business {
 export interface Email {
     id: number;
     businessId: number;
+    campaignId?: number;
     subject: string;
     htmlContent: string;
     personalNotes?: string;
@@ -48,6 +49,38 @@ export interface ScrapedData {
         facebook?: string;
     };
     keyContent: string[];
+    // Stated by the site's structured data (schema.org or OpenGraph), when it has any
+    openingHours?: string[];
+    geo?: {
+        latitude: number;
+        longitude: number;
+    };
+    foundingYear?: number;
+    aggregateRating?: {
+        ratingValue: number;
+        reviewCount?: number;
+        bestRating?: number;
+    };
+    // As the site states it, e.g. '$$' or '£10-£20'
+    priceRange?: string;
+    // Page each fact was found on, when several pages of the site were read
+    sources?: ScrapedFactSource[];
+}
+
+// One field-level difference between two scrapes of a business's website
+export interface WebsiteChange {
+    // ScrapedData field, e.g. 'services' or 'contactInfo.address'
+    field: string;
+    kind: 'added' | 'removed' | 'changed';
+    before?: string;
+    after?: string;
+}
+
+export interface ScrapedFactSource {
+    // ScrapedData field, e.g. 'description', 'services' or 'contactInfo.email'
+    field: string;
+    value: string;
+    url: string;
 }
 
 export interface EmailGenerationRequest {
@@ -57,12 +90,92 @@ export interface EmailGenerationRequest {
     promptTemplate: string;
     businessContext: string;
     business_name?: string;
+    previousEmails?: PreviousEmail[];
+    // Number of variants to write, each from a different angle
+    variantCount?: number;
+    // Angles to write the variants from; defaults to the built-in angles
+    angles?: EmailAngle[];
+    // Campaign whose model settings apply before the request's own
+    campaignId?: number;
+    // Business the email is for, when it is already saved
+    businessId?: number;
+    // Overrides the server's and the campaign's model settings
+    generationSettings?: GenerationSettings;
+    // Prompt library version to write the email from instead of the built-in prompt
+    promptVersionId?: number;
+    // That version rendered for this business; filled in by the server
+    promptInstructions?: string;
+    // Sender details available to prompt library variables
+    sender?: SenderDetails;
+    // What changed on their website since the last email, as hooks to open with
+    websiteChanges?: string[];
+}
+
+export interface SenderDetails {
+    name?: string;
+    title?: string;
+    company?: string;
+    email?: string;
+    phone?: string;
+}
+
+// Model settings for a generation call; unset fields fall back to the next layer
+// (request, then campaign, then serverConfig)
+export interface GenerationSettings {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+}
+
+// Direction a variant takes, e.g. opening with a problem or a compliment
+export interface EmailAngle {
+    name: string;
+    instructions: string;
+}
+
+// Validated result of a generation call
+export interface GeneratedEmail {
+    subject: string;
+    htmlBody: string;
+    textBody: string;
+    // Details about the business the email was personalized with
+    personalizationHooks: string[];
+    // Facts from the business info the email relies on
+    scrapedFacts: string[];
+}
+
+// A factual claim an email makes about the recipient, checked against the
+// business info the email was written from
+export interface FactClaim {
+    // Quoted as it appears in the email
+    claim: string;
+    supported: boolean;
+    // The business info that backs the claim, when supported
+    evidence?: string;
+}
+
+export interface FactCheck {
+    claims: FactClaim[];
+}
+
+export interface GeneratedEmailVariant extends GeneratedEmail {
+    // Name of the angle the variant was written from
+    angle: string;
+}
+
+// Earlier email in the same thread, used as context when drafting a follow-up
+export interface PreviousEmail {
+    subject: string;
+    content: string;
+    sentAt?: Date;
 }
 
 export interface EmailData {
     to: string;
     subject: string;
     htmlContent: string;
+    // Plain text alternative; derived from htmlContent when omitted
+    textContent?: string;
     fromName: string;
     fromEmail: string;
 }
@@ -74,6 +187,68 @@ export interface UserFriendlyError {
     suggestedAction?: string;
 }
 
+// Token counts and spend for a group of Claude calls
+export interface AIUsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    // USD; calls to models without a price count as 0
+    cost: number;
+}
+
+export interface CampaignAIUsage extends AIUsageTotals {
+    campaignId: number | null;
+    campaignName: string;
+    positiveReplies: number;
+    costPerPositiveReply: number | null;
+}
+
+// Response of /api/analytics/ai-usage
+export interface AIUsageAnalytics {
+    totals: AIUsageTotals & { averageLatencyMs: number };
+    positiveReplies: number;
+    costPerPositiveReply: number | null;
+    byDay: (AIUsageTotals & { date: string })[];
+    byPurpose: (AIUsageTotals & { purpose: string })[];
+    byModel: (AIUsageTotals & { model: string })[];
+    byCampaign: CampaignAIUsage[];
+    // Models in the ledger that the price table does not cover
+    unpricedModels: string[];
+}
+
+// A percentage with its 95% confidence interval
+export interface RateWithInterval {
+    rate: number;
+    lower: number;
+    upper: number;
+}
+
+// Sent emails grouped by the prompt version that wrote them
+export interface PromptVersionStats {
+    // Null for emails written by the built-in prompt, or whose prompt was deleted
+    promptVersionId: number | null;
+    promptTemplateId: number | null;
+    // Set for emails written from a note rather than a prompt version
+    noteId: number | null;
+    promptName: string;
+    version: number | null;
+    sent: number;
+    replies: number;
+    goodReplies: number;
+    replyRate: RateWithInterval;
+    goodReplyRate: RateWithInterval;
+    medianHoursToReply: number | null;
+    // Null until there are enough timed replies for an interval
+    medianHoursToReplyInterval: { lower: number; upper: number } | null;
+    // Good-reply interval lies wholly below the best version's
+    clearlyBehind: boolean;
+}
+
+// Response of /api/analytics/prompts
+export interface PromptAnalytics {
+    versions: PromptVersionStats[];
+}
+
 // Re-export email template types
 export type {
     EmailTemplate,
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCost, DEFAULT_PRICE_TABLE, findModelPrice, parsePriceTable } from './ai-pricing.js';
+
+describe('AI pricing', () => {
+    it('prices dated model ids by their most specific family', () => {
+        expect(findModelPrice('claude-opus-4-5-20251101', DEFAULT_PRICE_TABLE)).toEqual({ input: 5, output: 25 });
+        expect(findModelPrice('claude-opus-4-1-20250805', DEFAULT_PRICE_TABLE)).toEqual({ input: 15, output: 75 });
+        expect(findModelPrice('gpt-4o', DEFAULT_PRICE_TABLE)).toBeNull();
+    });
+
+    it('turns token counts into dollars', () => {
+        expect(calculateCost('claude-sonnet-4-5-20250929', 1_000_000, 100_000, DEFAULT_PRICE_TABLE)).toBeCloseTo(4.5);
+        expect(calculateCost('unknown-model', 1000, 1000, DEFAULT_PRICE_TABLE)).toBeNull();
+    });
+
+    it('layers configured prices over the defaults and skips malformed entries', () => {
+        const prices = parsePriceTable('{"claude-sonnet-4": {"input": 2, "output": 10}, "broken": {"input": "x"}}');
+
+        expect(prices['claude-sonnet-4']).toEqual({ input: 2, output: 10 });
+        expect(prices['claude-3-haiku']).toEqual(DEFAULT_PRICE_TABLE['claude-3-haiku']);
+        expect(prices.broken).toBeUndefined();
+        expect(parsePriceTable('not json')).toBe(DEFAULT_PRICE_TABLE);
+    });
+});
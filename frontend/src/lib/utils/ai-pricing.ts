@@ -0,0 +1,81 @@
+// Price table that turns the token counts in the ai_usage ledger into dollars
+
+export interface ModelPrice {
+    // USD per million tokens
+    input: number;
+    output: number;
+}
+
+// Keyed by model id or model id prefix
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices at the time of writing; override or extend them with CLAUDE_PRICING
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    'claude-opus-4-5': { input: 5, output: 25 },
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-haiku-4-5': { input: 1, output: 5 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    // The offline mock provider
+    mock: { input: 0, output: 0 }
+};
+
+/**
+ * Find a model's price: its exact entry, or else the longest prefix entry, so
+ * dated model ids are covered by their family
+ */
+export function findModelPrice(model: string, prices: PriceTable): ModelPrice | null {
+    if (prices[model]) {
+        return prices[model];
+    }
+
+    const prefix = Object.keys(prices)
+        .filter(key => model.startsWith(key))
+        .sort((a, b) => b.length - a.length)[0];
+
+    return prefix ? prices[prefix] : null;
+}
+
+/**
+ * Cost of a call in USD, or null when the model has no price
+ */
+export function calculateCost(model: string, inputTokens: number, outputTokens: number, prices: PriceTable): number | null {
+    const price = findModelPrice(model, prices);
+    if (!price) {
+        return null;
+    }
+
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Read a JSON price table such as {"claude-sonnet-4": {"input": 3, "output": 15}}
+ * on top of the defaults. Malformed entries are ignored.
+ */
+export function parsePriceTable(json: string | undefined): PriceTable {
+    if (!json) {
+        return DEFAULT_PRICE_TABLE;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        console.warn('CLAUDE_PRICING is not valid JSON; using the default prices');
+        return DEFAULT_PRICE_TABLE;
+    }
+
+    const prices: PriceTable = { ...DEFAULT_PRICE_TABLE };
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        for (const [model, price] of Object.entries(parsed as Record<string, Partial<ModelPrice>>)) {
+            if (typeof price?.input === 'number' && typeof price?.output === 'number') {
+                prices[model] = { input: price.input, output: price.output };
+            }
+        }
+    }
+
+    return prices;
+}
@@ -0,0 +1,17 @@
+import { ClaudeService } from '$lib/services/ClaudeService.js';
+import { createAIProvider } from '$lib/services/AIProvider.js';
+import { DatabaseService } from '$lib/database/service.js';
+import { serverConfig } from './env.server.js';
+
+/**
+ * ClaudeService set up from serverConfig with the configured AI provider,
+ * recording every call in the AI usage ledger
+ */
+export function createClaudeService(): ClaudeService {
+    const db = DatabaseService.getInstance();
+    return new ClaudeService(serverConfig.claude.apiKey, {
+        ...serverConfig.claude,
+        provider: createAIProvider({ ...serverConfig.ai, apiKey: serverConfig.claude.apiKey }),
+        onUsage: usage => db.recordAIUsage(usage)
+    });
+}
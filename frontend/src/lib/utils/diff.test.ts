@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, htmlToDiffText, type DiffPart } from './diff.js';
+
+// Rebuild one side of the diff from its parts
+function side(parts: DiffPart[], skip: DiffPart['type']): string {
+    return parts.filter(part => part.type !== skip).map(part => part.text).join('');
+}
+
+describe('diffWords', () => {
+    it('marks changed words and keeps the rest equal', () => {
+        const parts = diffWords('We bake fresh bread daily.', 'We bake fresh sourdough daily.');
+
+        expect(parts).toEqual([
+            { type: 'equal', text: 'We bake fresh ' },
+            { type: 'removed', text: 'bread' },
+            { type: 'added', text: 'sourdough' },
+            { type: 'equal', text: ' daily.' }
+        ]);
+    });
+
+    it('can rebuild both texts from the parts', () => {
+        const before = 'Hi there,\n\nLoved your new menu. Would you be open to a quick call?';
+        const after = 'Hi there,\n\nCongrats on the new location! Open to a call next week?';
+
+        const parts = diffWords(before, after);
+
+        expect(side(parts, 'added')).toBe(before);
+        expect(side(parts, 'removed')).toBe(after);
+    });
+
+    it('handles empty texts', () => {
+        expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+        expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+        expect(diffWords('', '')).toEqual([]);
+    });
+});
+
+describe('htmlToDiffText', () => {
+    it('keeps the body text and drops the template head', () => {
+        const html = '<html><head><style>p { color: red; }</style></head><body>'
+            + '<div><p>Hi &amp; welcome,</p>\n  <p>See you<br>soon</p></div></body></html>';
+
+        expect(htmlToDiffText(html)).toBe('Hi & welcome,\n\nSee you\nsoon');
+    });
+});
@@ -0,0 +1,102 @@
+// Word-level diff used to show what changed between two versions of an email
+
+export interface DiffPart {
+    type: 'equal' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * Diff two texts word by word. Whitespace runs are kept as their own tokens
+ * so joining the parts of one side gives back that text exactly.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    // Common prefix and suffix don't need the quadratic table
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) {
+        start++;
+    }
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const parts: DiffPart[] = [];
+    push(parts, 'equal', a.slice(0, start));
+
+    // lcs[i][j] = length of the longest common subsequence of a[i..endA) and b[j..endB)
+    const rows = endA - start;
+    const cols = endB - start;
+    const lcs = Array.from({ length: rows + 1 }, () => new Int32Array(cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = cols - 1; j >= 0; j--) {
+            lcs[i][j] = a[start + i] === b[start + j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+        if (i < rows && j < cols && a[start + i] === b[start + j]) {
+            push(parts, 'equal', [a[start + i]]);
+            i++;
+            j++;
+        } else if (i < rows && (j === cols || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            push(parts, 'removed', [a[start + i]]);
+            i++;
+        } else {
+            push(parts, 'added', [b[start + j]]);
+            j++;
+        }
+    }
+
+    push(parts, 'equal', a.slice(endA));
+    return parts;
+}
+
+/**
+ * Reduce an email's HTML to readable text for diffing, dropping the template's
+ * head and styles and keeping block boundaries as line breaks
+ */
+export function htmlToDiffText(html: string): string {
+    return html
+        .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|tr|h[1-6]|li)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .split('\n')
+        .map(line => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+function tokenize(text: string): string[] {
+    return text.match(/\s+|\S+/g) || [];
+}
+
+// Append tokens, merging with the previous part when it has the same type
+function push(parts: DiffPart[], type: DiffPart['type'], tokens: string[]): void {
+    if (tokens.length === 0) {
+        return;
+    }
+
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+        last.text += tokens.join('');
+    } else {
+        parts.push({ type, text: tokens.join('') });
+    }
+}
@@ -0,0 +1,27 @@
+import { lintEmail, type EmailLintInput, type EmailLintResult } from './email-lint.js';
+import { serverConfig } from './env.server.js';
+
+/**
+ * Lint an email as the configured transport will send it
+ */
+export function lintOutgoingEmail(email: EmailLintInput): EmailLintResult {
+    // SMTP builds a plain-text part from the HTML; Zoho sends HTML only
+    return lintEmail(email, { derivesPlainText: serverConfig.email.transport === 'smtp' });
+}
+
+/**
+ * Whether a lint result is below the configured minimum score for sending
+ */
+export function isBlockedByLint(result: EmailLintResult): boolean {
+    const minScore = serverConfig.email.minLintScore;
+    return minScore !== null && result.score < minScore;
+}
+
+/**
+ * Why the configured minimum score stops an email from being sent, or null if it may go
+ */
+export function lintBlockReason(result: EmailLintResult): string | null {
+    return isBlockedByLint(result)
+        ? `Email scored ${result.score} on the pre-send check; the minimum to send is ${serverConfig.email.minLintScore}`
+        : null;
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { findSpamPhrases, lintEmail, parseMinLintScore } from './email-lint.js';
+
+describe('Email lint', () => {
+    const body = '<p>Hi Maria, I saw that Rise Bakery started offering catering for office lunches this spring. '
+        + 'I build simple ordering pages for bakeries, and yours could let teams book a weekly order in a couple of clicks. '
+        + 'Would a short call next week be useful to see whether it fits how you work today?</p>';
+
+    it('gives a clean email a full score', () => {
+        const result = lintEmail({ subject: 'Catering orders for Rise Bakery', htmlContent: body }, { derivesPlainText: true });
+
+        expect(result).toEqual({ score: 100, issues: [] });
+    });
+
+    it('flags leftover placeholders, shouting and long subjects', () => {
+        const result = lintEmail({
+            subject: 'QUICK QUESTION ABOUT {{COMPANY}} AND YOUR WEBSITE, ORDERING AND CATERING',
+            htmlContent: body
+        }, { derivesPlainText: true });
+
+        expect(result.issues.map(issue => issue.rule)).toEqual(['placeholders', 'subject_length', 'all_caps_subject']);
+        expect(result.issues[0].message).toContain('{{COMPANY}}');
+        expect(result.score).toBe(35);
+    });
+
+    it('matches spam phrases as whole words and caps their penalty', () => {
+        expect(findSpamPhrases('Act now! This offer is guaranteed and risk-free.')).toEqual(['act now', 'guaranteed', 'risk-free']);
+        expect(findSpamPhrases('We are unguaranteed winners')).toEqual([]);
+
+        const result = lintEmail({
+            subject: 'Urgent: act now',
+            htmlContent: `${body}<p>Buy now, limited time, 100% free, no obligation, click here.</p>`
+        }, { derivesPlainText: true });
+        expect(result.issues[0]).toMatchObject({ rule: 'spam_phrases', penalty: 25 });
+    });
+
+    it('flags link-heavy and image-only emails', () => {
+        const links = lintEmail({
+            subject: 'Hello',
+            htmlContent: '<p>See <a href="https://a.example">this</a> and <a href="https://b.example">that</a>.</p>'
+        }, { derivesPlainText: true });
+        const images = lintEmail({ subject: 'Hello', htmlContent: '<img src="https://a.example/offer.png">' }, { derivesPlainText: true });
+
+        expect(links.issues.map(issue => issue.rule)).toEqual(['link_ratio']);
+        expect(images.issues.map(issue => [issue.rule, issue.severity])).toEqual([['image_ratio', 'error'], ['plain_text', 'warning']]);
+    });
+
+    it('requires a plain-text part when the transport does not derive one', () => {
+        const htmlOnly = lintEmail({ subject: 'Hello', htmlContent: body });
+        const withText = lintEmail({ subject: 'Hello', htmlContent: body, textContent: 'Hi Maria' });
+
+        expect(htmlOnly.issues.map(issue => issue.rule)).toEqual(['plain_text']);
+        expect(withText.issues).toEqual([]);
+    });
+
+    it('warns before Gmail clips a large email', () => {
+        const result = lintEmail({ subject: 'Hello', htmlContent: body + `<!-- ${'x'.repeat(110 * 1024)} -->` }, { derivesPlainText: true });
+
+        expect(result.issues[0]).toMatchObject({ rule: 'gmail_clipping', severity: 'error', penalty: 30 });
+    });
+
+    it('reads the minimum score, clamping it to 0-100 and ignoring anything else', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(parseMinLintScore(undefined)).toBeNull();
+        expect(parseMinLintScore(' 70 ')).toBe(70);
+        expect(parseMinLintScore('150')).toBe(100);
+        expect(parseMinLintScore('-5')).toBe(0);
+        expect(parseMinLintScore('seventy')).toBeNull();
+        expect(warn).toHaveBeenCalledTimes(1);
+
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,247 @@
+// Pre-send checks for deliverability and spam filters. Each problem found costs
+// the email points off a score of 100 and comes with a suggested fix.
+
+import { validateEmailSize } from './template-utils.js';
+
+export type EmailLintSeverity = 'error' | 'warning' | 'info';
+
+export type EmailLintRule =
+    | 'placeholders'
+    | 'subject_length'
+    | 'all_caps_subject'
+    | 'spam_phrases'
+    | 'link_ratio'
+    | 'image_ratio'
+    | 'plain_text'
+    | 'gmail_clipping';
+
+export interface EmailLintIssue {
+    rule: EmailLintRule;
+    severity: EmailLintSeverity;
+    message: string;
+    fix: string;
+    // Points taken off the score
+    penalty: number;
+}
+
+export interface EmailLintResult {
+    // 0-100, higher is better
+    score: number;
+    issues: EmailLintIssue[];
+}
+
+export interface EmailLintInput {
+    subject: string;
+    htmlContent: string;
+    textContent?: string;
+}
+
+export interface EmailLintOptions {
+    // The transport adds a plain-text part derived from the HTML when none is given
+    derivesPlainText?: boolean;
+}
+
+// Phrases that spam filters weigh against an email
+export const SPAM_PHRASES = [
+    '100% free',
+    'act now',
+    'apply now',
+    'as seen on',
+    'best price',
+    'buy now',
+    'call now',
+    'cash bonus',
+    'click here',
+    'dear friend',
+    'double your',
+    'earn money',
+    'exclusive deal',
+    'free trial',
+    'guaranteed',
+    'limited time',
+    'lowest price',
+    'no cost',
+    'no obligation',
+    'once in a lifetime',
+    'order now',
+    'risk-free',
+    'save big',
+    'special promotion',
+    "this isn't spam",
+    'urgent',
+    'winner'
+];
+
+export const MAX_SUBJECT_LENGTH = 60;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*[^{}]*?\s*\}\}/g;
+const SPAM_PHRASE_PENALTY = 5;
+const MAX_SPAM_PENALTY = 25;
+// Below this many words per link or image, the email reads as promotional
+const WORDS_PER_LINK = 40;
+const WORDS_PER_IMAGE = 50;
+
+/**
+ * Check a rendered email before it is sent
+ */
+export function lintEmail(email: EmailLintInput, options: EmailLintOptions = {}): EmailLintResult {
+    const subject = email.subject.trim();
+    const bodyText = htmlToText(email.htmlContent);
+    const words = countWords(bodyText);
+    const issues: EmailLintIssue[] = [];
+
+    const placeholders = [...new Set(`${subject}\n${email.htmlContent}`.match(PLACEHOLDER_PATTERN) || [])];
+    if (placeholders.length > 0) {
+        issues.push({
+            rule: 'placeholders',
+            severity: 'error',
+            message: `Unfilled placeholders: ${placeholders.join(', ')}`,
+            fix: 'Replace each placeholder with real text, or remove it.',
+            penalty: 40
+        });
+    }
+
+    if (!subject) {
+        issues.push({
+            rule: 'subject_length',
+            severity: 'error',
+            message: 'The subject line is empty.',
+            fix: 'Add a short subject that is specific to the business.',
+            penalty: 40
+        });
+    } else if (subject.length > MAX_SUBJECT_LENGTH) {
+        issues.push({
+            rule: 'subject_length',
+            severity: 'warning',
+            message: `The subject is ${subject.length} characters; inboxes cut it off after about ${MAX_SUBJECT_LENGTH}.`,
+            fix: `Shorten the subject to under ${MAX_SUBJECT_LENGTH} characters.`,
+            penalty: 10
+        });
+    }
+
+    const letters = subject.replace(/[^a-z]/gi, '');
+    if (letters.length >= 4 && letters.replace(/[^A-Z]/g, '').length / letters.length >= 0.6) {
+        issues.push({
+            rule: 'all_caps_subject',
+            severity: 'warning',
+            message: 'The subject is mostly capital letters.',
+            fix: 'Write the subject in sentence case.',
+            penalty: 15
+        });
+    }
+
+    const spamPhrases = findSpamPhrases(`${subject}\n${bodyText}`);
+    if (spamPhrases.length > 0) {
+        issues.push({
+            rule: 'spam_phrases',
+            severity: 'warning',
+            message: `Spam trigger phrases: ${spamPhrases.map(phrase => `"${phrase}"`).join(', ')}`,
+            fix: 'Reword these phrases in plain, specific language.',
+            penalty: Math.min(spamPhrases.length * SPAM_PHRASE_PENALTY, MAX_SPAM_PENALTY)
+        });
+    }
+
+    const links = (email.htmlContent.match(/<a\s[^>]*href=/gi) || []).length;
+    if (links > 0 && (links > 3 || words / links < WORDS_PER_LINK)) {
+        issues.push({
+            rule: 'link_ratio',
+            severity: 'warning',
+            message: `${links} link${links === 1 ? '' : 's'} in ${words} words of text.`,
+            fix: 'Keep to one or two links in a cold email, with a few sentences of text around each.',
+            penalty: 10
+        });
+    }
+
+    const images = (email.htmlContent.match(/<img\b/gi) || []).length;
+    if (images > 0 && words < 20) {
+        issues.push({
+            rule: 'image_ratio',
+            severity: 'error',
+            message: 'The email is almost all images.',
+            fix: 'Put the message in text; spam filters cannot read images.',
+            penalty: 30
+        });
+    } else if (images > 0 && words / images < WORDS_PER_IMAGE) {
+        issues.push({
+            rule: 'image_ratio',
+            severity: 'warning',
+            message: `${images} image${images === 1 ? '' : 's'} in ${words} words of text.`,
+            fix: 'Remove images or add more text; aim for at least 50 words per image.',
+            penalty: 15
+        });
+    }
+
+    const plainText = email.textContent?.trim() || (options.derivesPlainText ? bodyText : '');
+    if (!plainText) {
+        issues.push({
+            rule: 'plain_text',
+            severity: 'warning',
+            message: 'The email has no plain-text part.',
+            fix: options.derivesPlainText
+                ? 'Add text to the email body so a plain-text version can be made from it.'
+                : 'This transport sends HTML only. Use the SMTP transport, which adds a plain-text part.',
+            penalty: 10
+        });
+    }
+
+    const size = validateEmailSize(email.htmlContent);
+    if (size.warning) {
+        issues.push({
+            rule: 'gmail_clipping',
+            severity: size.isValid ? 'info' : 'error',
+            message: `${size.warning} (${size.size}KB)`,
+            fix: 'Remove inline styles, embedded images and unused markup.',
+            penalty: size.isValid ? 5 : 30
+        });
+    }
+
+    const penalty = issues.reduce((total, issue) => total + issue.penalty, 0);
+
+    return {
+        score: Math.max(0, 100 - penalty),
+        issues
+    };
+}
+
+/**
+ * Spam trigger phrases that appear in the text, each listed once
+ */
+export function findSpamPhrases(text: string): string[] {
+    const lower = text.toLowerCase().replace(/[‘’]/g, "'");
+    return SPAM_PHRASES.filter(phrase => {
+        const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(lower);
+    });
+}
+
+function htmlToText(html: string): string {
+    return html
+        .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function countWords(text: string): number {
+    return text ? text.split(' ').filter(word => /\w/.test(word)).length : 0;
+}
+
+/**
+ * Read SEND_LINT_MIN_SCORE. Values outside 0-100 are clamped; anything that is
+ * not a number is ignored with a warning rather than silently never blocking.
+ */
+export function parseMinLintScore(value: string | undefined): number | null {
+    if (!value?.trim()) {
+        return null;
+    }
+
+    const score = Number(value.trim());
+    if (!Number.isFinite(score)) {
+        console.warn(`SEND_LINT_MIN_SCORE "${value}" is not a number; emails will not be blocked by the pre-send check`);
+        return null;
+    }
+
+    return Math.min(100, Math.max(0, score));
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseNumberSetting } from './env-values.js';
+
+describe('Environment values', () => {
+    it('reads numbers and uses the default when the setting is empty', () => {
+        expect(parseNumberSetting('IMAP_PORT', ' 143 ', 993)).toBe(143);
+        expect(parseNumberSetting('IMAP_PORT', undefined, 993)).toBe(993);
+        expect(parseNumberSetting('IMAP_PORT', '', 993)).toBe(993);
+        expect(parseNumberSetting('CLAUDE_TEMPERATURE', '0.4', 0.7, { max: 1, integer: false })).toBe(0.4);
+    });
+
+    it('falls back with a warning on a typo or a value out of range', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(parseNumberSetting('SEND_QUEUE_POLL_INTERVAL_MS', '15s', 15000, { min: 1000 })).toBe(15000);
+        expect(parseNumberSetting('SEND_QUEUE_POLL_INTERVAL_MS', '0', 15000, { min: 1000 })).toBe(15000);
+        expect(parseNumberSetting('SCRAPE_MAX_PAGES', '2.5', 5, { min: 1 })).toBe(5);
+        expect(parseNumberSetting('CLAUDE_TEMPERATURE', '1.5', 0.7, { max: 1, integer: false })).toBe(0.7);
+        expect(warn).toHaveBeenCalledTimes(4);
+        expect(warn.mock.calls[0][0]).toBe('SEND_QUEUE_POLL_INTERVAL_MS "15s" is not a whole number of at least 1000; using 15000');
+
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,33 @@
+// Reads numeric settings from the environment. A typo in one must not turn into
+// NaN: a poll interval of NaN makes setInterval fire back to back.
+
+export interface NumberSettingOptions {
+    min?: number;
+    max?: number;
+    // Whole numbers only, such as ports, counts and intervals
+    integer?: boolean;
+}
+
+/**
+ * Read a numeric setting, falling back to its default with a warning when the
+ * value is not a number in range
+ */
+export function parseNumberSetting(
+    name: string,
+    value: string | undefined,
+    fallback: number,
+    { min = 0, max = Infinity, integer = true }: NumberSettingOptions = {}
+): number {
+    if (!value?.trim()) {
+        return fallback;
+    }
+
+    const number = Number(value.trim());
+    if (!Number.isFinite(number) || (integer && !Number.isInteger(number)) || number < min || number > max) {
+        const range = max === Infinity ? `of at least ${min}` : `from ${min} to ${max}`;
+        console.warn(`${name} "${value}" is not ${integer ? 'a whole number' : 'a number'} ${range}; using ${fallback}`);
+        return fallback;
+    }
+
+    return number;
+}
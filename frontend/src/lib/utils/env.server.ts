@@ -1,27 +1,122 @@
 import { env } from '$env/dynamic/private';
+import type { EmailTransportName } from '$lib/services/EmailTransport.js';
+import type { AIProviderName } from '$lib/services/AIProvider.js';
+import type { MockAIErrorMode } from '$lib/services/MockAIProvider.js';
+import { parsePriceTable } from './ai-pricing.js';
+import { parseMinLintScore } from './email-lint.js';
+import { parseNumberSetting } from './env-values.js';
+
+const emailTransport = (env.EMAIL_TRANSPORT || 'zoho') as EmailTransportName;
+const aiProvider = (env.AI_PROVIDER || 'anthropic') as AIProviderName;
+
+// setInterval runs longer delays immediately
+const MAX_INTERVAL_MS = 2 ** 31 - 1;
 
 export const serverConfig = {
     claude: {
         apiKey: env.CLAUDE_API_KEY || '',
+        // Defaults for writing and refining emails; campaigns and requests can override them
+        generation: {
+            model: env.CLAUDE_MODEL || 'claude-3-5-sonnet-20241022',
+            temperature: parseNumberSetting('CLAUDE_TEMPERATURE', env.CLAUDE_TEMPERATURE, 0.7, { max: 1, integer: false }),
+            maxTokens: parseNumberSetting('CLAUDE_MAX_TOKENS', env.CLAUDE_MAX_TOKENS, 1000, { min: 1 }),
+        },
+        subjectModel: env.CLAUDE_SUBJECT_MODEL || 'claude-sonnet-4-5-20250929',
+        classificationModel: env.CLAUDE_CLASSIFICATION_MODEL || 'claude-sonnet-4-5-20250929',
+        factCheckModel: env.CLAUDE_FACT_CHECK_MODEL || 'claude-sonnet-4-5-20250929',
+        // USD per million tokens by model id or prefix, on top of the built-in prices
+        pricing: parsePriceTable(env.CLAUDE_PRICING),
+    },
+    ai: {
+        provider: aiProvider,
+        // Offline provider used when AI_PROVIDER=mock
+        mock: {
+            latencyMs: parseNumberSetting('MOCK_AI_LATENCY_MS', env.MOCK_AI_LATENCY_MS, 300),
+            errorMode: (env.MOCK_AI_ERROR_MODE || 'none') as MockAIErrorMode,
+            errorRate: parseNumberSetting('MOCK_AI_ERROR_RATE', env.MOCK_AI_ERROR_RATE, 1, { max: 1, integer: false }),
+            seed: parseNumberSetting('MOCK_AI_SEED', env.MOCK_AI_SEED, 1, { min: Number.MIN_SAFE_INTEGER }),
+        },
     },
     zoho: {
         clientId: env.ZOHO_CLIENT_ID || '',
         clientSecret: env.ZOHO_CLIENT_SECRET || '',
         refreshToken: env.ZOHO_REFRESH_TOKEN || '',
         emailAddress: env.ZOHO_EMAIL_ADDRESS || '',
+        // Looked up from the accounts API when empty
+        accountId: env.ZOHO_ACCOUNT_ID || undefined,
+    },
+    email: {
+        transport: emailTransport,
+        // Default sender address for outbound emails
+        fromAddress: env.EMAIL_FROM_ADDRESS || env.ZOHO_FROM_EMAIL ||
+            (emailTransport === 'smtp' ? env.SMTP_USERNAME : env.ZOHO_EMAIL_ADDRESS) || '',
+        // Emails scoring below this on the pre-send check (0-100) are not sent; null never blocks
+        minLintScore: parseMinLintScore(env.SEND_LINT_MIN_SCORE),
+    },
+    smtp: {
+        host: env.SMTP_HOST || '',
+        port: parseNumberSetting('SMTP_PORT', env.SMTP_PORT, 587, { min: 1, max: 65535 }),
+        secure: env.SMTP_SECURE === 'true',
+        requireTls: env.SMTP_REQUIRE_TLS !== 'false',
+        username: env.SMTP_USERNAME || '',
+        password: env.SMTP_PASSWORD || '',
+        authMethod: (env.SMTP_AUTH_METHOD || undefined) as 'PLAIN' | 'LOGIN' | undefined,
+        clientName: env.SMTP_CLIENT_NAME || 'localhost',
+        rejectUnauthorized: env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+        timeoutMs: parseNumberSetting('SMTP_TIMEOUT_MS', env.SMTP_TIMEOUT_MS, 30000, { min: 1 }),
+    },
+    imap: {
+        enabled: env.IMAP_ENABLED === 'true',
+        host: env.IMAP_HOST || '',
+        port: parseNumberSetting('IMAP_PORT', env.IMAP_PORT, 993, { min: 1, max: 65535 }),
+        secure: env.IMAP_SECURE !== 'false',
+        requireTls: env.IMAP_REQUIRE_TLS !== 'false',
+        username: env.IMAP_USERNAME || '',
+        password: env.IMAP_PASSWORD || '',
+        rejectUnauthorized: env.IMAP_TLS_REJECT_UNAUTHORIZED !== 'false',
+        timeoutMs: parseNumberSetting('IMAP_TIMEOUT_MS', env.IMAP_TIMEOUT_MS, 30000, { min: 1 }),
+        mailbox: env.IMAP_MAILBOX || 'INBOX',
+        lookbackDays: parseNumberSetting('IMAP_LOOKBACK_DAYS', env.IMAP_LOOKBACK_DAYS, 30, { min: 1 }),
+        pollIntervalMs: parseNumberSetting('IMAP_POLL_INTERVAL_MS', env.IMAP_POLL_INTERVAL_MS, 120000, { min: 1000, max: MAX_INTERVAL_MS }),
+    },
+    replyClassification: {
+        // Verdicts below this confidence (0-1) wait for manual review
+        reviewThreshold: parseNumberSetting('REPLY_REVIEW_THRESHOLD', env.REPLY_REVIEW_THRESHOLD, 0.7, { max: 1, integer: false }),
     },
     database: {
         path: env.DATABASE_PATH || './data/cold_email.db',
+        // Apply pending migrations on startup; off to migrate through /api/database/migrations
+        autoMigrate: env.DATABASE_AUTO_MIGRATE !== 'false',
+    },
+    sendQueue: {
+        enabled: env.SEND_QUEUE_ENABLED !== 'false',
+        pollIntervalMs: parseNumberSetting('SEND_QUEUE_POLL_INTERVAL_MS', env.SEND_QUEUE_POLL_INTERVAL_MS, 15000, { min: 1000, max: MAX_INTERVAL_MS }),
+    },
+    sequences: {
+        enabled: env.SEQUENCES_ENABLED !== 'false',
+        pollIntervalMs: parseNumberSetting('SEQUENCES_POLL_INTERVAL_MS', env.SEQUENCES_POLL_INTERVAL_MS, 300000, { min: 1000, max: MAX_INTERVAL_MS }),
+    },
+    scraping: {
+        // Pages read per website, counting the one entered; 1 reads only that page
+        maxPages: parseNumberSetting('SCRAPE_MAX_PAGES', env.SCRAPE_MAX_PAGES, 5, { min: 1 }),
+        // 'auto' fetches pages directly and only opens a browser when that falls short
+        mode: (env.SCRAPE_MODE || 'auto') as 'auto' | 'http' | 'browser',
+        // How long a successful scrape is served from its snapshot; 0 always scrapes
+        cacheTtlMs: parseNumberSetting('SCRAPE_CACHE_TTL_MS', env.SCRAPE_CACHE_TTL_MS, 86400000),
+    },
+    websiteChecks: {
+        // Off by default: every check scrapes each saved business's website
+        enabled: env.WEBSITE_CHECKS_ENABLED === 'true',
+        intervalMs: parseNumberSetting('WEBSITE_CHECKS_INTERVAL_MS', env.WEBSITE_CHECKS_INTERVAL_MS, 86400000, { min: 1000, max: MAX_INTERVAL_MS }),
     },
 };
 
 export function validateServerConfig(): { isValid: boolean; missingKeys: string[] } {
     const requiredKeys = [
-        'CLAUDE_API_KEY',
-        'ZOHO_CLIENT_ID',
-        'ZOHO_CLIENT_SECRET',
-        'ZOHO_REFRESH_TOKEN',
-        'ZOHO_EMAIL_ADDRESS',
+        ...(aiProvider === 'anthropic' ? ['CLAUDE_API_KEY'] : []),
+        ...(emailTransport === 'smtp'
+            ? ['SMTP_HOST']
+            : ['ZOHO_CLIENT_ID', 'ZOHO_CLIENT_SECRET', 'ZOHO_REFRESH_TOKEN', 'ZOHO_EMAIL_ADDRESS']),
     ];
 
     const missingKeys = requiredKeys.filter(key => !env[key]);
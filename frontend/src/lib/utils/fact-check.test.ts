@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { highlightUnsupportedClaims } from './fact-check.js';
+
+describe('Fact check highlighting', () => {
+    const mark = (text: string) =>
+        `<mark class="bg-red-100 text-red-900 rounded px-0.5" title="Not supported by the business info">${text}</mark>`;
+
+    it('marks unsupported claims and leaves supported ones alone', () => {
+        const html = '<p>Congrats on winning Best Bakery 2023. I saw you offer catering.</p>';
+
+        const result = highlightUnsupportedClaims(html, [
+            { claim: 'winning Best Bakery 2023.', supported: false },
+            { claim: 'you offer catering', supported: true, evidence: 'Services: Catering' }
+        ]);
+
+        expect(result).toBe(`<p>Congrats on ${mark('winning Best Bakery 2023')}. I saw you offer catering.</p>`);
+    });
+
+    it('matches claims across inline tags, line breaks and entities', () => {
+        const html = '<p>Your <strong>three\nlocations</strong> in Smith &amp; Sons Plaza</p>';
+
+        const result = highlightUnsupportedClaims(html, [{ claim: 'three locations in Smith & Sons Plaza', supported: false }]);
+
+        expect(result).toBe(`<p>Your <strong>${mark('three\nlocations</strong> in Smith &amp; Sons Plaza')}</p>`);
+    });
+
+    it('leaves the email unchanged when a claim is not quoted exactly', () => {
+        const html = '<p>You opened in <a href="https://example.com/2019">2019</a>.</p>';
+
+        expect(highlightUnsupportedClaims(html, [{ claim: 'founded in 2019', supported: false }])).toBe(html);
+        expect(highlightUnsupportedClaims(html, [{ claim: 'example.com/2019', supported: false }])).toBe(html);
+    });
+});
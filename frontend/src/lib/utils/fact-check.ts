@@ -0,0 +1,55 @@
+// Marks the claims a fact check found unsupported in an email's HTML, for the preview
+
+import type { FactClaim } from '../types/index.js';
+
+// Whitespace and inline tags that may sit between the words of a quoted claim
+const WORD_GAP = '(?:\\s|&nbsp;|</?(?:a|b|i|em|strong|span)\\b[^>]*>)+';
+
+/**
+ * Wrap the first place each unsupported claim appears in a <mark>. Claims the
+ * model did not quote exactly are left unmarked.
+ */
+export function highlightUnsupportedClaims(html: string, claims: FactClaim[]): string {
+    let result = html;
+
+    for (const claim of claims) {
+        if (claim.supported) {
+            continue;
+        }
+
+        const words = claim.claim.replace(/[.!,;:]+$/, '').split(/\s+/).filter(Boolean);
+        if (words.length === 0) {
+            continue;
+        }
+
+        const pattern = new RegExp(words.map(word => escapeRegExp(escapeHtml(word))).join(WORD_GAP), 'i');
+        // Only match text outside tags, so attributes are never split
+        result = replaceOutsideTags(result, pattern, match =>
+            `<mark class="bg-red-100 text-red-900 rounded px-0.5" title="Not supported by the business info">${match}</mark>`
+        );
+    }
+
+    return result;
+}
+
+function replaceOutsideTags(html: string, pattern: RegExp, replace: (match: string) => string): string {
+    const match = pattern.exec(html);
+    if (!match) {
+        return html;
+    }
+
+    const before = html.slice(0, match.index);
+    if (before.lastIndexOf('<') > before.lastIndexOf('>')) {
+        return html;
+    }
+
+    return before + replace(match[0]) + html.slice(match.index + match[0].length);
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { HtmlDocument, textContent } from './html-document.js';
+
+describe('HtmlDocument', () => {
+    const document = new HtmlDocument(`<!DOCTYPE html><html><head>
+        <title>Rise &amp; Shine</title>
+        <meta name="description" content="Bread &amp; cakes">
+        <script>if (a < b) { document.write('<p>not markup</p>'); }</script>
+    </head><body>
+        <header class="site-header"><nav><a href="/about">About</a><a href='/contact'>Contact <b>us</b></a></nav></header>
+        <p>First paragraph<div class="hero-intro"><p>Second</div>
+        <ul><li>Bread<li>Cakes</ul>
+        <img src="logo.png" alt="Rise"><!-- <p>commented out</p> -->
+    </body></html>`);
+
+    it('parses unclosed, void and raw-text elements the way a browser does', () => {
+        expect(document.querySelectorAll('p').map(textContent)).toEqual(['First paragraph', 'Second']);
+        expect(document.querySelectorAll('li').map(textContent)).toEqual(['Bread', 'Cakes']);
+        expect(textContent(document.querySelector('title')!)).toBe('Rise & Shine');
+        expect(document.querySelector('script')?.children).toEqual([
+            "if (a < b) { document.write('<p>not markup</p>'); }"
+        ]);
+        expect(textContent(document.querySelector('head')!)).not.toContain('document.write');
+    });
+
+    it('matches attribute, combinator and pseudo-class selectors', () => {
+        expect(document.querySelector('meta[name="description"]')?.attributes.content).toBe('Bread & cakes');
+        expect(document.querySelectorAll('nav a[href], header a[href]').map(a => a.attributes.href)).toEqual(['/about', '/contact']);
+        expect(document.querySelectorAll('[class*="header"] > nav > a').map(textContent)).toEqual(['About', 'Contact us']);
+        expect(document.querySelectorAll('[class*="hero"] p').map(textContent)).toEqual(['Second']);
+        expect(document.querySelectorAll('p:first-of-type').map(textContent)).toEqual(['First paragraph', 'Second']);
+        expect(document.querySelector('a[href^="/con"]')).not.toBeNull();
+        expect(document.querySelector('[class~="site-header"]')?.tagName).toBe('header');
+        expect(document.querySelector('div.hero-intro > p')).not.toBeNull();
+        expect(document.querySelector('#main, .hero')).toBeNull();
+        expect(document.querySelector('img[alt$="ise"]')?.attributes.src).toBe('logo.png');
+        expect(document.querySelector('section')).toBeNull();
+    });
+});
@@ -0,0 +1,294 @@
+// Minimal HTML parser and CSS selector matcher for reading fetched pages without a
+// browser. It is forgiving rather than spec-complete: enough to run the scraper's
+// extraction rules over static HTML the same way they run in Playwright.
+//
+// Selectors support tag names, #id, .class, [attr], [attr="v"], [attr*="v"], [attr^="v"],
+// [attr$="v"], [attr~="v"], :first-of-type, descendant and child combinators,
+// and comma-separated lists.
+
+export interface HtmlElement {
+    tagName: string;
+    attributes: Record<string, string>;
+    children: HtmlNode[];
+    parent: HtmlElement | null;
+}
+
+export type HtmlNode = HtmlElement | string;
+
+export class HtmlDocument {
+    readonly root: HtmlElement;
+    private elements: HtmlElement[];
+
+    constructor(html: string) {
+        this.root = parseHtml(html);
+        this.elements = descendants(this.root);
+    }
+
+    /**
+     * First element in document order that matches the selector list
+     */
+    querySelector(selector: string): HtmlElement | null {
+        const selectors = parseSelectorList(selector);
+        return this.elements.find(element => selectors.some(compounds => matches(element, compounds))) ?? null;
+    }
+
+    /**
+     * Every element that matches the selector list, in document order
+     */
+    querySelectorAll(selector: string): HtmlElement[] {
+        const selectors = parseSelectorList(selector);
+        return this.elements.filter(element => selectors.some(compounds => matches(element, compounds)));
+    }
+}
+
+// Elements that never have children or a closing tag
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+// Elements whose content is text up to their closing tag, never markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'noscript']);
+
+// Content that is not shown on the page and so is left out of textContent
+const HIDDEN_ELEMENTS = new Set(['script', 'style', 'noscript', 'template']);
+
+// Starting one of these closes an open <p>, as browsers do
+const CLOSES_PARAGRAPH = new Set([
+    'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'fieldset', 'footer', 'form', 'h1', 'h2', 'h3',
+    'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', trade: '™',
+    hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', pound: '£', euro: '€'
+};
+
+/**
+ * Parse HTML into a tree under a synthetic root element
+ */
+export function parseHtml(html: string): HtmlElement {
+    const root: HtmlElement = { tagName: '#root', attributes: {}, children: [], parent: null };
+    const stack: HtmlElement[] = [root];
+    const current = () => stack[stack.length - 1];
+    const tagPattern = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)[^>]*>|<([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+
+    let position = 0;
+    let match: RegExpExecArray | null;
+    while ((match = tagPattern.exec(html)) !== null) {
+        if (match.index > position) {
+            current().children.push(decodeEntities(html.slice(position, match.index)));
+        }
+        position = tagPattern.lastIndex;
+
+        const [, closingTag, openingTag, attributeSource] = match;
+        if (closingTag) {
+            const tagName = closingTag.toLowerCase();
+            const index = stack.map(element => element.tagName).lastIndexOf(tagName);
+            if (index > 0) {
+                stack.length = index;
+            }
+            continue;
+        }
+        if (!openingTag) {
+            continue; // comment, doctype or processing instruction
+        }
+
+        const tagName = openingTag.toLowerCase();
+        if ((CLOSES_PARAGRAPH.has(tagName) && current().tagName === 'p') || (tagName === 'li' && current().tagName === 'li')) {
+            stack.pop();
+        }
+
+        const element: HtmlElement = {
+            tagName,
+            attributes: parseAttributes(attributeSource),
+            children: [],
+            parent: current()
+        };
+        current().children.push(element);
+
+        if (RAW_TEXT_ELEMENTS.has(tagName)) {
+            const endPattern = new RegExp(`</${tagName}`, 'gi');
+            endPattern.lastIndex = position;
+            const end = endPattern.exec(html)?.index ?? -1;
+            const content = html.slice(position, end === -1 ? html.length : end);
+            element.children.push(tagName === 'script' || tagName === 'style' ? content : decodeEntities(content));
+            if (end === -1) {
+                position = html.length;
+                break;
+            }
+            tagPattern.lastIndex = html.indexOf('>', end) + 1 || html.length;
+            position = tagPattern.lastIndex;
+        } else if (!VOID_ELEMENTS.has(tagName) && !/\/\s*$/.test(attributeSource)) {
+            stack.push(element);
+        }
+    }
+
+    if (position < html.length) {
+        current().children.push(decodeEntities(html.slice(position)));
+    }
+
+    return root;
+}
+
+/**
+ * The element's visible text, as the DOM's textContent gives it but without
+ * the contents of scripts and styles
+ */
+export function textContent(element: HtmlElement): string {
+    return element.children
+        .map(child => typeof child === 'string' ? child : HIDDEN_ELEMENTS.has(child.tagName) ? '' : textContent(child))
+        .join('');
+}
+
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+            const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+            return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+        }
+        return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+        const name = match[1].toLowerCase();
+        if (!(name in attributes)) {
+            attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+        }
+    }
+    return attributes;
+}
+
+function descendants(element: HtmlElement): HtmlElement[] {
+    const found: HtmlElement[] = [];
+    for (const child of element.children) {
+        if (typeof child !== 'string') {
+            found.push(child, ...descendants(child));
+        }
+    }
+    return found;
+}
+
+interface AttributeTest {
+    name: string;
+    operator?: '=' | '*=' | '^=' | '$=' | '~=';
+    value?: string;
+}
+
+interface CompoundSelector {
+    tagName?: string;
+    attributes: AttributeTest[];
+    firstOfType: boolean;
+    // How this compound relates to the one before it
+    combinator: 'descendant' | 'child';
+}
+
+// Each selector is a list of compounds, leftmost first
+function parseSelectorList(selector: string): CompoundSelector[][] {
+    return splitOutsideQuotes(selector, ',').map(part => {
+        const compounds: CompoundSelector[] = [];
+        let combinator: CompoundSelector['combinator'] = 'descendant';
+        const tokens = part.trim().match(/>|(?:[^\s>"'[]|\[(?:"[^"]*"|'[^']*'|[^\]])*\])+/g) || [];
+
+        for (const token of tokens) {
+            if (token === '>') {
+                combinator = 'child';
+                continue;
+            }
+
+            const tagName = token.match(/^[a-zA-Z][\w-]*|^\*/)?.[0];
+            const attributes: AttributeTest[] = [...token.matchAll(/\[\s*([\w:-]+)\s*(?:([*^$~]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+)))?\s*\]/g)]
+                .map(match => ({
+                    name: match[1].toLowerCase(),
+                    operator: match[2] as AttributeTest['operator'],
+                    value: match[3] ?? match[4] ?? match[5]
+                }));
+
+            // #id and .class, outside any [attribute] test
+            for (const match of token.replace(/\[[^\]]*\]/g, '').matchAll(/([#.])([\w-]+)/g)) {
+                attributes.push(match[1] === '#'
+                    ? { name: 'id', operator: '=', value: match[2] }
+                    : { name: 'class', operator: '~=', value: match[2] });
+            }
+
+            compounds.push({
+                tagName: tagName && tagName !== '*' ? tagName.toLowerCase() : undefined,
+                attributes,
+                firstOfType: token.includes(':first-of-type'),
+                combinator
+            });
+            combinator = 'descendant';
+        }
+
+        return compounds;
+    }).filter(compounds => compounds.length > 0);
+}
+
+function matches(element: HtmlElement, compounds: CompoundSelector[], index = compounds.length - 1): boolean {
+    if (!matchesCompound(element, compounds[index])) {
+        return false;
+    }
+    if (index === 0) {
+        return true;
+    }
+
+    if (compounds[index].combinator === 'child') {
+        return element.parent !== null && matches(element.parent, compounds, index - 1);
+    }
+
+    for (let ancestor = element.parent; ancestor; ancestor = ancestor.parent) {
+        if (matches(ancestor, compounds, index - 1)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function matchesCompound(element: HtmlElement, compound: CompoundSelector): boolean {
+    if (element.tagName === '#root' || (compound.tagName && element.tagName !== compound.tagName)) {
+        return false;
+    }
+
+    const attributesMatch = compound.attributes.every(({ name, operator, value = '' }) => {
+        const actual = element.attributes[name];
+        if (actual === undefined) {
+            return false;
+        }
+        switch (operator) {
+            case '=': return actual === value;
+            case '*=': return actual.includes(value);
+            case '^=': return actual.startsWith(value);
+            case '$=': return actual.endsWith(value);
+            case '~=': return actual.split(/\s+/).includes(value);
+            default: return true;
+        }
+    });
+    if (!attributesMatch) {
+        return false;
+    }
+
+    if (compound.firstOfType) {
+        const firstSibling = element.parent?.children.find(child => typeof child !== 'string' && child.tagName === element.tagName);
+        return firstSibling === element;
+    }
+    return true;
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let quote: string | null = null;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            quote = char === quote ? null : quote;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === separator) {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.slice(start));
+    return parts;
+}
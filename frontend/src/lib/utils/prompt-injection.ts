@@ -0,0 +1,243 @@
+// Guards the prompts against instructions planted in a business's website. Scraped
+// text is data: sentences that read like instructions to the model are removed,
+// fields are capped, and what is left goes into the prompt inside a delimited block.
+
+import type { ScrapedData } from '../types/index.js';
+
+export interface InjectionDetection {
+    // ScrapedData field the text was found in, e.g. 'description' or 'services'
+    field: string;
+    // Name of the pattern that matched
+    pattern: string;
+    // The text that was removed, shortened for the log
+    text: string;
+}
+
+export interface SanitizedScrapedData {
+    data: ScrapedData;
+    detections: InjectionDetection[];
+}
+
+// Longest text kept per field; longer text is cut at a word boundary
+export const SCRAPED_FIELD_LIMITS = {
+    businessName: 100,
+    description: 500,
+    service: 100,
+    maxServices: 10,
+    keyContent: 200,
+    maxKeyContent: 15,
+    contact: 200,
+    openingHours: 100,
+    maxOpeningHours: 14,
+    priceRange: 50
+};
+
+// Tag that marks scraped text in a prompt
+export const UNTRUSTED_CONTENT_TAG = 'website_content';
+
+// Checked in order; the first match names the detection
+const INJECTION_PATTERNS: { name: string; pattern: RegExp }[] = [
+    {
+        name: 'ignore_instructions',
+        pattern: /\b(ignore|disregard|forget|override)\b[^.!?\n]{0,40}\b(instructions?|prompts?|rules|directions|guidelines)\b/i
+    },
+    {
+        name: 'role_override',
+        pattern: /\byou are (now|no longer)\b|\bfrom now on,? you\b|\bpretend (to be|you are)\b|\bdeveloper mode\b|\bjailbreak/i
+    },
+    {
+        name: 'addresses_the_model',
+        pattern: /\b(dear|attention|note to|hey|hi)\s+(ai|assistant|language model|llm|chatgpt|claude|gpt)\b|\bif you are an? (ai|language model|llm|assistant|bot)\b|\b(ai|llm|language model|assistant|bot)s?( assistants?| models?)? (reading|processing|summari[sz]ing)\b/i
+    },
+    {
+        name: 'prompt_reference',
+        pattern: /\b(system prompt|new instructions|hidden instructions|prompt injection)\b/i
+    },
+    {
+        name: 'role_marker',
+        pattern: /(^|\n)\s*(system|assistant|human)\s*:|<\|?(im_start|im_end|endoftext)\|?>|\[\/?INST\]|<\/?\s*(system|instructions?|prompt)\s*>/i
+    },
+    {
+        name: 'output_directive',
+        pattern: /\b(in|to) (your|the) (email|reply|response|output)\b[^.!?\n]{0,60}\b(include|mention|say|add|insert|link|write|recommend)\b|\b(respond|reply|answer) (only )?with\b|\b(do not|don't|never) (mention|reveal|tell)\b[^.!?\n]{0,40}\b(user|sender|instructions?)\b/i
+    },
+    {
+        name: 'delimiter',
+        pattern: new RegExp(`<\\/?\\s*${UNTRUSTED_CONTENT_TAG}\\b`, 'i')
+    }
+];
+
+const LOGGED_TEXT_LENGTH = 120;
+
+/**
+ * Name of the first injection pattern the text matches, or null when it looks
+ * like ordinary website copy
+ */
+export function findInjection(text: string): string | null {
+    return INJECTION_PATTERNS.find(({ pattern }) => pattern.test(text))?.name ?? null;
+}
+
+/**
+ * Remove instruction-like text from scraped data and cap each field. Running it
+ * again on its own output finds nothing further.
+ */
+export function sanitizeScrapedData(data: ScrapedData): SanitizedScrapedData {
+    const detections: InjectionDetection[] = [];
+
+    // Drops the sentences of a text field that match, keeping the rest
+    const cleanText = (field: string, text: string | undefined, limit: number): string => {
+        const sentences = (text || '').split(/(?<=[.!?])\s+|\n+/).filter(sentence => {
+            const pattern = findInjection(sentence);
+            if (pattern) {
+                detections.push({ field, pattern, text: truncate(sentence, LOGGED_TEXT_LENGTH) });
+            }
+            return !pattern;
+        });
+        return truncate(sentences.join(' '), limit);
+    };
+
+    // Drops the items of a list field that match
+    const cleanList = (field: string, items: string[] | undefined, limit: number, maxItems: number): string[] =>
+        (items || [])
+            .filter(item => {
+                const pattern = findInjection(item);
+                if (pattern) {
+                    detections.push({ field, pattern, text: truncate(item, LOGGED_TEXT_LENGTH) });
+                }
+                return !pattern;
+            })
+            .map(item => truncate(item, limit))
+            .filter(Boolean)
+            .slice(0, maxItems);
+
+    const contact = (field: string, value: string | undefined): string | undefined =>
+        value ? cleanText(field, value, SCRAPED_FIELD_LIMITS.contact) || undefined : undefined;
+
+    const sanitized: ScrapedData = {
+        businessName: cleanText('businessName', data.businessName, SCRAPED_FIELD_LIMITS.businessName),
+        description: cleanText('description', data.description, SCRAPED_FIELD_LIMITS.description),
+        services: cleanList('services', data.services, SCRAPED_FIELD_LIMITS.service, SCRAPED_FIELD_LIMITS.maxServices),
+        contactInfo: {
+            email: contact('contactInfo.email', data.contactInfo?.email),
+            phone: contact('contactInfo.phone', data.contactInfo?.phone),
+            address: contact('contactInfo.address', data.contactInfo?.address)
+        },
+        socialMedia: {
+            linkedin: contact('socialMedia.linkedin', data.socialMedia?.linkedin),
+            twitter: contact('socialMedia.twitter', data.socialMedia?.twitter),
+            facebook: contact('socialMedia.facebook', data.socialMedia?.facebook)
+        },
+        keyContent: cleanList('keyContent', data.keyContent, SCRAPED_FIELD_LIMITS.keyContent, SCRAPED_FIELD_LIMITS.maxKeyContent)
+    };
+
+    if (data.openingHours) {
+        sanitized.openingHours = cleanList('openingHours', data.openingHours, SCRAPED_FIELD_LIMITS.openingHours, SCRAPED_FIELD_LIMITS.maxOpeningHours);
+    }
+    if (data.priceRange) {
+        sanitized.priceRange = cleanText('priceRange', data.priceRange, SCRAPED_FIELD_LIMITS.priceRange) || undefined;
+    }
+    // Numbers cannot carry instructions; they are only coerced back to numbers
+    if (data.geo) {
+        sanitized.geo = { latitude: Number(data.geo.latitude), longitude: Number(data.geo.longitude) };
+    }
+    if (data.foundingYear !== undefined) {
+        sanitized.foundingYear = Number(data.foundingYear);
+    }
+    if (data.aggregateRating) {
+        sanitized.aggregateRating = {
+            ratingValue: Number(data.aggregateRating.ratingValue),
+            ...(data.aggregateRating.reviewCount !== undefined && { reviewCount: Number(data.aggregateRating.reviewCount) }),
+            ...(data.aggregateRating.bestRating !== undefined && { bestRating: Number(data.aggregateRating.bestRating) })
+        };
+    }
+
+    // Sources are kept only for the facts that were left untouched
+    if (data.sources) {
+        const kept = new Set([
+            sanitized.businessName,
+            sanitized.description,
+            ...sanitized.services,
+            ...sanitized.keyContent,
+            ...Object.values(sanitized.contactInfo),
+            ...Object.values(sanitized.socialMedia),
+            sanitized.openingHours?.join('; '),
+            sanitized.priceRange
+        ]);
+        sanitized.sources = data.sources.filter(source =>
+            kept.has(source.value) || ['geo', 'foundingYear', 'aggregateRating'].includes(source.field)
+        );
+    }
+
+    return { data: sanitized, detections };
+}
+
+/**
+ * Wrap scraped text in the delimited block the prompts tell the model to treat
+ * as data. Copies of the delimiter inside the text are removed so it cannot
+ * close the block early.
+ */
+export function untrustedBlock(text: string): string {
+    const body = text.replace(new RegExp(`<\\/?\\s*${UNTRUSTED_CONTENT_TAG}\\s*>`, 'gi'), '').trim();
+    return `<${UNTRUSTED_CONTENT_TAG}>\n${body}\n</${UNTRUSTED_CONTENT_TAG}>`;
+}
+
+/**
+ * Quote the values of a prompt template that were taken from a website, named
+ * by their prefix such as 'scraped.', so a rendered prompt marks them like the built-in one
+ */
+export function quoteUntrustedValues<T extends Partial<Record<string, string | string[]>>>(values: T, prefix: string): T {
+    const quoted: Partial<Record<string, string | string[]>> = { ...values };
+    for (const [name, value] of Object.entries(values)) {
+        const text = (Array.isArray(value) ? value.join(', ') : value || '').trim();
+        if (name.startsWith(prefix) && text) {
+            quoted[name] = untrustedBlock(text);
+        }
+    }
+    return quoted as T;
+}
+
+/**
+ * Drop the lines of other text taken from a website, such as the hooks made
+ * from its changes, that read like instructions
+ */
+export function sanitizeScrapedLines(field: string, lines: string[]): { lines: string[]; detections: InjectionDetection[] } {
+    const detections: InjectionDetection[] = [];
+    const kept = lines.filter(line => {
+        const pattern = findInjection(line);
+        if (pattern) {
+            detections.push({ field, pattern, text: truncate(line, LOGGED_TEXT_LENGTH) });
+        }
+        return !pattern;
+    });
+    return { lines: kept, detections };
+}
+
+/**
+ * Log what was removed from a business's scraped data, so sites that plant
+ * instructions can be found in the logs
+ */
+export function logInjectionDetections(
+    detections: InjectionDetection[],
+    business: { id?: number; name?: string }
+): void {
+    if (detections.length === 0) {
+        return;
+    }
+
+    const label = [business.name && `"${business.name}"`, business.id && `#${business.id}`].filter(Boolean).join(' ') || 'unknown business';
+    console.warn(`${new Date().toISOString()} [prompt-injection] Removed ${detections.length} instruction-like passage${detections.length === 1 ? '' : 's'} from the website content of ${label}:`);
+    for (const detection of detections) {
+        console.warn(`  ${detection.field} (${detection.pattern}): ${detection.text}`);
+    }
+}
+
+function truncate(text: string, length: number): string {
+    const trimmed = text.trim();
+    if (trimmed.length <= length) {
+        return trimmed;
+    }
+
+    const cut = trimmed.slice(0, length - 1);
+    const wordEnd = cut.lastIndexOf(' ');
+    return `${(wordEnd > length / 2 ? cut.slice(0, wordEnd) : cut).trimEnd()}…`;
+}
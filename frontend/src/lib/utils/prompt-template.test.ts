@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildPromptValues,
+    findPromptVariables,
+    renderPromptTemplate,
+    STARTER_PROMPT_TEMPLATE,
+    validatePromptTemplate
+} from './prompt-template.js';
+
+describe('Prompt templates', () => {
+    const values = buildPromptValues({
+        businessName: 'Rise Bakery',
+        scrapedData: {
+            businessName: 'Rise Bakery & Cafe',
+            description: 'Neighbourhood sourdough bakery',
+            services: ['Bread', 'Catering'],
+            contactInfo: { email: 'hello@rise.example' },
+            socialMedia: {},
+            keyContent: []
+        },
+        sender: { name: 'Sam', title: 'Designer' }
+    });
+
+    it('fills in text and list variables', () => {
+        const result = renderPromptTemplate('Write to {{business.name}} ({{ business.email }}) about {{scraped.services}}.', values);
+
+        expect(result.prompt).toBe('Write to Rise Bakery (hello@rise.example) about Bread, Catering.');
+        expect(result.missing).toEqual([]);
+    });
+
+    it('reports variables that have no value', () => {
+        const result = renderPromptTemplate('{{sender.name}} at {{sender.company}}; {{scraped.keyContent}}', values);
+
+        expect(result.prompt).toBe('Sam at ; ');
+        expect(result.missing).toEqual(['sender.company', 'scraped.keyContent']);
+    });
+
+    it('rejects empty prompts and unknown variables', () => {
+        expect(validatePromptTemplate(STARTER_PROMPT_TEMPLATE)).toBeNull();
+        expect(validatePromptTemplate('  ')).toBe('Prompt content is required');
+        expect(validatePromptTemplate('Hi {{business.nmae}} and {{owner}}')).toBe(
+            'Unknown prompt variables: {{business.nmae}}, {{owner}}'
+        );
+    });
+
+    it('lists each variable once, in order of first use', () => {
+        expect(findPromptVariables('{{sender.name}} {{business.name}} {{sender.name}}')).toEqual(['sender.name', 'business.name']);
+    });
+});
@@ -0,0 +1,148 @@
+// Prompt library templates. A prompt refers to {{group.field}} variables that are
+// filled in from the business, its scraped data, the sender and the personal notes.
+
+import type { ScrapedData, SenderDetails } from '../types/index.js';
+
+export type PromptVariableType = 'text' | 'list';
+
+export interface PromptVariable {
+    name: string;
+    type: PromptVariableType;
+    description: string;
+}
+
+// Every variable a prompt may use; list variables render as comma-separated text
+export const PROMPT_VARIABLES: PromptVariable[] = [
+    { name: 'business.name', type: 'text', description: 'Business name' },
+    { name: 'business.website', type: 'text', description: 'Website URL' },
+    { name: 'business.email', type: 'text', description: 'Contact email' },
+    { name: 'business.description', type: 'text', description: 'Business info entered by hand' },
+    { name: 'scraped.description', type: 'text', description: 'Description found on the website' },
+    { name: 'scraped.services', type: 'list', description: 'Services found on the website' },
+    { name: 'scraped.keyContent', type: 'list', description: 'Key content found on the website' },
+    { name: 'scraped.phone', type: 'text', description: 'Phone number found on the website' },
+    { name: 'scraped.address', type: 'text', description: 'Address found on the website' },
+    { name: 'sender.name', type: 'text', description: 'Your name' },
+    { name: 'sender.title', type: 'text', description: 'Your title' },
+    { name: 'sender.company', type: 'text', description: 'Your company' },
+    { name: 'sender.email', type: 'text', description: 'Your email' },
+    { name: 'sender.phone', type: 'text', description: 'Your phone' },
+    { name: 'notes.personal', type: 'text', description: 'Personal notes and analysis' }
+];
+
+// Values to render a prompt with, keyed by variable name
+export type PromptValues = Partial<Record<string, string | string[]>>;
+
+// What the values of a render are taken from
+export interface PromptSource {
+    businessName?: string;
+    websiteUrl?: string;
+    contactEmail?: string;
+    description?: string;
+    scrapedData?: ScrapedData;
+    sender?: SenderDetails;
+    personalNotes?: string;
+}
+
+export interface RenderedPrompt {
+    prompt: string;
+    // Variables the prompt uses that had no value, rendered as empty text
+    missing: string[];
+}
+
+// Where a new prompt starts; the JSON reply format is added by ClaudeService
+export const STARTER_PROMPT_TEMPLATE = `Write a personalized cold email to {{business.name}} based on this info:
+
+BUSINESS INFO:
+{{business.description}}
+
+FROM THEIR WEBSITE:
+{{scraped.description}}
+Services: {{scraped.services}}
+
+PERSONAL NOTES:
+{{notes.personal}}
+
+SENDER:
+{{sender.name}}, {{sender.title}} at {{sender.company}}
+
+REQUIREMENTS:
+- Keep it 150-250 words
+- Show you've researched them
+- Clear value proposition
+- Casual, friendly tone (not stiff or corporate)
+- End with a low-commitment call to action
+- DO NOT include a sign-off
+- Subject line under 50 characters, specific to the business, no spam trigger words`;
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Names of the variables a prompt uses, in order of first use
+ */
+export function findPromptVariables(content: string): string[] {
+    const names = [...content.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+    return [...new Set(names)];
+}
+
+/**
+ * Check a prompt before it is saved
+ * @returns An error message, or null when the prompt is valid
+ */
+export function validatePromptTemplate(content: unknown): string | null {
+    if (typeof content !== 'string' || !content.trim()) {
+        return 'Prompt content is required';
+    }
+
+    const known = new Set(PROMPT_VARIABLES.map(variable => variable.name));
+    const unknown = findPromptVariables(content).filter(name => !known.has(name));
+    if (unknown.length > 0) {
+        return `Unknown prompt variables: ${unknown.map(name => `{{${name}}}`).join(', ')}`;
+    }
+
+    return null;
+}
+
+/**
+ * Collect the variable values for a business and sender
+ */
+export function buildPromptValues(source: PromptSource): PromptValues {
+    const { scrapedData, sender } = source;
+
+    return {
+        'business.name': source.businessName || scrapedData?.businessName,
+        'business.website': source.websiteUrl,
+        'business.email': source.contactEmail || scrapedData?.contactInfo?.email,
+        'business.description': source.description,
+        'scraped.description': scrapedData?.description,
+        'scraped.services': scrapedData?.services,
+        'scraped.keyContent': scrapedData?.keyContent,
+        'scraped.phone': scrapedData?.contactInfo?.phone,
+        'scraped.address': scrapedData?.contactInfo?.address,
+        'sender.name': sender?.name,
+        'sender.title': sender?.title,
+        'sender.company': sender?.company,
+        'sender.email': sender?.email,
+        'sender.phone': sender?.phone,
+        'notes.personal': source.personalNotes
+    };
+}
+
+/**
+ * Fill in a prompt's variables. Variables without a value render as empty
+ * text and are reported so a preview can point them out.
+ */
+export function renderPromptTemplate(content: string, values: PromptValues): RenderedPrompt {
+    const missing = new Set<string>();
+
+    const prompt = content.replace(VARIABLE_PATTERN, (_match, name: string) => {
+        const value = values[name];
+        const text = (Array.isArray(value) ? value.join(', ') : value || '').trim();
+        if (!text) {
+            missing.add(name);
+        }
+        return text;
+    });
+
+    return { prompt, missing: [...missing] };
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { countResponses, isResponse, responseRate } from './response-stats.js';
+
+describe('response stats', () => {
+    it('counts sent emails and the settled responses to them', () => {
+        const counts = countResponses([
+            { sendStatus: 'sent', responseStatus: 'good_response' },
+            { sendStatus: 'sent', responseStatus: 'bad_response' },
+            { sendStatus: 'sent', responseStatus: 'no_response' },
+            { sendStatus: 'draft', responseStatus: 'unsent' }
+        ]);
+
+        expect(counts).toEqual({ sent: 3, responses: 2, goodResponses: 1 });
+        expect(isResponse({ responseStatus: 'no_response' })).toBe(false);
+    });
+
+    it('gives rates over sent emails to one decimal place', () => {
+        expect(responseRate(1, 3)).toBe(33.3);
+        expect(responseRate(2, 3)).toBe(66.7);
+        expect(responseRate(0, 0)).toBe(0);
+    });
+});
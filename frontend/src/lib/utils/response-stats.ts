@@ -0,0 +1,50 @@
+// Reply counting shared by the analytics endpoints. An email has a response once
+// its outcome is settled as good or bad, and rates are taken over emails sent.
+
+import type { Email } from '../types/database.js';
+
+export interface ResponseCounts {
+    sent: number;
+    responses: number;
+    goodResponses: number;
+}
+
+/**
+ * Whether the email got a reply that settled its outcome
+ */
+export function isResponse(email: Pick<Email, 'responseStatus'>): boolean {
+    return email.responseStatus === 'good_response' || email.responseStatus === 'bad_response';
+}
+
+/**
+ * Sent emails and the responses to them
+ */
+export function countResponses(emails: Pick<Email, 'sendStatus' | 'responseStatus'>[]): ResponseCounts {
+    const counts: ResponseCounts = { sent: 0, responses: 0, goodResponses: 0 };
+    for (const email of emails) {
+        if (email.sendStatus === 'sent') {
+            counts.sent++;
+        }
+        if (isResponse(email)) {
+            counts.responses++;
+        }
+        if (email.responseStatus === 'good_response') {
+            counts.goodResponses++;
+        }
+    }
+    return counts;
+}
+
+/**
+ * A fraction as a percentage to one decimal place
+ */
+export function toPercent(fraction: number): number {
+    return parseFloat((fraction * 100).toFixed(1));
+}
+
+/**
+ * Share of sent emails, as a percentage to one decimal place; 0 when none were sent
+ */
+export function responseRate(count: number, sent: number): number {
+    return sent > 0 ? toPercent(count / sent) : 0;
+}
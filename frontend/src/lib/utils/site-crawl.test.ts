@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { findCrawlTargets, mergeScrapedPages, parseSitemap } from './site-crawl.js';
+import type { ScrapedData } from '../types/index.js';
+
+function page(data: Partial<ScrapedData>): ScrapedData {
+    return {
+        businessName: '',
+        description: '',
+        services: [],
+        contactInfo: {},
+        socialMedia: {},
+        keyContent: [],
+        ...data
+    };
+}
+
+describe('Site crawl', () => {
+    it('picks one same-site page per kind, preferring navigation links', () => {
+        const targets = findCrawlTargets('https://risebakery.example/', [
+            { href: '/', text: 'Home' },
+            { href: '/our-story', text: 'Who we are' },
+            { href: 'https://www.risebakery.example/get-in-touch#form', text: 'Say hello' },
+            { href: 'https://facebook.com/risebakery/about', text: 'Facebook' },
+            { href: '/menu.pdf', text: 'Our services (PDF)' },
+            { href: '/blog/how-we-bake', text: 'Blog' }
+        ], [
+            'https://risebakery.example/about/',
+            'https://risebakery.example/services/catering',
+            'https://risebakery.example/services',
+            'https://risebakery.example/team'
+        ], 4);
+
+        expect(targets).toEqual([
+            { url: 'https://risebakery.example/our-story', kind: 'about' },
+            { url: 'https://risebakery.example/services', kind: 'services' },
+            { url: 'https://www.risebakery.example/get-in-touch', kind: 'contact' },
+            { url: 'https://risebakery.example/team', kind: 'team' }
+        ]);
+        expect(findCrawlTargets('https://risebakery.example/', [{ href: '/about' }, { href: '/team' }], [], 1)).toHaveLength(1);
+        expect(findCrawlTargets('https://risebakery.example/', [{ href: '/about' }], [], 0)).toEqual([]);
+    });
+
+    it('reads page URLs from a sitemap', () => {
+        const xml = '<?xml version="1.0"?><urlset><url><loc> https://risebakery.example/about </loc></url>'
+            + '<url><loc>https://risebakery.example/?p=1&amp;lang=en</loc></url></urlset>';
+
+        expect(parseSitemap(xml)).toEqual(['https://risebakery.example/about', 'https://risebakery.example/?p=1&lang=en']);
+    });
+
+    it('merges pages and records where each fact came from', () => {
+        const data = mergeScrapedPages([
+            {
+                url: 'https://risebakery.example/',
+                kind: 'home',
+                data: page({
+                    businessName: 'Rise Bakery',
+                    description: 'Fresh bread in Leeds',
+                    services: ['Bread', 'Cakes'],
+                    contactInfo: { email: 'hello@risebakery.example' },
+                    keyContent: ['Baked daily']
+                })
+            },
+            {
+                url: 'https://risebakery.example/about',
+                kind: 'about',
+                data: page({ businessName: 'About Us', description: 'Family bakery since 1998, baking sourdough daily.', foundingYear: 1998 })
+            },
+            {
+                url: 'https://risebakery.example/services',
+                kind: 'services',
+                data: page({ services: ['Catering', 'cakes'], keyContent: ['Baked daily', 'Weddings'] })
+            },
+            {
+                url: 'https://risebakery.example/contact',
+                kind: 'contact',
+                data: page({ contactInfo: { email: 'orders@risebakery.example', phone: '0113 496 0000' } })
+            }
+        ]);
+
+        expect(data.businessName).toBe('Rise Bakery');
+        expect(data.description).toBe('Family bakery since 1998, baking sourdough daily.');
+        expect(data.services).toEqual(['Catering', 'cakes', 'Bread']);
+        expect(data.contactInfo).toEqual({ email: 'orders@risebakery.example', phone: '0113 496 0000', address: '' });
+        expect(data.keyContent).toEqual(['Baked daily', 'Weddings']);
+        expect(data.sources).toContainEqual({ field: 'description', value: data.description, url: 'https://risebakery.example/about' });
+        expect(data.sources).toContainEqual({ field: 'services', value: 'Bread', url: 'https://risebakery.example/' });
+        expect(data.foundingYear).toBe(1998);
+        expect(data.sources).toContainEqual({ field: 'foundingYear', value: '1998', url: 'https://risebakery.example/about' });
+        expect(data.sources).toContainEqual({ field: 'contactInfo.phone', value: '0113 496 0000', url: 'https://risebakery.example/contact' });
+    });
+});
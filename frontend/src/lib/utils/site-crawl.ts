@@ -0,0 +1,203 @@
+// Picking and merging the pages of a multi-page scrape. The facts about a small
+// business are spread over its About, Services, Contact and Team pages; these
+// helpers find those pages among a site's links and combine what each one yields.
+
+import type { ScrapedData, ScrapedFactSource } from '../types/index.js';
+
+export type CrawlPageKind = 'home' | 'about' | 'services' | 'contact' | 'team';
+
+export interface CrawlLink {
+    href: string;
+    // Link text, when the link came from the page's navigation
+    text?: string;
+}
+
+export interface CrawlTarget {
+    url: string;
+    kind: CrawlPageKind;
+}
+
+export interface ScrapedPage {
+    url: string;
+    kind: CrawlPageKind;
+    data: ScrapedData;
+}
+
+// Visited in this order; the first pattern that matches a link's path or text wins
+const PAGE_KINDS: { kind: Exclude<CrawlPageKind, 'home'>; pattern: RegExp }[] = [
+    { kind: 'about', pattern: /\babout\b|who-?we-?are|our-?story|\bcompany\b|\bhistory\b/i },
+    { kind: 'services', pattern: /\bservices?\b|what-?we-?do|\bofferings?\b|\bsolutions\b|\bpricing\b/i },
+    { kind: 'contact', pattern: /\bcontact\b|get-?in-?touch|find-?us|\blocations?\b|\bvisit\b/i },
+    { kind: 'team', pattern: /\bteam\b|\bstaff\b|\bour-?people\b|\bmeet\b|\bleadership\b/i }
+];
+
+// Links to these are never pages about the business
+const SKIPPED_PATHS = /\.(pdf|jpe?g|png|gif|svg|webp|zip|docx?|xlsx?|mp4|mp3)$|\/(wp-admin|wp-login|cart|checkout|login|account|feed)\b/i;
+
+/**
+ * Pick up to `limit` same-origin pages worth visiting after the start page, one
+ * per kind. Navigation links are preferred over sitemap entries, then shorter paths.
+ */
+export function findCrawlTargets(startUrl: string, links: CrawlLink[], sitemapUrls: string[], limit: number): CrawlTarget[] {
+    if (limit <= 0) {
+        return [];
+    }
+
+    const start = new URL(startUrl);
+    const seen = new Set([pageKey(start)]);
+    const candidates: (CrawlTarget & { order: number; depth: number })[] = [];
+
+    const consider = (href: string, text: string, fromNav: boolean) => {
+        let url: URL;
+        try {
+            url = new URL(href, start);
+        } catch {
+            return;
+        }
+
+        if (!isSameSite(url, start) || !/^https?:$/.test(url.protocol) || SKIPPED_PATHS.test(url.pathname)) {
+            return;
+        }
+
+        const key = pageKey(url);
+        if (seen.has(key)) {
+            return;
+        }
+
+        const kind = PAGE_KINDS.find(({ pattern }) => pattern.test(url.pathname) || (fromNav && pattern.test(text)))?.kind;
+        if (!kind) {
+            return;
+        }
+
+        seen.add(key);
+        url.hash = '';
+        candidates.push({
+            url: url.toString(),
+            kind,
+            order: fromNav ? 0 : 1,
+            depth: url.pathname.split('/').filter(Boolean).length
+        });
+    };
+
+    links.forEach(link => consider(link.href, link.text || '', true));
+    sitemapUrls.forEach(url => consider(url, '', false));
+
+    const targets: CrawlTarget[] = [];
+    for (const { kind } of PAGE_KINDS) {
+        const best = candidates
+            .filter(candidate => candidate.kind === kind)
+            .sort((a, b) => a.order - b.order || a.depth - b.depth || a.url.length - b.url.length)[0];
+        if (best) {
+            targets.push({ url: best.url, kind });
+        }
+    }
+
+    return targets.slice(0, limit);
+}
+
+/**
+ * Page URLs listed in a sitemap. Entries of a sitemap index are returned too;
+ * they point to further sitemaps rather than pages and match no page kind.
+ */
+export function parseSitemap(xml: string): string[] {
+    return [...xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi)].map(match =>
+        match[1].replace(/&amp;/g, '&')
+    );
+}
+
+/**
+ * Combine the pages of a crawl into one ScrapedData, recording the page each
+ * fact was taken from. Contact details come from the contact page first and
+ * services from the services page first; everything else follows crawl order.
+ */
+export function mergeScrapedPages(pages: ScrapedPage[]): ScrapedData {
+    const sources: ScrapedFactSource[] = [];
+    const preferring = (kind: CrawlPageKind) =>
+        [...pages].sort((a, b) => Number(b.kind === kind) - Number(a.kind === kind));
+
+    const first = (field: string, candidates: ScrapedPage[], value: (data: ScrapedData) => string | undefined): string => {
+        for (const page of candidates) {
+            const found = value(page.data)?.trim();
+            if (found) {
+                sources.push({ field, value: found, url: page.url });
+                return found;
+            }
+        }
+        return '';
+    };
+
+    const union = (field: string, candidates: ScrapedPage[], values: (data: ScrapedData) => string[], max: number): string[] => {
+        const merged: string[] = [];
+        const seen = new Set<string>();
+        for (const page of candidates) {
+            for (const value of values(page.data) || []) {
+                const key = value.trim().toLowerCase();
+                if (!key || seen.has(key) || merged.length >= max) {
+                    continue;
+                }
+                seen.add(key);
+                merged.push(value.trim());
+                sources.push({ field, value: value.trim(), url: page.url });
+            }
+        }
+        return merged;
+    };
+
+    // The start page names the business; other pages' headings are "About us" and the like
+    const businessName = first('businessName', pages, data =>
+        data.businessName !== 'Unknown Business' ? data.businessName : undefined
+    );
+
+    return {
+        businessName: businessName || 'Unknown Business',
+        description: first('description', preferring('about'), data => data.description),
+        services: union('services', preferring('services'), data => data.services, 10),
+        contactInfo: {
+            email: first('contactInfo.email', preferring('contact'), data => data.contactInfo?.email),
+            phone: first('contactInfo.phone', preferring('contact'), data => data.contactInfo?.phone),
+            address: first('contactInfo.address', preferring('contact'), data => data.contactInfo?.address)
+        },
+        socialMedia: {
+            linkedin: first('socialMedia.linkedin', pages, data => data.socialMedia?.linkedin),
+            twitter: first('socialMedia.twitter', pages, data => data.socialMedia?.twitter),
+            facebook: first('socialMedia.facebook', pages, data => data.socialMedia?.facebook)
+        },
+        keyContent: union('keyContent', pages, data => data.keyContent, 15),
+        ...structuredFields(pages, sources),
+        sources
+    };
+}
+
+// The fields only structured data provides, each from the first page that has it
+function structuredFields(pages: ScrapedPage[], sources: ScrapedFactSource[]): Partial<ScrapedData> {
+    const fields: Partial<ScrapedData> = {};
+    const take = <K extends 'openingHours' | 'geo' | 'foundingYear' | 'aggregateRating' | 'priceRange'>(
+        field: K,
+        describe: (value: NonNullable<ScrapedData[K]>) => string
+    ) => {
+        const page = pages.find(candidate => candidate.data[field] !== undefined);
+        const value = page?.data[field];
+        if (page && value !== undefined && value !== null) {
+            fields[field] = value;
+            sources.push({ field, value: describe(value), url: page.url });
+        }
+    };
+
+    take('openingHours', hours => hours.join('; '));
+    take('geo', geo => `${geo.latitude}, ${geo.longitude}`);
+    take('foundingYear', year => String(year));
+    take('aggregateRating', rating => String(rating.ratingValue));
+    take('priceRange', range => range);
+
+    return fields;
+}
+
+// The same page whether or not it has a trailing slash, query or fragment
+function pageKey(url: URL): string {
+    return `${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/+$/, '') || '/'}`;
+}
+
+// Same origin, treating www and the bare domain, and http and https, as one site
+export function isSameSite(url: URL, start: URL): boolean {
+    return url.hostname.replace(/^www\./, '') === start.hostname.replace(/^www\./, '');
+}
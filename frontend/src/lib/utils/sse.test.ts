@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { formatServerSentEvent, readServerSentEvents, serverSentEventResponse, type ServerSentEvent } from './sse.js';
+
+describe('Server-Sent Events', () => {
+    it('formats an event with a JSON payload', () => {
+        expect(formatServerSentEvent('delta', { text: 'Hi\nthere' })).toBe('event: delta\ndata: {"text":"Hi\\nthere"}\n\n');
+    });
+
+    it('reads back the events a response sends, in order', async () => {
+        const response = serverSentEventResponse(async (send) => {
+            send('delta', { text: 'Hel' });
+            send('delta', { text: 'lo' });
+            send('done', { success: true });
+        });
+        const events: ServerSentEvent[] = [];
+
+        await readServerSentEvents(response, event => events.push(event));
+
+        expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+        expect(events).toEqual([
+            { event: 'delta', data: { text: 'Hel' } },
+            { event: 'delta', data: { text: 'lo' } },
+            { event: 'done', data: { success: true } }
+        ]);
+    });
+
+    it('handles events split across chunks', async () => {
+        const wire = formatServerSentEvent('delta', { text: 'split' });
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                const bytes = new TextEncoder().encode(wire);
+                controller.enqueue(bytes.subarray(0, 10));
+                controller.enqueue(bytes.subarray(10));
+                controller.close();
+            }
+        });
+        const events: ServerSentEvent[] = [];
+
+        await readServerSentEvents(new Response(body), event => events.push(event));
+
+        expect(events).toEqual([{ event: 'delta', data: { text: 'split' } }]);
+    });
+
+    it('sends an error event and closes the stream when the work throws', async () => {
+        const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const failure = { success: false, error: { message: 'Generation failed', code: 'AI_API_ERROR', retryable: true } };
+        const response = serverSentEventResponse(async (send) => {
+            send('delta', { text: 'Hel' });
+            throw new Error('socket hang up');
+        }, undefined, failure);
+        const events: ServerSentEvent[] = [];
+
+        await readServerSentEvents(response, event => events.push(event));
+
+        expect(events).toEqual([
+            { event: 'delta', data: { text: 'Hel' } },
+            { event: 'error', data: failure }
+        ]);
+        expect(consoleError).toHaveBeenCalled();
+        consoleError.mockRestore();
+    });
+
+    it('aborts the work when the reader cancels', async () => {
+        let signal: AbortSignal | undefined;
+        const response = serverSentEventResponse(async (send, runSignal) => {
+            signal = runSignal;
+            send('delta', { text: 'first' });
+            await new Promise(resolve => runSignal.addEventListener('abort', resolve));
+        });
+
+        await response.body!.cancel();
+
+        expect(signal?.aborted).toBe(true);
+    });
+});
@@ -0,0 +1,110 @@
+// Server-Sent Events helpers shared by the streaming API routes and the pages
+// that read them. The streaming endpoints take POST bodies, so pages read them
+// with fetch instead of EventSource.
+
+export interface ServerSentEvent {
+    event: string;
+    data: unknown;
+}
+
+export type SendServerSentEvent = (event: string, data: unknown) => void;
+
+/**
+ * Format one event in the text/event-stream wire format
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Build a text/event-stream response. The signal passed to run is aborted when
+ * the client disconnects or cancels, so upstream work can be stopped. If run
+ * throws, an 'error' event carrying `failure` is sent before the stream closes.
+ */
+export function serverSentEventResponse(
+    run: (send: SendServerSentEvent, signal: AbortSignal) => Promise<void>,
+    requestSignal?: AbortSignal,
+    failure: unknown = { success: false, error: { message: 'Internal server error', code: 'UNKNOWN_ERROR', retryable: true } }
+): Response {
+    const abort = new AbortController();
+    requestSignal?.addEventListener('abort', () => abort.abort());
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send: SendServerSentEvent = (event, data) => {
+                if (!abort.signal.aborted) {
+                    controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+                }
+            };
+
+            try {
+                await run(send, abort.signal);
+            } catch (error) {
+                if (!abort.signal.aborted) {
+                    console.error('Streaming response failed:', error);
+                    send('error', failure);
+                }
+            } finally {
+                if (!abort.signal.aborted) {
+                    controller.close();
+                }
+            }
+        },
+        cancel() {
+            abort.abort();
+        }
+    });
+
+    return new Response(body, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive'
+        }
+    });
+}
+
+/**
+ * Read a text/event-stream response, calling onEvent for each event as it arrives
+ */
+export async function readServerSentEvents(
+    response: Response,
+    onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+    if (!response.body) {
+        throw new Error('Response has no body to stream');
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    for (;;) {
+        const { value, done } = await reader.read();
+        if (done) {
+            return;
+        }
+
+        buffer += value.replace(/\r\n/g, '\n');
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const block = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            let event = 'message';
+            const data: string[] = [];
+            for (const line of block.split('\n')) {
+                if (line.startsWith('event:')) {
+                    event = line.slice('event:'.length).trim();
+                } else if (line.startsWith('data:')) {
+                    data.push(line.slice('data:'.length).replace(/^ /, ''));
+                }
+            }
+
+            if (data.length > 0) {
+                onEvent({ event, data: JSON.parse(data.join('\n')) });
+            }
+        }
+    }
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { median, medianInterval, wilsonInterval } from './statistics.js';
+
+describe('Statistics', () => {
+    it('gives the Wilson score interval for a proportion', () => {
+        const interval = wilsonInterval(10, 100)!;
+
+        expect(interval.lower).toBeCloseTo(0.0552, 3);
+        expect(interval.upper).toBeCloseTo(0.1744, 3);
+    });
+
+    it('keeps Wilson intervals inside 0-1 at the extremes', () => {
+        expect(wilsonInterval(0, 5)!.lower).toBe(0);
+        expect(wilsonInterval(5, 5)!.upper).toBe(1);
+        expect(wilsonInterval(0, 0)).toBeNull();
+    });
+
+    it('finds the median of odd and even lists', () => {
+        expect(median([5, 1, 3])).toBe(3);
+        expect(median([4, 1, 3, 2])).toBe(2.5);
+        expect(median([])).toBeNull();
+    });
+
+    it('bounds the median with order statistics once there are enough values', () => {
+        expect(medianInterval([1, 2, 3, 4, 5])).toBeNull();
+        expect(medianInterval([9, 8, 7, 6, 5, 4, 3, 2, 1])).toEqual({ lower: 1, upper: 9 });
+        expect(medianInterval(Array.from({ length: 20 }, (_, i) => i + 1))).toEqual({ lower: 5, upper: 16 });
+    });
+});
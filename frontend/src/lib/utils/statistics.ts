@@ -0,0 +1,66 @@
+// Small-sample statistics for comparing reply rates between groups of emails
+
+export interface Interval {
+    lower: number;
+    upper: number;
+}
+
+// z for a two-sided 95% interval
+export const Z_95 = 1.96;
+
+/**
+ * Wilson score interval for a proportion. Unlike the normal approximation it
+ * stays inside 0-1 and behaves sensibly for the handful of sends a new prompt has.
+ * @returns The interval as fractions, or null when there were no trials
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): Interval | null {
+    if (trials <= 0) {
+        return null;
+    }
+
+    const p = successes / trials;
+    const z2 = z * z;
+    const denominator = 1 + z2 / trials;
+    const center = (p + z2 / (2 * trials)) / denominator;
+    const halfWidth = (z * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials))) / denominator;
+
+    return {
+        lower: Math.max(0, center - halfWidth),
+        upper: Math.min(1, center + halfWidth)
+    };
+}
+
+/**
+ * Median of a list of numbers, or null when it is empty
+ */
+export function median(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Distribution-free confidence interval for the median, read off the order
+ * statistics. Reply times are heavily skewed, so no normality is assumed; the
+ * rank approximation errs on the wide side.
+ * @returns The interval, or null when there are too few values for one
+ */
+export function medianInterval(values: number[], z: number = Z_95): Interval | null {
+    const n = values.length;
+    const spread = z * Math.sqrt(n);
+    // 1-based ranks of the bounds
+    const lowerRank = Math.floor((n - spread) / 2);
+    const upperRank = Math.ceil(1 + (n + spread) / 2);
+
+    if (lowerRank < 1 || upperRank > n) {
+        return null;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    return { lower: sorted[lowerRank - 1], upper: sorted[upperRank - 1] };
+}
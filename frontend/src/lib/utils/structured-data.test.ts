@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { extractStructuredData } from './structured-data.js';
+
+describe('Structured data extraction', () => {
+    it('reads a LocalBusiness from JSON-LD, skipping the site and page nodes', () => {
+        const html = `<html><head>
+            <script type="application/ld+json">{ "broken": </script>
+            <script type="application/ld+json">
+            {"@context": "https://schema.org", "@graph": [
+                {"@type": "WebSite", "name": "Rise Bakery - Home", "url": "https://risebakery.example/"},
+                {"@type": ["Bakery", "LocalBusiness"], "name": "Rise Bakery",
+                 "description": "Family bakery in Leeds",
+                 "telephone": "+44 113 496 0000", "email": "mailto:hello@risebakery.example",
+                 "address": {"@type": "PostalAddress", "streetAddress": "1 Mill Lane", "addressLocality": "Leeds", "postalCode": "LS1 1AA", "addressCountry": {"name": "UK"}},
+                 "geo": {"@type": "GeoCoordinates", "latitude": "53.79", "longitude": -1.54},
+                 "openingHoursSpecification": [{"dayOfWeek": ["https://schema.org/Tuesday", "Monday"], "opens": "07:00:00", "closes": "15:00"}],
+                 "foundingDate": "1998-04-01", "priceRange": "££",
+                 "aggregateRating": {"@type": "AggregateRating", "ratingValue": "4.8", "reviewCount": 120},
+                 "sameAs": ["https://www.facebook.com/risebakery", "https://x.com/risebakery"],
+                 "hasOfferCatalog": {"@type": "OfferCatalog", "itemListElement": [{"@type": "Offer", "itemOffered": {"@type": "Service", "name": "Catering"}}]}}
+            ]}
+            </script>
+            <meta property="og:site_name" content="Rise">
+        </head></html>`;
+
+        expect(extractStructuredData(html)).toEqual({
+            businessName: 'Rise Bakery',
+            description: 'Family bakery in Leeds',
+            services: ['Catering'],
+            contactInfo: { email: 'hello@risebakery.example', phone: '+44 113 496 0000', address: '1 Mill Lane, Leeds, LS1 1AA, UK' },
+            socialMedia: { facebook: 'https://www.facebook.com/risebakery', twitter: 'https://x.com/risebakery' },
+            openingHours: ['Monday, Tuesday 07:00-15:00'],
+            geo: { latitude: 53.79, longitude: -1.54 },
+            foundingYear: 1998,
+            aggregateRating: { ratingValue: 4.8, reviewCount: 120 },
+            priceRange: '££'
+        });
+    });
+
+    it('reads microdata from the business item onwards', () => {
+        const html = `<ol itemscope itemtype="https://schema.org/BreadcrumbList"><li itemprop="itemListElement"><span itemprop="name">Home</span></li></ol>
+            <div itemscope itemtype="https://schema.org/Restaurant">
+                <h1 itemprop="name">The <b>Corner</b> Café</h1>
+                <a itemprop="telephone" href="tel:+15551234567">555 123 4567</a>
+                <div itemprop="address" itemscope itemtype="https://schema.org/PostalAddress">
+                    <span itemprop="streetAddress">12 Main St</span>, <span itemprop="addressLocality">Springfield</span>
+                </div>
+                <meta itemprop="openingHours" content="Mo-Fr 08:00-18:00">
+                <span itemprop="aggregateRating" itemscope itemtype="https://schema.org/AggregateRating">
+                    <span itemprop="ratingValue">4.5</span> from <span itemprop="reviewCount">32</span> reviews
+                </span>
+            </div>`;
+
+        expect(extractStructuredData(html)).toEqual({
+            businessName: 'The Corner Café',
+            contactInfo: { phone: '+15551234567', address: '12 Main St, Springfield' },
+            openingHours: ['Mo-Fr 08:00-18:00'],
+            aggregateRating: { ratingValue: 4.5, reviewCount: 32 }
+        });
+    });
+
+    it('falls back to OpenGraph tags for what the schema.org data leaves out', () => {
+        const html = `<meta property="og:site_name" content="Rise &amp; Shine">
+            <meta property="og:description" content='Bread, cakes and coffee'>
+            <meta property="business:contact_data:locality" content="Leeds">
+            <meta property="place:location:latitude" content="53.8"><meta property="place:location:longitude" content="-1.5">`;
+
+        expect(extractStructuredData(html)).toEqual({
+            businessName: 'Rise & Shine',
+            description: 'Bread, cakes and coffee',
+            contactInfo: { address: 'Leeds' },
+            geo: { latitude: 53.8, longitude: -1.5 }
+        });
+        expect(extractStructuredData('<p>No structured data here</p>')).toEqual({});
+    });
+});
@@ -0,0 +1,312 @@
+// Business details a page states outright as structured data: schema.org JSON-LD
+// and microdata, and OpenGraph tags. Works on the page's HTML, so it runs the same
+// on a page loaded in the browser or fetched directly.
+
+import type { ScrapedData } from '../types/index.js';
+
+export type StructuredScrapedData = Partial<Omit<ScrapedData, 'contactInfo' | 'socialMedia'>> & {
+    contactInfo?: ScrapedData['contactInfo'];
+    socialMedia?: ScrapedData['socialMedia'];
+};
+
+type JsonObject = Record<string, unknown>;
+
+// schema.org types that describe something other than the business itself
+const NON_BUSINESS_TYPES = new Set([
+    'Answer', 'Article', 'BlogPosting', 'BreadcrumbList', 'CollectionPage', 'ContactPoint', 'Event',
+    'FAQPage', 'GeoCoordinates', 'ImageObject', 'ItemList', 'ListItem', 'Offer', 'OfferCatalog',
+    'OpeningHoursSpecification', 'Person', 'PostalAddress', 'Product', 'Question', 'Rating',
+    'AggregateRating', 'Review', 'SearchAction', 'Service', 'SiteNavigationElement', 'VideoObject',
+    'WebPage', 'WebSite'
+]);
+
+// Properties only a business node tends to have; each one found makes a node more likely the business
+const BUSINESS_PROPERTIES = ['address', 'telephone', 'openingHours', 'openingHoursSpecification', 'geo', 'priceRange', 'foundingDate', 'aggregateRating'];
+
+const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday', 'PublicHolidays'];
+
+/**
+ * Everything the page's structured data says about the business. JSON-LD wins
+ * over microdata, and both win over OpenGraph tags.
+ */
+export function extractStructuredData(html: string): StructuredScrapedData {
+    return mergeStructured(fromJsonLd(html), fromMicrodata(html), fromOpenGraph(html));
+}
+
+function fromJsonLd(html: string): StructuredScrapedData {
+    const nodes: JsonObject[] = [];
+    for (const match of html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi)) {
+        try {
+            collectNodes(JSON.parse(match[1].trim()), nodes);
+        } catch {
+            // Sites ship broken JSON-LD often enough that one bad block is not worth failing over
+        }
+    }
+
+    const business = nodes
+        .map(node => ({ node, score: businessScore(node) }))
+        .filter(candidate => candidate.score > 0)
+        .sort((a, b) => b.score - a.score)[0]?.node;
+    if (!business) {
+        return {};
+    }
+
+    const contactPoints = asArray(business.contactPoint).filter(isObject);
+    const rating = isObject(business.aggregateRating) ? business.aggregateRating : undefined;
+    const geo = isObject(business.geo) ? business.geo : undefined;
+
+    return compact({
+        businessName: text(business.name),
+        description: text(business.description),
+        services: [
+            ...asArray(business.makesOffer),
+            ...asArray(isObject(business.hasOfferCatalog) ? business.hasOfferCatalog.itemListElement : undefined)
+        ].map(offer => isObject(offer) ? text(offer.name) || (isObject(offer.itemOffered) ? text(offer.itemOffered.name) : undefined) : text(offer))
+            .filter((name): name is string => Boolean(name)),
+        contactInfo: {
+            email: (text(business.email) || contactPoints.map(point => text(point.email)).find(Boolean))?.replace(/^mailto:/i, ''),
+            phone: text(business.telephone) || contactPoints.map(point => text(point.telephone)).find(Boolean),
+            address: formatAddress(business.address)
+        },
+        socialMedia: socialProfiles(asArray(business.sameAs).map(text)),
+        openingHours: [
+            ...asArray(business.openingHours).map(text),
+            ...asArray(business.openingHoursSpecification).filter(isObject).map(formatHoursSpecification)
+        ].filter((hours): hours is string => Boolean(hours)),
+        geo: geo && coordinates(geo.latitude, geo.longitude),
+        foundingYear: year(business.foundingDate),
+        aggregateRating: rating && formatRating(rating.ratingValue, rating.reviewCount ?? rating.ratingCount, rating.bestRating),
+        priceRange: text(business.priceRange)
+    });
+}
+
+function fromMicrodata(html: string): StructuredScrapedData {
+    // Read from the first business item on the page to the end, so the
+    // properties of items before it (a site-wide breadcrumb, say) are left out
+    const itemType = [...html.matchAll(/itemtype\s*=\s*["']?https?:\/\/schema\.org\/(\w+)/gi)]
+        .find(match => !NON_BUSINESS_TYPES.has(match[1]));
+    if (!itemType || itemType.index === undefined) {
+        return {};
+    }
+
+    const scope = html.slice(html.lastIndexOf('<', itemType.index));
+    const props = new Map<string, string[]>();
+    for (const match of scope.matchAll(/<(\w+)\b([^>]*\bitemprop\s*=[^>]*)>/gi)) {
+        const attributes = parseAttributes(match[2]);
+        const value = attributes.content ?? attributes.datetime ?? attributes.href
+            ?? innerText(scope, match[1], (match.index ?? 0) + match[0].length);
+        for (const name of (attributes.itemprop || '').split(/\s+/).filter(Boolean)) {
+            props.set(name, [...(props.get(name) || []), value.trim()]);
+        }
+    }
+
+    const prop = (name: string) => props.get(name)?.find(Boolean);
+    const address = ['streetAddress', 'addressLocality', 'addressRegion', 'postalCode', 'addressCountry']
+        .map(prop).filter(Boolean).join(', ');
+
+    return compact({
+        businessName: prop('name'),
+        description: prop('description'),
+        contactInfo: {
+            email: prop('email')?.replace(/^mailto:/i, ''),
+            phone: prop('telephone')?.replace(/^tel:/i, ''),
+            address: address || prop('address')
+        },
+        socialMedia: socialProfiles(props.get('sameAs') || []),
+        openingHours: (props.get('openingHours') || []).filter(Boolean),
+        geo: coordinates(prop('latitude'), prop('longitude')),
+        foundingYear: year(prop('foundingDate')),
+        aggregateRating: formatRating(prop('ratingValue'), prop('reviewCount') ?? prop('ratingCount'), prop('bestRating')),
+        priceRange: prop('priceRange')
+    });
+}
+
+function fromOpenGraph(html: string): StructuredScrapedData {
+    const meta = new Map<string, string>();
+    for (const match of html.matchAll(/<meta\b([^>]*)>/gi)) {
+        const attributes = parseAttributes(match[1]);
+        const key = (attributes.property || attributes.name || '').toLowerCase();
+        if (key && attributes.content && !meta.has(key)) {
+            meta.set(key, attributes.content.trim());
+        }
+    }
+
+    const address = ['street_address', 'locality', 'region', 'postal_code', 'country_name']
+        .map(field => meta.get(`business:contact_data:${field}`)).filter(Boolean).join(', ');
+
+    return compact({
+        businessName: meta.get('og:site_name'),
+        description: meta.get('og:description'),
+        contactInfo: {
+            email: meta.get('business:contact_data:email'),
+            phone: meta.get('business:contact_data:phone_number'),
+            address: address || undefined
+        },
+        geo: coordinates(meta.get('place:location:latitude'), meta.get('place:location:longitude'))
+    });
+}
+
+// Each field from the first source that has it
+function mergeStructured(...sources: StructuredScrapedData[]): StructuredScrapedData {
+    const merged: StructuredScrapedData = {};
+    for (const source of sources) {
+        for (const [key, value] of Object.entries(source) as [keyof StructuredScrapedData, unknown][]) {
+            if (key === 'contactInfo' || key === 'socialMedia') {
+                const nested = (merged[key] || {}) as Record<string, string | undefined>;
+                for (const [field, fieldValue] of Object.entries(value as Record<string, string | undefined>)) {
+                    nested[field] = nested[field] || fieldValue;
+                }
+                merged[key] = nested;
+            } else if (merged[key] === undefined) {
+                (merged as Record<string, unknown>)[key] = value;
+            }
+        }
+    }
+    return merged;
+}
+
+// Drops empty values, so merging only ever fills gaps
+function compact(data: StructuredScrapedData): StructuredScrapedData {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(data)) {
+        if (key === 'contactInfo' || key === 'socialMedia') {
+            const nested = Object.fromEntries(Object.entries(value as object).filter(([, fieldValue]) => Boolean(fieldValue)));
+            if (Object.keys(nested).length > 0) {
+                result[key] = nested;
+            }
+        } else if (Array.isArray(value) ? value.length > 0 : value !== undefined && value !== '') {
+            result[key] = value;
+        }
+    }
+    return result as StructuredScrapedData;
+}
+
+function collectNodes(value: unknown, nodes: JsonObject[]): void {
+    if (Array.isArray(value)) {
+        value.forEach(item => collectNodes(item, nodes));
+    } else if (isObject(value)) {
+        if (value['@type']) {
+            nodes.push(value);
+        }
+        Object.values(value).forEach(item => collectNodes(item, nodes));
+    }
+}
+
+function businessScore(node: JsonObject): number {
+    const types = asArray(node['@type']).map(text).filter((type): type is string => Boolean(type));
+    if (types.length === 0 || types.every(type => NON_BUSINESS_TYPES.has(type))) {
+        return 0;
+    }
+
+    const named = types.some(type => type === 'Organization' || type === 'LocalBusiness') ? 1 : 0;
+    return named + BUSINESS_PROPERTIES.filter(property => node[property] !== undefined).length;
+}
+
+function formatAddress(address: unknown): string | undefined {
+    if (!isObject(address)) {
+        return text(address);
+    }
+
+    const country = isObject(address.addressCountry) ? address.addressCountry.name : address.addressCountry;
+    return [address.streetAddress, address.addressLocality, address.addressRegion, address.postalCode, country]
+        .map(text).filter(Boolean).join(', ') || undefined;
+}
+
+function formatHoursSpecification(spec: JsonObject): string | undefined {
+    const days = asArray(spec.dayOfWeek)
+        .map(day => text(day)?.replace(/^https?:\/\/schema\.org\//i, ''))
+        .filter((day): day is string => Boolean(day))
+        .sort((a, b) => DAY_NAMES.indexOf(a) - DAY_NAMES.indexOf(b));
+    const opens = text(spec.opens)?.slice(0, 5);
+    const closes = text(spec.closes)?.slice(0, 5);
+    if (days.length === 0 || !opens || !closes) {
+        return undefined;
+    }
+
+    return `${days.join(', ')} ${opens}-${closes}`;
+}
+
+function formatRating(value: unknown, count: unknown, best: unknown): ScrapedData['aggregateRating'] {
+    const ratingValue = number(value);
+    if (ratingValue === undefined) {
+        return undefined;
+    }
+
+    const reviewCount = number(count);
+    const bestRating = number(best);
+    return {
+        ratingValue,
+        ...(reviewCount !== undefined && { reviewCount }),
+        ...(bestRating !== undefined && { bestRating })
+    };
+}
+
+function coordinates(latitude: unknown, longitude: unknown): ScrapedData['geo'] {
+    const lat = number(latitude);
+    const lng = number(longitude);
+    return lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+        ? { latitude: lat, longitude: lng }
+        : undefined;
+}
+
+function year(value: unknown): number | undefined {
+    const match = text(value)?.match(/\b(1[5-9]\d\d|20\d\d)\b/);
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+function socialProfiles(urls: (string | undefined)[]): ScrapedData['socialMedia'] {
+    const find = (pattern: RegExp) => urls.find(url => url && pattern.test(url));
+    return {
+        linkedin: find(/linkedin\.com/i),
+        twitter: find(/(twitter|x)\.com/i),
+        facebook: find(/facebook\.com/i)
+    };
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+        attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+    return attributes;
+}
+
+// Text of the element that starts at `from`, up to its closing tag
+function innerText(html: string, tag: string, from: number): string {
+    const end = html.toLowerCase().indexOf(`</${tag.toLowerCase()}`, from);
+    const inner = end === -1 ? '' : html.slice(from, end);
+    return decodeEntities(inner.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&#0?39;|&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&');
+}
+
+function text(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+        return decodeEntities(value).replace(/\s+/g, ' ').trim() || undefined;
+    }
+    if (typeof value === 'number') {
+        return String(value);
+    }
+    return undefined;
+}
+
+function number(value: unknown): number | undefined {
+    const parsed = typeof value === 'number' ? value : parseFloat(text(value) || '');
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function asArray(value: unknown): unknown[] {
+    return value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+}
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
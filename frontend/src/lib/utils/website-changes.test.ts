@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { diffScrapedData, describeWebsiteChange, summarizeWebsiteChanges, websiteChangeHooks } from './website-changes.js';
+import type { ScrapedData } from '../types/index.js';
+
+const before: ScrapedData = {
+    businessName: 'Rise Bakery',
+    description: 'Family bakery in Leeds',
+    services: ['Sourdough', 'Catering'],
+    contactInfo: { email: 'hello@risebakery.example', address: '1 Mill Lane, Leeds' },
+    socialMedia: {},
+    keyContent: ['Fresh bread every morning']
+};
+
+describe('website changes', () => {
+    it('finds added, removed and changed fields, ignoring case and spacing', () => {
+        const after: ScrapedData = {
+            ...before,
+            description: 'family  bakery in LEEDS',
+            services: ['sourdough', 'Wedding cakes'],
+            contactInfo: { email: 'hello@risebakery.example', address: '12 Market Street, York', phone: '0113 496 0000' },
+            keyContent: ['Fresh bread every morning', "We're hiring bakers - join our team"]
+        };
+
+        expect(diffScrapedData(before, after)).toEqual([
+            { field: 'contactInfo.phone', kind: 'added', after: '0113 496 0000' },
+            { field: 'contactInfo.address', kind: 'changed', before: '1 Mill Lane, Leeds', after: '12 Market Street, York' },
+            { field: 'services', kind: 'added', after: 'Wedding cakes' },
+            { field: 'services', kind: 'removed', before: 'Catering' },
+            { field: 'keyContent', kind: 'added', after: "We're hiring bakers - join our team" }
+        ]);
+        expect(diffScrapedData(before, { ...before })).toEqual([]);
+    });
+
+    it('describes changes as hooks, leaving out removals', () => {
+        const changes = diffScrapedData(before, {
+            ...before,
+            services: ['Sourdough', 'Wedding cakes'],
+            contactInfo: { ...before.contactInfo, address: '12 Market Street, York' },
+            keyContent: ['Fresh bread every morning', 'Now recruiting a pastry chef']
+        });
+
+        expect(websiteChangeHooks(changes)).toEqual([
+            'Moved or opened a location: address changed from "1 Mill Lane, Leeds" to "12 Market Street, York"',
+            'Added "Wedding cakes" to their services',
+            'Now hiring: "Now recruiting a pastry chef"'
+        ]);
+        expect(summarizeWebsiteChanges(changes)).toContain('No longer lists "Catering" among their services.');
+        expect(describeWebsiteChange({ field: 'priceRange', kind: 'changed', before: '££', after: '£££' }))
+            .toBe('Changed their price range from "££" to "£££"');
+    });
+});
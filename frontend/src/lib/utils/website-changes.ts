@@ -0,0 +1,134 @@
+// Comparing two scrapes of the same website. A new service, a new location or a
+// job opening on a prospect's site is a timely reason to get in touch, so each
+// difference is described in a sentence that can be offered as an email hook.
+
+import type { ScrapedData, WebsiteChange } from '../types/index.js';
+
+// Single-value fields, compared as text
+const SCALAR_FIELDS: { field: string; label: string; value: (data: ScrapedData) => string | undefined }[] = [
+    { field: 'businessName', label: 'business name', value: data => data.businessName !== 'Unknown Business' ? data.businessName : undefined },
+    { field: 'description', label: 'description', value: data => data.description },
+    { field: 'contactInfo.email', label: 'contact email', value: data => data.contactInfo?.email },
+    { field: 'contactInfo.phone', label: 'phone number', value: data => data.contactInfo?.phone },
+    { field: 'contactInfo.address', label: 'address', value: data => data.contactInfo?.address },
+    { field: 'socialMedia.linkedin', label: 'LinkedIn page', value: data => data.socialMedia?.linkedin },
+    { field: 'socialMedia.twitter', label: 'X/Twitter account', value: data => data.socialMedia?.twitter },
+    { field: 'socialMedia.facebook', label: 'Facebook page', value: data => data.socialMedia?.facebook },
+    { field: 'openingHours', label: 'opening hours', value: data => data.openingHours?.join('; ') },
+    { field: 'priceRange', label: 'price range', value: data => data.priceRange },
+    { field: 'foundingYear', label: 'founding year', value: data => data.foundingYear?.toString() }
+];
+
+// Lists compared item by item
+const LIST_FIELDS: { field: string; value: (data: ScrapedData) => string[] | undefined }[] = [
+    { field: 'services', value: data => data.services },
+    { field: 'keyContent', value: data => data.keyContent }
+];
+
+const HIRING = /\b(hiring|careers?|vacanc(y|ies)|job openings?|join (our|the) team|now recruiting|we'?re recruiting)\b/i;
+
+const QUOTE_LENGTH = 160;
+
+/**
+ * Field-by-field differences from one scrape to the next. Text is compared
+ * ignoring case and spacing; list items are compared one by one.
+ */
+export function diffScrapedData(before: ScrapedData, after: ScrapedData): WebsiteChange[] {
+    const changes: WebsiteChange[] = [];
+
+    for (const { field, value } of SCALAR_FIELDS) {
+        const old = value(before)?.trim() || '';
+        const current = value(after)?.trim() || '';
+        if (normalize(old) === normalize(current)) {
+            continue;
+        }
+
+        if (!old) {
+            changes.push({ field, kind: 'added', after: current });
+        } else if (!current) {
+            changes.push({ field, kind: 'removed', before: old });
+        } else {
+            changes.push({ field, kind: 'changed', before: old, after: current });
+        }
+    }
+
+    for (const { field, value } of LIST_FIELDS) {
+        const old = value(before) || [];
+        const current = value(after) || [];
+        const oldKeys = new Set(old.map(normalize));
+        const currentKeys = new Set(current.map(normalize));
+
+        for (const item of current) {
+            if (item.trim() && !oldKeys.has(normalize(item))) {
+                changes.push({ field, kind: 'added', after: item.trim() });
+            }
+        }
+        for (const item of old) {
+            if (item.trim() && !currentKeys.has(normalize(item))) {
+                changes.push({ field, kind: 'removed', before: item.trim() });
+            }
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * One sentence about a change, e.g. 'Added "Wedding cakes" to their services'
+ */
+export function describeWebsiteChange(change: WebsiteChange): string {
+    const before = quote(change.before);
+    const after = quote(change.after);
+
+    if (change.field === 'services') {
+        return change.kind === 'added'
+            ? `Added ${after} to their services`
+            : `No longer lists ${before} among their services`;
+    }
+
+    if (change.field === 'keyContent') {
+        if (change.kind === 'removed') {
+            return `Took ${before} off their website`;
+        }
+        return HIRING.test(change.after || '') ? `Now hiring: ${after}` : `New on their website: ${after}`;
+    }
+
+    if (change.field === 'contactInfo.address' && change.kind !== 'removed') {
+        return change.kind === 'added' ? `Now lists an address: ${after}` : `Moved or opened a location: address changed from ${before} to ${after}`;
+    }
+
+    if (change.field === 'description' && change.kind !== 'removed') {
+        return `Rewrote how they describe themselves: ${after}`;
+    }
+
+    const label = SCALAR_FIELDS.find(scalar => scalar.field === change.field)?.label || change.field;
+    switch (change.kind) {
+        case 'added': return `Added their ${label}: ${after}`;
+        case 'removed': return `Removed their ${label} (was ${before})`;
+        default: return `Changed their ${label} from ${before} to ${after}`;
+    }
+}
+
+/**
+ * A readable account of every change, for the change log
+ */
+export function summarizeWebsiteChanges(changes: WebsiteChange[]): string {
+    return changes.map(change => `${describeWebsiteChange(change)}.`).join(' ');
+}
+
+/**
+ * Changes worth opening an email with. Something missing from a scrape may only
+ * mean it was not found this time, so removals are left out.
+ */
+export function websiteChangeHooks(changes: WebsiteChange[]): string[] {
+    return changes.filter(change => change.kind !== 'removed').map(describeWebsiteChange);
+}
+
+function normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function quote(text: string | undefined): string {
+    const value = (text || '').replace(/\s+/g, ' ').trim();
+    return `"${value.length > QUOTE_LENGTH ? `${value.slice(0, QUOTE_LENGTH - 1).trimEnd()}…` : value}"`;
+}
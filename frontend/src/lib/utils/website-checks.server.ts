@@ -0,0 +1,22 @@
+import { DatabaseService } from '$lib/database/service.js';
+import { webScraperService } from '$lib/services/WebScraperService.js';
+import { ScrapeSnapshotService } from '$lib/services/ScrapeSnapshotService.js';
+import { WebsiteChangeService } from '$lib/services/WebsiteChangeService.js';
+import { serverConfig } from './env.server.js';
+
+let websiteChangeService: WebsiteChangeService | null = null;
+
+/**
+ * The server's one WebsiteChangeService, shared by the scheduled check and the
+ * API so a run started by either is not repeated by the other while it works
+ */
+export function getWebsiteChangeService(): WebsiteChangeService {
+    if (!websiteChangeService) {
+        const db = DatabaseService.getInstance();
+        websiteChangeService = new WebsiteChangeService(db, new ScrapeSnapshotService(db, webScraperService), {
+            maxPages: serverConfig.scraping.maxPages,
+            mode: serverConfig.scraping.mode
+        });
+    }
+    return websiteChangeService;
+}
@@ -0,0 +1,122 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { serverConfig } from '$lib/utils/env.server.js';
+import { calculateCost } from '$lib/utils/ai-pricing.js';
+import type { RequestHandler } from './$types.js';
+import type { AIUsage, AIUsageFilters } from '$lib/types/database.js';
+import type { AIUsageAnalytics, AIUsageTotals, CampaignAIUsage } from '$lib/types/index.js';
+
+export const GET: RequestHandler = async ({ url }) => {
+    try {
+        const db = DatabaseService.getInstance();
+
+        const dateFrom = url.searchParams.get('dateFrom');
+        const dateTo = url.searchParams.get('dateTo');
+        const campaignId = url.searchParams.get('campaignId');
+
+        const filters: AIUsageFilters = {};
+        if (dateFrom) filters.dateFrom = new Date(dateFrom);
+        if (dateTo) filters.dateTo = new Date(dateTo);
+        if (campaignId) filters.campaignId = parseInt(campaignId, 10);
+
+        const usage = await db.getAIUsage(filters);
+        const positiveEmails = await db.searchEmails({ ...filters, responseStatus: 'good_response' });
+
+        const unpricedModels = new Set<string>();
+        const costs = new Map<number, number>();
+        for (const call of usage) {
+            const cost = calculateCost(call.model, call.inputTokens, call.outputTokens, serverConfig.claude.pricing);
+            if (cost === null) {
+                unpricedModels.add(call.model);
+            }
+            costs.set(call.id, cost ?? 0);
+        }
+
+        // Sum calls into totals, keyed by whatever the grouping picks out
+        const groupBy = <K>(key: (call: AIUsage) => K): Map<K, AIUsageTotals> => {
+            const groups = new Map<K, AIUsageTotals>();
+            for (const call of usage) {
+                const group = groups.get(key(call)) || { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+                group.calls++;
+                group.inputTokens += call.inputTokens;
+                group.outputTokens += call.outputTokens;
+                group.cost += costs.get(call.id) || 0;
+                groups.set(key(call), group);
+            }
+            return groups;
+        };
+
+        const totals = groupBy(() => 'all').get('all') || { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+        const averageLatencyMs = usage.length > 0
+            ? Math.round(usage.reduce((sum, call) => sum + call.latencyMs, 0) / usage.length)
+            : 0;
+
+        const byDay = [...groupBy(call => call.createdAt.toISOString().split('T')[0])]
+            .map(([date, group]) => ({ date, ...roundCost(group) }))
+            .sort((a, b) => a.date.localeCompare(b.date));
+
+        const byPurpose = [...groupBy(call => call.purpose)]
+            .map(([purpose, group]) => ({ purpose, ...roundCost(group) }))
+            .sort((a, b) => b.cost - a.cost);
+
+        const byModel = [...groupBy(call => call.model)]
+            .map(([model, group]) => ({ model, ...roundCost(group) }))
+            .sort((a, b) => b.cost - a.cost);
+
+        // Positive replies per campaign, to set spend against what it bought
+        const repliesByCampaign = new Map<number | null, number>();
+        for (const email of positiveEmails) {
+            const id = email.campaignId ?? null;
+            repliesByCampaign.set(id, (repliesByCampaign.get(id) || 0) + 1);
+        }
+
+        const byCampaign: CampaignAIUsage[] = await Promise.all(
+            [...groupBy(call => call.campaignId ?? null)].map(async ([id, group]) => {
+                const campaign = id ? await db.getCampaignById(id) : null;
+                const positiveReplies = repliesByCampaign.get(id) || 0;
+                return {
+                    campaignId: id,
+                    campaignName: id ? campaign?.name || 'Deleted Campaign' : 'No campaign',
+                    ...roundCost(group),
+                    positiveReplies,
+                    costPerPositiveReply: positiveReplies > 0 ? roundUsd(group.cost / positiveReplies) : null
+                };
+            })
+        );
+        byCampaign.sort((a, b) => b.cost - a.cost);
+
+        const analytics: AIUsageAnalytics = {
+            totals: { ...roundCost(totals), averageLatencyMs },
+            positiveReplies: positiveEmails.length,
+            costPerPositiveReply: positiveEmails.length > 0 ? roundUsd(totals.cost / positiveEmails.length) : null,
+            byDay,
+            byPurpose,
+            byModel,
+            byCampaign,
+            unpricedModels: [...unpricedModels]
+        };
+
+        return json({
+            success: true,
+            analytics
+        });
+    } catch (error) {
+        console.error('Error fetching AI usage analytics:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch AI usage analytics'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+// Costs are kept to a hundredth of a cent
+function roundUsd(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
+
+function roundCost(totals: AIUsageTotals): AIUsageTotals {
+    return { ...totals, cost: roundUsd(totals.cost) };
+}
@@ -1,5 +1,6 @@
 import { json } from '@sveltejs/kit';
 import { DatabaseService } from '$lib/database/service.js';
+import { countResponses, isResponse, responseRate } from '$lib/utils/response-stats.js';
 import type { RequestHandler } from './$types.js';
 
 export const GET: RequestHandler = async ({ url }) => {
@@ -10,34 +11,29 @@ export const GET: RequestHandler = async ({ url }) => {
         const dateFrom = url.searchParams.get('dateFrom');
         const dateTo = url.searchParams.get('dateTo');
 
+        const campaignId = url.searchParams.get('campaignId');
+
         const filters: any = {};
         if (dateFrom) filters.dateFrom = new Date(dateFrom);
         if (dateTo) filters.dateTo = new Date(dateTo);
+        if (campaignId) filters.campaignId = parseInt(campaignId, 10);
 
         // Get all emails within date range
         const emails = await db.searchEmails(filters);
 
         // Calculate overall statistics
         const totalEmails = emails.length;
-        const sentEmails = emails.filter(email => email.sendStatus === 'sent').length;
+        const counts = countResponses(emails);
+        const sentEmails = counts.sent;
         const draftEmails = emails.filter(email => email.sendStatus === 'draft').length;
         const failedEmails = emails.filter(email => email.sendStatus === 'failed').length;
 
         const responseStats = {
             noResponse: emails.filter(email => email.responseStatus === 'no_response').length,
-            goodResponse: emails.filter(email => email.responseStatus === 'good_response').length,
-            badResponse: emails.filter(email => email.responseStatus === 'bad_response').length
+            goodResponse: counts.goodResponses,
+            badResponse: counts.responses - counts.goodResponses
         };
 
-        // Calculate response rate (only for sent emails)
-        const responseRate = sentEmails > 0
-            ? ((responseStats.goodResponse + responseStats.badResponse) / sentEmails * 100).toFixed(1)
-            : '0.0';
-
-        const goodResponseRate = sentEmails > 0
-            ? (responseStats.goodResponse / sentEmails * 100).toFixed(1)
-            : '0.0';
-
         // Get unique businesses contacted
         const uniqueBusinesses = new Set(emails.map(email => email.businessId)).size;
 
@@ -51,7 +47,7 @@ export const GET: RequestHandler = async ({ url }) => {
             if (email.sendStatus === 'sent') {
                 acc[date].sent++;
             }
-            if (email.responseStatus === 'good_response' || email.responseStatus === 'bad_response') {
+            if (isResponse(email)) {
                 acc[date].responses++;
             }
             return acc;
@@ -72,7 +68,7 @@ export const GET: RequestHandler = async ({ url }) => {
             if (email.sendStatus === 'sent') {
                 acc[businessId].sent++;
             }
-            if (email.responseStatus === 'good_response' || email.responseStatus === 'bad_response') {
+            if (isResponse(email)) {
                 acc[businessId].responses++;
             }
             return acc;
@@ -92,6 +88,35 @@ export const GET: RequestHandler = async ({ url }) => {
                 })
         );
 
+        // Compare campaigns against each other
+        const emailsByCampaign = emails.reduce((acc, email) => {
+            if (!email.campaignId) {
+                return acc;
+            }
+            if (!acc[email.campaignId]) {
+                acc[email.campaignId] = [];
+            }
+            acc[email.campaignId].push(email);
+            return acc;
+        }, {} as Record<number, typeof emails>);
+
+        const campaignStats = await Promise.all(
+            Object.entries(emailsByCampaign).map(async ([id, campaignEmails]) => {
+                const campaignId = Number(id);
+                const campaign = await db.getCampaignById(campaignId);
+                const item = countResponses(campaignEmails);
+                return {
+                    campaignId,
+                    total: campaignEmails.length,
+                    ...item,
+                    campaignName: campaign?.name || 'Deleted Campaign',
+                    responseRate: responseRate(item.responses, item.sent),
+                    goodResponseRate: responseRate(item.goodResponses, item.sent)
+                };
+            })
+        );
+        campaignStats.sort((a, b) => b.sent - a.sent);
+
         return json({
             success: true,
             analytics: {
@@ -101,12 +126,13 @@ export const GET: RequestHandler = async ({ url }) => {
                     draftEmails,
                     failedEmails,
                     uniqueBusinesses,
-                    responseRate: parseFloat(responseRate),
-                    goodResponseRate: parseFloat(goodResponseRate)
+                    responseRate: responseRate(counts.responses, counts.sent),
+                    goodResponseRate: responseRate(counts.goodResponses, counts.sent)
                 },
                 responseStats,
                 timeline,
-                topBusinesses
+                topBusinesses,
+                campaignStats
             }
         });
     } catch (error) {
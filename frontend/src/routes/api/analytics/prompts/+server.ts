@@ -0,0 +1,127 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { median, medianInterval, wilsonInterval } from '$lib/utils/statistics.js';
+import { countResponses, responseRate, toPercent } from '$lib/utils/response-stats.js';
+import type { RequestHandler } from './$types.js';
+import type { Email, EmailFilters } from '$lib/types/database.js';
+import type { PromptAnalytics, PromptVersionStats, RateWithInterval } from '$lib/types/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Sent emails grouped by the prompt version or note that wrote them, counted
+// with the same response rules as /api/analytics/overview
+export const GET: RequestHandler = async ({ url }) => {
+    try {
+        const db = DatabaseService.getInstance();
+
+        const dateFrom = url.searchParams.get('dateFrom');
+        const dateTo = url.searchParams.get('dateTo');
+        const campaignId = url.searchParams.get('campaignId');
+        const promptId = url.searchParams.get('promptId');
+
+        const filters: EmailFilters = { sendStatus: 'sent' };
+        if (dateFrom) filters.dateFrom = new Date(dateFrom);
+        if (dateTo) filters.dateTo = new Date(dateTo);
+        if (campaignId) filters.campaignId = parseInt(campaignId, 10);
+
+        const emails = await db.searchEmails(filters);
+        const firstReplies = await db.getFirstReplyTimes();
+
+        // A prompt version wins over a note; emails with neither used the built-in prompt
+        const groups = new Map<string, { promptVersionId: number | null; noteId: number | null; emails: Email[]; hoursToReply: number[] }>();
+        for (const email of emails) {
+            const promptVersionId = email.promptVersionId ?? null;
+            const noteId = promptVersionId ? null : email.noteId ?? null;
+            const key = `${promptVersionId}:${noteId}`;
+            const group = groups.get(key) || { promptVersionId, noteId, emails: [], hoursToReply: [] };
+            group.emails.push(email);
+
+            const repliedAt = firstReplies.get(email.id);
+            if (repliedAt && email.sentAt && repliedAt >= email.sentAt) {
+                group.hoursToReply.push((repliedAt.getTime() - email.sentAt.getTime()) / HOUR_MS);
+            }
+            groups.set(key, group);
+        }
+
+        let versions: PromptVersionStats[] = await Promise.all(
+            [...groups.values()].map(async (group) => {
+                const version = group.promptVersionId ? await db.getPromptTemplateVersionById(group.promptVersionId) : null;
+                const template = version ? await db.getPromptTemplateById(version.promptTemplateId) : null;
+                const note = group.noteId ? await db.getNoteById(group.noteId) : null;
+                const counts = countResponses(group.emails);
+                const hoursInterval = medianInterval(group.hoursToReply);
+                const medianHours = median(group.hoursToReply);
+
+                return {
+                    promptVersionId: version ? version.id : null,
+                    promptTemplateId: template ? template.id : null,
+                    noteId: note ? note.id : null,
+                    promptName: template?.name || note?.title || promptSourceFallback(group),
+                    version: version ? version.version : null,
+                    sent: counts.sent,
+                    replies: counts.responses,
+                    goodReplies: counts.goodResponses,
+                    replyRate: toRate(counts.responses, counts.sent),
+                    goodReplyRate: toRate(counts.goodResponses, counts.sent),
+                    medianHoursToReply: medianHours === null ? null : roundHours(medianHours),
+                    medianHoursToReplyInterval: hoursInterval
+                        ? { lower: roundHours(hoursInterval.lower), upper: roundHours(hoursInterval.upper) }
+                        : null,
+                    clearlyBehind: false
+                };
+            })
+        );
+
+        if (promptId) {
+            const templateId = parseInt(promptId, 10);
+            versions = versions.filter(stats => stats.promptTemplateId === templateId);
+        }
+
+        // A version is clearly behind when even its best case loses to the leader's worst case
+        const leaderLowerBound = Math.max(0, ...versions.map(stats => stats.goodReplyRate.lower));
+        for (const stats of versions) {
+            stats.clearlyBehind = stats.goodReplyRate.upper < leaderLowerBound;
+        }
+
+        versions.sort((a, b) => b.goodReplyRate.rate - a.goodReplyRate.rate || b.sent - a.sent);
+
+        const analytics: PromptAnalytics = { versions };
+
+        return json({
+            success: true,
+            analytics
+        });
+    } catch (error) {
+        console.error('Error fetching prompt analytics:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch prompt analytics'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+// The overview's rate, with its 95% interval
+function toRate(successes: number, trials: number): RateWithInterval {
+    const interval = wilsonInterval(successes, trials);
+
+    return {
+        rate: responseRate(successes, trials),
+        lower: interval ? toPercent(interval.lower) : 0,
+        upper: interval ? toPercent(interval.upper) : 0
+    };
+}
+
+// Name for a group whose prompt or note no longer exists
+function promptSourceFallback(group: { promptVersionId: number | null; noteId: number | null }): string {
+    if (group.promptVersionId) {
+        return 'Deleted Prompt';
+    }
+    return group.noteId ? 'Deleted Note' : 'Built-in Prompt';
+}
+
+function roundHours(hours: number): number {
+    return Math.round(hours * 10) / 10;
+}
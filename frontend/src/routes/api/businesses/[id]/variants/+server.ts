@@ -0,0 +1,102 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+import type { GeneratedEmailVariant } from '$lib/types/index.js';
+
+export const GET: RequestHandler = async ({ params }) => {
+    try {
+        const businessId = parseInt(params.id, 10);
+        if (isNaN(businessId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid business ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const variants = await db.getEmailVariantsForBusiness(businessId);
+
+        return json({
+            success: true,
+            variants
+        });
+    } catch (error) {
+        console.error('Error fetching email variants:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch email variants'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+// Store variants that were not picked so they can be reused later
+export const POST: RequestHandler = async ({ params, request }) => {
+    try {
+        const businessId = parseInt(params.id, 10);
+        if (isNaN(businessId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid business ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const { variants }: { variants?: GeneratedEmailVariant[] } = await request.json();
+
+        if (!Array.isArray(variants) || variants.some(v => !v?.angle || !v.subject || !v.htmlBody)) {
+            return json(
+                {
+                    success: false,
+                    error: 'variants must be a list of generated variants with an angle, subject and htmlBody'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        const business = await db.findBusinessById(businessId);
+        if (!business) {
+            return json(
+                {
+                    success: false,
+                    error: 'Business not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        const ids = await db.saveEmailVariants(variants.map(variant => ({
+            businessId,
+            angle: variant.angle,
+            subject: variant.subject,
+            htmlBody: variant.htmlBody,
+            textBody: variant.textBody || '',
+            personalizationHooks: variant.personalizationHooks,
+            scrapedFacts: variant.scrapedFacts
+        })));
+
+        return json({
+            success: true,
+            ids,
+            message: `Stored ${ids.length} variant(s)`
+        });
+    } catch (error) {
+        console.error('Error storing email variants:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to store email variants'
+            },
+            { status: 500 }
+        );
+    }
+};
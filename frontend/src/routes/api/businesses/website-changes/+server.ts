@@ -0,0 +1,90 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { ScrapeSnapshotService } from '$lib/services/ScrapeSnapshotService.js';
+import { getWebsiteChangeService } from '$lib/utils/website-checks.server.js';
+import type { RequestHandler } from './$types.js';
+
+// Website changes not yet mentioned in an email to the business with this website
+export const GET: RequestHandler = async ({ url }) => {
+    try {
+        const websiteUrl = url.searchParams.get('url');
+        if (!websiteUrl) {
+            return json(
+                {
+                    success: false,
+                    error: 'url is required'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const key = ScrapeSnapshotService.normalizeUrl(websiteUrl);
+        const business = (await db.getBusinessesWithWebsite())
+            .find(candidate => ScrapeSnapshotService.normalizeUrl(candidate.websiteUrl || '') === key);
+
+        return json({
+            success: true,
+            businessId: business?.id,
+            changes: business ? await db.getPendingWebsiteChanges(business.id) : []
+        });
+    } catch (error) {
+        console.error('Error fetching website changes:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch website changes'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+// Re-scrape now instead of waiting for the scheduled check: one business, or all of
+// them. Checking them all takes a while, so it runs after the response is sent.
+export const POST: RequestHandler = async ({ request }) => {
+    try {
+        const { businessId } = await request.json().catch(() => ({}));
+        const db = DatabaseService.getInstance();
+        const service = getWebsiteChangeService();
+
+        if (businessId === undefined) {
+            // A run already in progress, scheduled or not, covers this request
+            const started = !service.isRunning();
+            if (started) {
+                service.checkAllBusinesses().catch(error => {
+                    console.error('Error checking websites for changes:', error);
+                });
+            }
+
+            return json({ success: true, started }, { status: 202 });
+        }
+
+        const business = await db.findBusinessById(Number(businessId));
+        if (!business) {
+            return json(
+                {
+                    success: false,
+                    error: 'Business not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        const outcome = await service.checkBusiness(business);
+        return json({
+            success: true,
+            outcome,
+            changes: await db.getPendingWebsiteChanges(business.id)
+        });
+    } catch (error) {
+        console.error('Error checking websites for changes:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to check websites for changes'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,88 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { ClaudeService } from '$lib/services/index.js';
+import type { RequestHandler } from './$types.js';
+import type { CampaignData } from '$lib/types/database.js';
+
+export const GET: RequestHandler = async () => {
+    try {
+        const db = DatabaseService.getInstance();
+        const campaigns = await db.getAllCampaigns();
+
+        return json({
+            success: true,
+            campaigns
+        });
+    } catch (error) {
+        console.error('Error fetching campaigns:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch campaigns'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const POST: RequestHandler = async ({ request }) => {
+    try {
+        const campaignData: CampaignData = await request.json();
+
+        // Validate required fields
+        if (!campaignData.name || !campaignData.name.trim()) {
+            return json(
+                {
+                    success: false,
+                    error: 'Campaign name is required'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        // Make sure the default prompt note exists
+        if (campaignData.defaultNoteId && !(await db.getNoteById(campaignData.defaultNoteId))) {
+            return json(
+                {
+                    success: false,
+                    error: 'Default prompt note not found'
+                },
+                { status: 400 }
+            );
+        }
+
+        const settingsError = ClaudeService.validateGenerationSettings(campaignData.generationSettings);
+        if (settingsError) {
+            return json(
+                {
+                    success: false,
+                    error: settingsError
+                },
+                { status: 400 }
+            );
+        }
+
+        const campaignId = await db.createCampaign({
+            ...campaignData,
+            name: campaignData.name.trim()
+        });
+        const campaign = await db.getCampaignById(campaignId);
+
+        return json({
+            success: true,
+            campaign,
+            message: 'Campaign created successfully'
+        });
+    } catch (error) {
+        console.error('Error creating campaign:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to create campaign'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,172 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { ClaudeService } from '$lib/services/index.js';
+import type { RequestHandler } from './$types.js';
+import type { CampaignData } from '$lib/types/database.js';
+
+export const GET: RequestHandler = async ({ params }) => {
+    try {
+        const campaignId = parseInt(params.id, 10);
+        if (isNaN(campaignId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid campaign ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const campaign = await db.getCampaignById(campaignId);
+
+        if (!campaign) {
+            return json(
+                {
+                    success: false,
+                    error: 'Campaign not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        return json({
+            success: true,
+            campaign
+        });
+    } catch (error) {
+        console.error('Error fetching campaign:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch campaign'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const PATCH: RequestHandler = async ({ params, request }) => {
+    try {
+        const campaignId = parseInt(params.id, 10);
+        if (isNaN(campaignId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid campaign ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        // Check if campaign exists
+        const existingCampaign = await db.getCampaignById(campaignId);
+        if (!existingCampaign) {
+            return json(
+                {
+                    success: false,
+                    error: 'Campaign not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        const updateData: Partial<CampaignData> = await request.json();
+
+        if (updateData.name !== undefined && !updateData.name.trim()) {
+            return json(
+                {
+                    success: false,
+                    error: 'Campaign name cannot be empty'
+                },
+                { status: 400 }
+            );
+        }
+
+        if (updateData.defaultNoteId && !(await db.getNoteById(updateData.defaultNoteId))) {
+            return json(
+                {
+                    success: false,
+                    error: 'Default prompt note not found'
+                },
+                { status: 400 }
+            );
+        }
+
+        const settingsError = ClaudeService.validateGenerationSettings(updateData.generationSettings);
+        if (settingsError) {
+            return json(
+                {
+                    success: false,
+                    error: settingsError
+                },
+                { status: 400 }
+            );
+        }
+
+        await db.updateCampaign(campaignId, updateData);
+        const updatedCampaign = await db.getCampaignById(campaignId);
+
+        return json({
+            success: true,
+            campaign: updatedCampaign
+        });
+    } catch (error) {
+        console.error('Error updating campaign:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to update campaign'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const DELETE: RequestHandler = async ({ params }) => {
+    try {
+        const campaignId = parseInt(params.id, 10);
+        if (isNaN(campaignId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid campaign ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        // Check if campaign exists
+        const existingCampaign = await db.getCampaignById(campaignId);
+        if (!existingCampaign) {
+            return json(
+                {
+                    success: false,
+                    error: 'Campaign not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        // Emails stay in the history; they are only detached from the campaign
+        await db.deleteCampaign(campaignId);
+
+        return json({
+            success: true,
+            message: 'Campaign deleted successfully'
+        });
+    } catch (error) {
+        console.error('Error deleting campaign:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to delete campaign'
+            },
+            { status: 500 }
+        );
+    }
+};
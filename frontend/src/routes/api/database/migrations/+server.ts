@@ -0,0 +1,98 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { initialSchema } from '$lib/database/migrations/001_initial_schema.js';
+import type { RequestHandler } from './$types.js';
+
+export const GET: RequestHandler = async () => {
+    try {
+        const db = DatabaseService.getInstance();
+
+        // Dry run: report what would be applied without touching the schema
+        const status = db.getMigrationStatus();
+
+        return json({
+            success: true,
+            status
+        });
+    } catch (error) {
+        console.error('Error fetching migration status:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch migration status'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const POST: RequestHandler = async () => {
+    try {
+        const db = DatabaseService.getInstance();
+        const applied = db.applyMigrations();
+
+        return json({
+            success: true,
+            applied,
+            status: db.getMigrationStatus(),
+            message: applied.length > 0
+                ? `Applied ${applied.length} migration(s)`
+                : 'Database is already up to date'
+        });
+    } catch (error) {
+        console.error('Error applying migrations:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to apply migrations'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const DELETE: RequestHandler = async () => {
+    try {
+        const db = DatabaseService.getInstance();
+
+        // Reverting the initial schema drops every table, so it is left to the migrator itself
+        const { currentVersion } = db.getMigrationStatus();
+        if (currentVersion === initialSchema.version) {
+            return json(
+                {
+                    success: false,
+                    error: 'The initial migration cannot be rolled back over HTTP'
+                },
+                { status: 400 }
+            );
+        }
+
+        const rolledBack = db.rollbackLastMigration();
+
+        if (rolledBack === null) {
+            return json(
+                {
+                    success: false,
+                    error: 'No applied migrations to roll back'
+                },
+                { status: 400 }
+            );
+        }
+
+        return json({
+            success: true,
+            rolledBack,
+            status: db.getMigrationStatus(),
+            message: `Rolled back migration ${rolledBack}`
+        });
+    } catch (error) {
+        console.error('Error rolling back migration:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to roll back migration'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -1,7 +1,8 @@
 import { json } from '@sveltejs/kit';
 import { DatabaseService } from '$lib/database/service.js';
-import { ZohoEmailService } from '$lib/services/index.js';
+import { ClaudeService } from '$lib/services/index.js';
 import { serverConfig } from '$lib/utils/env.server.js';
+import { lintBlockReason, lintOutgoingEmail } from '$lib/utils/email-lint.server.js';
 import type { EmailFilters, EmailDraft } from '$lib/types/database.js';
 import type { RequestHandler } from './$types.js';
 
@@ -17,9 +18,14 @@ export const GET: RequestHandler = async ({ url }) => {
             filters.businessName = businessName;
         }
 
+        const campaignId = url.searchParams.get('campaignId');
+        if (campaignId) {
+            filters.campaignId = parseInt(campaignId, 10);
+        }
+
         const sendStatus = url.searchParams.get('sendStatus');
-        if (sendStatus && ['draft', 'sent', 'failed'].includes(sendStatus)) {
-            filters.sendStatus = sendStatus as 'draft' | 'sent' | 'failed';
+        if (sendStatus && ['draft', 'sent', 'failed', 'queued', 'sending', 'dead'].includes(sendStatus)) {
+            filters.sendStatus = sendStatus as EmailFilters['sendStatus'];
         }
 
         const responseStatus = url.searchParams.get('responseStatus');
@@ -27,6 +33,10 @@ export const GET: RequestHandler = async ({ url }) => {
             filters.responseStatus = responseStatus as 'unsent' | 'no_response' | 'good_response' | 'bad_response';
         }
 
+        if (url.searchParams.get('needsReview') === 'true') {
+            filters.needsReview = true;
+        }
+
         const dateFrom = url.searchParams.get('dateFrom');
         if (dateFrom) {
             filters.dateFrom = new Date(dateFrom);
@@ -82,6 +92,7 @@ export const POST: RequestHandler = async ({ request }) => {
             recipientEmail: string;
             fromName?: string;
             fromEmail?: string;
+            scheduledFor?: string;
         } = await request.json();
 
         // Validate required fields
@@ -95,71 +106,90 @@ export const POST: RequestHandler = async ({ request }) => {
             );
         }
 
+        const scheduledFor = emailData.scheduledFor ? new Date(emailData.scheduledFor) : undefined;
+        if (scheduledFor && isNaN(scheduledFor.getTime())) {
+            return json(
+                {
+                    success: false,
+                    error: 'scheduledFor must be a valid date'
+                },
+                { status: 400 }
+            );
+        }
+
+        const settingsError = ClaudeService.validateGenerationSettings(emailData.generationSettings);
+        if (settingsError) {
+            return json(
+                {
+                    success: false,
+                    error: settingsError
+                },
+                { status: 400 }
+            );
+        }
+
+        // Emails are only sent by the queue worker, so one queued while it is off would never go
+        if (!serverConfig.sendQueue.enabled) {
+            return json(
+                {
+                    success: false,
+                    error: 'Sending is turned off: the send queue worker is disabled (SEND_QUEUE_ENABLED=false)'
+                },
+                { status: 503 }
+            );
+        }
+
+        const lint = lintOutgoingEmail({ subject: emailData.subject, htmlContent: emailData.htmlContent });
+        const lintError = lintBlockReason(lint);
+        if (lintError) {
+            return json(
+                {
+                    success: false,
+                    error: lintError,
+                    lint
+                },
+                { status: 400 }
+            );
+        }
+
         const db = DatabaseService.getInstance();
 
         // Save draft first
         const emailId = await db.saveDraft({
             businessId: emailData.businessId,
+            campaignId: emailData.campaignId,
             subject: emailData.subject,
             htmlContent: emailData.htmlContent,
-            personalNotes: emailData.personalNotes
+            personalNotes: emailData.personalNotes,
+            revisions: emailData.revisions,
+            contentSource: emailData.contentSource,
+            generationSettings: emailData.generationSettings,
+            aiUsageIds: emailData.aiUsageIds,
+            promptVersionId: emailData.promptVersionId,
+            noteId: emailData.noteId,
+            scrapeSnapshotId: emailData.scrapeSnapshotId
         });
 
-        try {
-            // Initialize ZohoEmailService with config from server
-            const zohoEmailService = new ZohoEmailService(serverConfig.zoho);
-
-            // Send email via Zoho
-            const sendResult = await zohoEmailService.sendEmail({
-                to: emailData.recipientEmail,
-                subject: emailData.subject,
-                htmlContent: emailData.htmlContent,
-                fromName: emailData.fromName || 'Cold Email System',
-                fromEmail: emailData.fromEmail || process.env.ZOHO_FROM_EMAIL || ''
-            });
-
-            if (sendResult.success) {
-                // Update status to sent
-                await db.updateEmailStatus(emailId, 'sent', new Date());
-
-                // Record analytics event
-                await db.recordEmailEvent(emailId, 'sent', {
-                    recipient: emailData.recipientEmail,
-                    zohoMessageId: sendResult.data?.messageId
-                });
-
-                return json({
-                    success: true,
-                    emailId,
-                    message: 'Email sent successfully'
-                });
-            } else {
-                // Update status to failed
-                await db.updateEmailStatus(emailId, 'failed');
-
-                return json(
-                    {
-                        success: false,
-                        error: sendResult.error || 'Failed to send email',
-                        emailId
-                    },
-                    { status: 500 }
-                );
-            }
-        } catch (sendError) {
-            // Update status to failed
-            await db.updateEmailStatus(emailId, 'failed');
-
-            console.error('Email sending error:', sendError);
-            return json(
-                {
-                    success: false,
-                    error: 'Failed to send email via Zoho service',
-                    emailId
-                },
-                { status: 500 }
-            );
-        }
+        // The background worker sends it and retries transient failures
+        const queueItemId = await db.enqueueEmail({
+            emailId,
+            recipientEmail: emailData.recipientEmail,
+            fromName: emailData.fromName || 'Cold Email System',
+            fromEmail: emailData.fromEmail || serverConfig.email.fromAddress,
+            scheduledFor
+        });
+        const queueItem = await db.getQueueItemById(queueItemId);
+
+        const isScheduled = scheduledFor && scheduledFor.getTime() > Date.now();
+
+        return json({
+            success: true,
+            emailId,
+            queueItem,
+            message: isScheduled
+                ? `Email scheduled for ${scheduledFor.toISOString()}`
+                : 'Email queued for sending'
+        });
     } catch (error) {
         console.error('Error in email API:', error);
         return json(
@@ -170,4 +200,4 @@ export const POST: RequestHandler = async ({ request }) => {
             { status: 500 }
         );
     }
-};
\ No newline at end of file
+};
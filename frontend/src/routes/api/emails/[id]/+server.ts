@@ -31,12 +31,17 @@ export const GET: RequestHandler = async ({ params }) => {
         // Get business information
         const business = await db.findBusinessById(email.businessId);
 
+        // Replies picked up from the mailbox carry the reply text
+        const analytics = await db.getEmailAnalytics(emailId);
+        const replies = analytics.filter(event => event.eventType === 'replied' && event.eventData?.body !== undefined);
+
         return json({
             success: true,
             email: {
                 ...email,
                 businessName: business?.name || 'Unknown Business',
-                businessEmail: business?.contactEmail
+                businessEmail: business?.contactEmail,
+                replies
             }
         });
     } catch (error) {
@@ -80,9 +85,22 @@ export const PATCH: RequestHandler = async ({ params, request }) => {
 
         const updateData = await request.json();
 
-        // Update HTML content if provided
-        if (updateData.htmlContent !== undefined) {
-            await db.updateEmailContent(emailId, updateData.htmlContent);
+        // Update subject and HTML content if provided; each change is kept as a revision
+        if (updateData.htmlContent !== undefined || updateData.subject !== undefined) {
+            if (updateData.subject !== undefined && !String(updateData.subject).trim()) {
+                return json(
+                    {
+                        success: false,
+                        error: 'Subject cannot be empty'
+                    },
+                    { status: 400 }
+                );
+            }
+
+            await db.updateEmailContent(emailId, {
+                htmlContent: updateData.htmlContent,
+                subject: updateData.subject
+            });
         }
 
         // Validate and update send status
@@ -0,0 +1,91 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { ReplyClassifier } from '$lib/services/ReplyClassifier.js';
+import { serverConfig } from '$lib/utils/env.server.js';
+import { createClaudeService } from '$lib/utils/claude.server.js';
+import type { RequestHandler } from './$types.js';
+
+// Classify a reply to this email. Uses the posted reply text, or the latest
+// reply picked up from the mailbox when none is given.
+export const POST: RequestHandler = async ({ params, request }) => {
+    try {
+        const emailId = parseInt(params.id, 10);
+        if (isNaN(emailId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid email ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const email = await db.getEmailById(emailId);
+        if (!email) {
+            return json(
+                {
+                    success: false,
+                    error: 'Email not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        const { replyText, replySubject } = await request.json().catch(() => ({}));
+
+        let reply = typeof replyText === 'string' && replyText.trim()
+            ? { subject: replySubject as string | undefined, body: replyText.trim() }
+            : null;
+
+        if (!reply) {
+            const analytics = await db.getEmailAnalytics(emailId);
+            const latest = analytics.find(event => event.eventType === 'replied' && event.eventData?.body);
+            if (latest) {
+                reply = { subject: latest.eventData!.subject, body: latest.eventData!.body };
+            }
+        }
+
+        if (!reply) {
+            return json(
+                {
+                    success: false,
+                    error: 'No reply text to classify. Paste the reply or wait for it to be picked up from the mailbox.'
+                },
+                { status: 400 }
+            );
+        }
+
+        const classifier = new ReplyClassifier(
+            db,
+            createClaudeService(),
+            serverConfig.replyClassification.reviewThreshold
+        );
+        const result = await classifier.classifyAndApply(email, reply);
+
+        if (!result.success) {
+            return json(
+                {
+                    success: false,
+                    error: result.error?.message || 'Failed to classify reply'
+                },
+                { status: 502 }
+            );
+        }
+
+        return json({
+            success: true,
+            ...result.data,
+            email: await db.getEmailById(emailId)
+        });
+    } catch (error) {
+        console.error('Error classifying reply:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to classify reply'
+            },
+            { status: 500 }
+        );
+    }
+};
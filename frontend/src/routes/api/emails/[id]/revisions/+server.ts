@@ -0,0 +1,47 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+
+export const GET: RequestHandler = async ({ params }) => {
+    try {
+        const emailId = parseInt(params.id, 10);
+        if (isNaN(emailId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid email ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        const email = await db.getEmailById(emailId);
+        if (!email) {
+            return json(
+                {
+                    success: false,
+                    error: 'Email not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        const revisions = await db.getEmailRevisions(emailId);
+
+        return json({
+            success: true,
+            revisions
+        });
+    } catch (error) {
+        console.error('Error fetching email revisions:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch email revisions'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,71 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+
+export const POST: RequestHandler = async ({ params }) => {
+    try {
+        const emailId = parseInt(params.id, 10);
+        const revisionId = parseInt(params.revisionId, 10);
+        if (isNaN(emailId) || isNaN(revisionId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid email or revision ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        const email = await db.getEmailById(emailId);
+        if (!email) {
+            return json(
+                {
+                    success: false,
+                    error: 'Email not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        // What went out can't change after the fact
+        if (email.sendStatus === 'sent' || email.queueStatus === 'sending') {
+            return json(
+                {
+                    success: false,
+                    error: 'Sent emails cannot be restored to an earlier revision'
+                },
+                { status: 409 }
+            );
+        }
+
+        const revision = await db.restoreEmailRevision(emailId, revisionId);
+        if (!revision) {
+            return json(
+                {
+                    success: false,
+                    error: 'Revision not found for this email'
+                },
+                { status: 404 }
+            );
+        }
+
+        const updatedEmail = await db.getEmailById(emailId);
+
+        return json({
+            success: true,
+            revision,
+            email: updatedEmail
+        });
+    } catch (error) {
+        console.error('Error restoring email revision:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to restore email revision'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,43 @@
+import { json } from '@sveltejs/kit';
+import { isBlockedByLint, lintOutgoingEmail } from '$lib/utils/email-lint.server.js';
+import { serverConfig } from '$lib/utils/env.server.js';
+import type { RequestHandler } from './$types.js';
+
+// Score a draft before it is sent
+export const POST: RequestHandler = async ({ request }) => {
+    try {
+        const { subject, htmlContent, textContent } = await request.json();
+
+        if (typeof subject !== 'string' || typeof htmlContent !== 'string') {
+            return json(
+                {
+                    success: false,
+                    error: 'subject and htmlContent are required'
+                },
+                { status: 400 }
+            );
+        }
+
+        const lint = lintOutgoingEmail({
+            subject,
+            htmlContent,
+            textContent: typeof textContent === 'string' ? textContent : undefined
+        });
+
+        return json({
+            success: true,
+            lint,
+            minScore: serverConfig.email.minLintScore,
+            blocked: isBlockedByLint(lint)
+        });
+    } catch (error) {
+        console.error('Error linting email:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to check email'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -1,15 +1,40 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { ClaudeService } from '$lib/services/index.js';
-import { serverConfig } from '$lib/utils/env.server.js';
+import { DatabaseService } from '$lib/database/service.js';
+import { createClaudeService } from '$lib/utils/claude.server.js';
+import { serverSentEventResponse } from '$lib/utils/sse.js';
+import { buildPromptValues, renderPromptTemplate } from '$lib/utils/prompt-template.js';
+import { quoteUntrustedValues } from '$lib/utils/prompt-injection.js';
+import { websiteChangeHooks } from '$lib/utils/website-changes.js';
 import type { EmailGenerationRequest } from '$lib/types/index.js';
 
-export const POST: RequestHandler = async ({ request }) => {
+// Returned when the generation fails unexpectedly, as JSON or as the stream's 'error' event
+const INTERNAL_ERROR = {
+    success: false,
+    error: {
+        message: 'Internal server error during email generation',
+        code: 'AI_API_ERROR',
+        retryable: true
+    }
+};
+
+export const POST: RequestHandler = async ({ request, url }) => {
     try {
-        // Initialize ClaudeService with API key from server config
-        const claudeService = new ClaudeService(serverConfig.claude.apiKey);
+        // Initialize ClaudeService from server config, metering its calls
+        const claudeService = createClaudeService();
+
+        const body: EmailGenerationRequest = await request.json();
+        const db = DatabaseService.getInstance();
+
+        // A saved business's website changes since its last email are offered unless the caller picked its own
+        if (body.businessId && body.websiteChanges === undefined) {
+            const pending = await db.getPendingWebsiteChanges(body.businessId);
+            body.websiteChanges = websiteChangeHooks(pending.flatMap(change => change.changes));
+        }
 
-        const requestData: EmailGenerationRequest = await request.json();
+        // Scraped text is cleaned of planted instructions before any prompt is built from it
+        const requestData = ClaudeService.sanitizeRequest(body, { id: body.businessId, name: body.business_name });
 
         // Validate required fields
         if (!requestData.personalNotes && !requestData.manualContent && !requestData.scrapedData) {
@@ -19,21 +44,67 @@ export const POST: RequestHandler = async ({ request }) => {
             );
         }
 
+        const settingsError = ClaudeService.validateGenerationSettings(requestData.generationSettings);
+        if (settingsError) {
+            return json({ error: settingsError }, { status: 400 });
+        }
+
+        // The campaign's model settings apply first, then the request's own
+        if (requestData.campaignId) {
+            const campaign = await db.getCampaignById(requestData.campaignId);
+            requestData.generationSettings = ClaudeService.mergeGenerationSettings(
+                campaign?.generationSettings,
+                requestData.generationSettings
+            );
+        }
+
+        // A prompt library version is rendered here, so only the server decides what it says
+        requestData.promptInstructions = undefined;
+        if (requestData.promptVersionId) {
+            const version = await db.getPromptTemplateVersionById(requestData.promptVersionId);
+            if (!version) {
+                return json({ error: 'Prompt version not found' }, { status: 400 });
+            }
+
+            // Website text is quoted as untrusted, as it is in the built-in prompt
+            requestData.promptInstructions = renderPromptTemplate(version.content, quoteUntrustedValues(buildPromptValues({
+                businessName: requestData.business_name,
+                description: requestData.manualContent,
+                scrapedData: requestData.scrapedData,
+                sender: requestData.sender,
+                personalNotes: requestData.personalNotes
+            }), 'scraped.')).prompt;
+        }
+
+        // Asking for variants returns all of them together instead of a single draft
+        if ((requestData.variantCount && requestData.variantCount > 1) || requestData.angles?.length) {
+            return json(await claudeService.generateEmailVariants(requestData));
+        }
+
+        // ?stream=true sends the body as it is written: 'delta' events carry new
+        // HTML, then a 'done' event carries the same result the JSON mode returns
+        if (url.searchParams.get('stream') === 'true') {
+            return serverSentEventResponse(async (send, signal) => {
+                let sentLength = 0;
+                const result = await claudeService.streamEmailGeneration(requestData, {
+                    signal,
+                    onText: (_delta, snapshot) => {
+                        const htmlBody = ClaudeService.partialJsonString(snapshot, 'htmlBody');
+                        if (htmlBody.length > sentLength) {
+                            send('delta', { text: htmlBody.slice(sentLength) });
+                            sentLength = htmlBody.length;
+                        }
+                    }
+                });
+                send('done', result);
+            }, request.signal, INTERNAL_ERROR);
+        }
+
         const result = await claudeService.generateEmail(requestData);
 
         return json(result);
     } catch (error) {
         console.error('Email generation API error:', error);
-        return json(
-            {
-                success: false,
-                error: {
-                    message: 'Internal server error during email generation',
-                    code: 'AI_API_ERROR',
-                    retryable: true
-                }
-            },
-            { status: 500 }
-        );
+        return json(INTERNAL_ERROR, { status: 500 });
     }
 };
\ No newline at end of file
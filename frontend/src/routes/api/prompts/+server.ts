@@ -0,0 +1,76 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { validatePromptTemplate } from '$lib/utils/prompt-template.js';
+import type { RequestHandler } from './$types.js';
+import type { PromptTemplateData } from '$lib/types/database.js';
+
+export const GET: RequestHandler = async () => {
+    try {
+        const db = DatabaseService.getInstance();
+        const prompts = await db.getAllPromptTemplates();
+
+        return json({
+            success: true,
+            prompts
+        });
+    } catch (error) {
+        console.error('Error fetching prompts:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch prompts'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const POST: RequestHandler = async ({ request }) => {
+    try {
+        const promptData: PromptTemplateData = await request.json();
+
+        // Validate required fields
+        if (!promptData.name || !promptData.name.trim()) {
+            return json(
+                {
+                    success: false,
+                    error: 'Prompt name is required'
+                },
+                { status: 400 }
+            );
+        }
+
+        const contentError = validatePromptTemplate(promptData.content);
+        if (contentError) {
+            return json(
+                {
+                    success: false,
+                    error: contentError
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const promptId = await db.createPromptTemplate({
+            ...promptData,
+            name: promptData.name.trim()
+        });
+        const prompt = await db.getPromptTemplateById(promptId);
+
+        return json({
+            success: true,
+            prompt,
+            message: 'Prompt created successfully'
+        });
+    } catch (error) {
+        console.error('Error creating prompt:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to create prompt'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,172 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { validatePromptTemplate } from '$lib/utils/prompt-template.js';
+import type { RequestHandler } from './$types.js';
+import type { PromptTemplateData } from '$lib/types/database.js';
+
+export const GET: RequestHandler = async ({ params }) => {
+    try {
+        const promptId = parseInt(params.id, 10);
+        if (isNaN(promptId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid prompt ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const prompt = await db.getPromptTemplateById(promptId);
+
+        if (!prompt) {
+            return json(
+                {
+                    success: false,
+                    error: 'Prompt not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        const versions = await db.getPromptTemplateVersions(promptId);
+
+        return json({
+            success: true,
+            prompt,
+            versions
+        });
+    } catch (error) {
+        console.error('Error fetching prompt:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch prompt'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+// Changed content is saved as a new version; earlier versions are kept
+export const PUT: RequestHandler = async ({ params, request }) => {
+    try {
+        const promptId = parseInt(params.id, 10);
+        if (isNaN(promptId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid prompt ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        // Check if prompt exists
+        const existingPrompt = await db.getPromptTemplateById(promptId);
+        if (!existingPrompt) {
+            return json(
+                {
+                    success: false,
+                    error: 'Prompt not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        const updateData: Partial<PromptTemplateData> = await request.json();
+
+        if (updateData.name !== undefined && !updateData.name.trim()) {
+            return json(
+                {
+                    success: false,
+                    error: 'Prompt name cannot be empty'
+                },
+                { status: 400 }
+            );
+        }
+
+        if (updateData.content !== undefined) {
+            const contentError = validatePromptTemplate(updateData.content);
+            if (contentError) {
+                return json(
+                    {
+                        success: false,
+                        error: contentError
+                    },
+                    { status: 400 }
+                );
+            }
+        }
+
+        await db.updatePromptTemplate(promptId, {
+            ...updateData,
+            name: updateData.name?.trim()
+        });
+        const prompt = await db.getPromptTemplateById(promptId);
+        const versions = await db.getPromptTemplateVersions(promptId);
+
+        return json({
+            success: true,
+            prompt,
+            versions
+        });
+    } catch (error) {
+        console.error('Error updating prompt:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to update prompt'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const DELETE: RequestHandler = async ({ params }) => {
+    try {
+        const promptId = parseInt(params.id, 10);
+        if (isNaN(promptId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid prompt ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        // Check if prompt exists
+        const existingPrompt = await db.getPromptTemplateById(promptId);
+        if (!existingPrompt) {
+            return json(
+                {
+                    success: false,
+                    error: 'Prompt not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        await db.deletePromptTemplate(promptId);
+
+        return json({
+            success: true,
+            message: 'Prompt deleted successfully'
+        });
+    } catch (error) {
+        console.error('Error deleting prompt:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to delete prompt'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,130 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { ClaudeService } from '$lib/services/index.js';
+import { buildPromptValues, renderPromptTemplate, validatePromptTemplate } from '$lib/utils/prompt-template.js';
+import type { RequestHandler } from './$types.js';
+import type { SenderDetails } from '$lib/types/index.js';
+
+interface PreviewRequest {
+    businessId: number;
+    // Defaults to the prompt's latest version
+    versionId?: number;
+    // Unsaved content to preview instead of a saved version
+    content?: string;
+    sender?: SenderDetails;
+    personalNotes?: string;
+}
+
+// Renders the exact prompt Claude would be sent for a saved business
+export const POST: RequestHandler = async ({ params, request }) => {
+    try {
+        const promptId = parseInt(params.id, 10);
+        if (isNaN(promptId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid prompt ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const previewData: PreviewRequest = await request.json();
+
+        if (!previewData.businessId) {
+            return json(
+                {
+                    success: false,
+                    error: 'businessId is required'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        const prompt = await db.getPromptTemplateById(promptId);
+        if (!prompt) {
+            return json(
+                {
+                    success: false,
+                    error: 'Prompt not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        const version = previewData.versionId
+            ? await db.getPromptTemplateVersionById(previewData.versionId)
+            : prompt.latestVersion;
+        if (!version || version.promptTemplateId !== promptId) {
+            return json(
+                {
+                    success: false,
+                    error: 'Version not found for this prompt'
+                },
+                { status: 404 }
+            );
+        }
+
+        const business = await db.findBusinessById(previewData.businessId);
+        if (!business) {
+            return json(
+                {
+                    success: false,
+                    error: 'Business not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        const content = previewData.content ?? version.content;
+        const contentError = validatePromptTemplate(content);
+        if (contentError) {
+            return json(
+                {
+                    success: false,
+                    error: contentError
+                },
+                { status: 400 }
+            );
+        }
+
+        // Cleaned the same way as when an email is generated
+        const { scrapedData } = ClaudeService.sanitizeRequest(
+            { scrapedData: business.scrapedData },
+            { id: business.id, name: business.name }
+        );
+
+        const rendered = renderPromptTemplate(content, buildPromptValues({
+            businessName: business.name,
+            websiteUrl: business.websiteUrl,
+            contactEmail: business.contactEmail,
+            description: business.description,
+            scrapedData,
+            sender: previewData.sender,
+            personalNotes: previewData.personalNotes
+        }));
+
+        return json({
+            success: true,
+            prompt: ClaudeService.buildEmailGenerationPrompt({
+                personalNotes: previewData.personalNotes || '',
+                promptTemplate: '',
+                businessContext: '',
+                promptInstructions: rendered.prompt
+            }),
+            missing: rendered.missing,
+            versionId: previewData.content === undefined ? version.id : undefined
+        });
+    } catch (error) {
+        console.error('Error previewing prompt:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to preview prompt'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,51 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+
+export const POST: RequestHandler = async ({ params }) => {
+    try {
+        const promptId = parseInt(params.id, 10);
+        const versionId = parseInt(params.versionId, 10);
+        if (isNaN(promptId) || isNaN(versionId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid prompt or version ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        const version = await db.restorePromptTemplateVersion(promptId, versionId);
+        if (!version) {
+            return json(
+                {
+                    success: false,
+                    error: 'Version not found for this prompt'
+                },
+                { status: 404 }
+            );
+        }
+
+        const prompt = await db.getPromptTemplateById(promptId);
+        const versions = await db.getPromptTemplateVersions(promptId);
+
+        return json({
+            success: true,
+            version,
+            prompt,
+            versions
+        });
+    } catch (error) {
+        console.error('Error restoring prompt version:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to restore prompt version'
+            },
+            { status: 500 }
+        );
+    }
+};
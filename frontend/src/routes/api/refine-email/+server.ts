@@ -0,0 +1,65 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { ClaudeService } from '$lib/services/index.js';
+import type { EmailRefinementRequest } from '$lib/services/index.js';
+import { DatabaseService } from '$lib/database/service.js';
+import { createClaudeService } from '$lib/utils/claude.server.js';
+import { serverSentEventResponse } from '$lib/utils/sse.js';
+
+// Returned when the refinement fails unexpectedly, as JSON or as the stream's 'error' event
+const INTERNAL_ERROR = {
+    success: false,
+    error: {
+        message: 'Internal server error during email refinement',
+        code: 'AI_API_ERROR',
+        retryable: true
+    }
+};
+
+export const POST: RequestHandler = async ({ request, url }) => {
+    try {
+        const claudeService = createClaudeService();
+
+        const requestData: EmailRefinementRequest = await request.json();
+
+        if (!requestData.originalEmail?.trim() || !requestData.feedback?.trim()) {
+            return json(
+                { error: 'originalEmail and feedback are required' },
+                { status: 400 }
+            );
+        }
+
+        const settingsError = ClaudeService.validateGenerationSettings(requestData.generationSettings);
+        if (settingsError) {
+            return json({ error: settingsError }, { status: 400 });
+        }
+
+        // The campaign's model settings apply first, then the request's own
+        if (requestData.campaignId) {
+            const campaign = await DatabaseService.getInstance().getCampaignById(requestData.campaignId);
+            requestData.generationSettings = ClaudeService.mergeGenerationSettings(
+                campaign?.generationSettings,
+                requestData.generationSettings
+            );
+        }
+
+        // ?stream=true sends the revised body as it is written: 'delta' events
+        // carry new HTML, then a 'done' event carries the final result
+        if (url.searchParams.get('stream') === 'true') {
+            return serverSentEventResponse(async (send, signal) => {
+                const result = await claudeService.streamEmailRefinement(requestData, {
+                    signal,
+                    onText: (delta) => send('delta', { text: delta })
+                });
+                send('done', result);
+            }, request.signal, INTERNAL_ERROR);
+        }
+
+        const result = await claudeService.refineEmail(requestData);
+
+        return json(result);
+    } catch (error) {
+        console.error('Email refinement API error:', error);
+        return json(INTERNAL_ERROR, { status: 500 });
+    }
+};
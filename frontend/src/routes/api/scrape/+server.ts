@@ -1,16 +1,32 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
+import { DatabaseService } from '$lib/database/service.js';
 import { webScraperService } from '$lib/services/WebScraperService.js';
+import { ScrapeSnapshotService } from '$lib/services/ScrapeSnapshotService.js';
+import { serverConfig } from '$lib/utils/env.server.js';
 
 export const POST: RequestHandler = async ({ request }) => {
     try {
-        const { url, maxRetries = 2 } = await request.json();
+        const {
+            url,
+            maxRetries = 2,
+            maxPages = serverConfig.scraping.maxPages,
+            mode = serverConfig.scraping.mode,
+            force = false
+        } = await request.json();
 
         if (!url) {
             return json({ error: 'URL is required' }, { status: 400 });
         }
 
-        const result = await webScraperService.scrapeWebsite(url, maxRetries);
+        const snapshots = new ScrapeSnapshotService(DatabaseService.getInstance(), webScraperService);
+        const result = await snapshots.scrape(url, {
+            maxRetries,
+            maxPages,
+            mode,
+            force: force === true,
+            ttlMs: serverConfig.scraping.cacheTtlMs
+        });
 
         return json(result);
     } catch (error) {
@@ -20,4 +36,4 @@ export const POST: RequestHandler = async ({ request }) => {
             { status: 500 }
         );
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,45 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+
+export const GET: RequestHandler = async ({ params }) => {
+    try {
+        const snapshotId = parseInt(params.id, 10);
+        if (isNaN(snapshotId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid snapshot ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const snapshot = await db.getScrapeSnapshotById(snapshotId);
+
+        if (!snapshot) {
+            return json(
+                {
+                    success: false,
+                    error: 'Snapshot not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        return json({
+            success: true,
+            snapshot
+        });
+    } catch (error) {
+        console.error('Error fetching scrape snapshot:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch scrape snapshot'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,38 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+import type { QueueStatus } from '$lib/types/database.js';
+
+export const GET: RequestHandler = async ({ url }) => {
+    try {
+        const status = url.searchParams.get('status');
+        if (status && !['queued', 'sending', 'sent', 'dead'].includes(status)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid queue status'
+                },
+                { status: 400 }
+            );
+        }
+
+        const limit = parseInt(url.searchParams.get('limit') || '100', 10);
+
+        const db = DatabaseService.getInstance();
+        const items = await db.getQueueItems((status as QueueStatus) || undefined, limit);
+
+        return json({
+            success: true,
+            items
+        });
+    } catch (error) {
+        console.error('Error fetching send queue:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch send queue'
+            },
+            { status: 500 }
+        );
+    }
+};
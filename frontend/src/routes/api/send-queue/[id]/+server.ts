@@ -0,0 +1,45 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+
+export const DELETE: RequestHandler = async ({ params }) => {
+    try {
+        const itemId = parseInt(params.id, 10);
+        if (isNaN(itemId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid queue item ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        // Only items the worker has not picked up can be cancelled
+        if (!(await db.cancelQueueItem(itemId))) {
+            return json(
+                {
+                    success: false,
+                    error: 'Queue item not found or already being sent'
+                },
+                { status: 409 }
+            );
+        }
+
+        return json({
+            success: true,
+            message: 'Send cancelled; the email was kept as a draft'
+        });
+    } catch (error) {
+        console.error('Error cancelling queued email:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to cancel queued email'
+            },
+            { status: 500 }
+        );
+    }
+};
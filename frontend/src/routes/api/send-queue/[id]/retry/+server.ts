@@ -0,0 +1,48 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+
+export const POST: RequestHandler = async ({ params }) => {
+    try {
+        const itemId = parseInt(params.id, 10);
+        if (isNaN(itemId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid queue item ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const item = await db.getQueueItemById(itemId);
+
+        if (!item || !(await db.retryQueueItem(itemId))) {
+            return json(
+                {
+                    success: false,
+                    error: 'Only dead-lettered emails can be retried'
+                },
+                { status: 409 }
+            );
+        }
+
+        // Back to a draft until the worker delivers it
+        await db.updateEmailStatus(item.emailId, 'draft');
+
+        return json({
+            success: true,
+            message: 'Email requeued for sending'
+        });
+    } catch (error) {
+        console.error('Error retrying queued email:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to retry email'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,87 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+import type { SequenceData } from '$lib/types/database.js';
+
+export const GET: RequestHandler = async () => {
+    try {
+        const db = DatabaseService.getInstance();
+        const sequences = await db.getAllSequences();
+
+        return json({
+            success: true,
+            sequences
+        });
+    } catch (error) {
+        console.error('Error fetching sequences:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch sequences'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const POST: RequestHandler = async ({ request }) => {
+    try {
+        const sequenceData: SequenceData = await request.json();
+
+        // Validate required fields
+        if (!sequenceData.name || !sequenceData.name.trim()) {
+            return json(
+                {
+                    success: false,
+                    error: 'Sequence name is required'
+                },
+                { status: 400 }
+            );
+        }
+
+        if (!Array.isArray(sequenceData.steps) || sequenceData.steps.length === 0) {
+            return json(
+                {
+                    success: false,
+                    error: 'A sequence needs at least one step'
+                },
+                { status: 400 }
+            );
+        }
+
+        const invalidStep = sequenceData.steps.findIndex(
+            step => !step.prompt || !step.prompt.trim() || !Number.isFinite(step.delayDays) || step.delayDays < 0
+        );
+        if (invalidStep !== -1) {
+            return json(
+                {
+                    success: false,
+                    error: `Step ${invalidStep + 1} needs a prompt and a delay of zero or more days`
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const sequenceId = await db.createSequence({
+            ...sequenceData,
+            name: sequenceData.name.trim()
+        });
+        const sequence = await db.getSequenceById(sequenceId);
+
+        return json({
+            success: true,
+            sequence,
+            message: 'Sequence created successfully'
+        });
+    } catch (error) {
+        console.error('Error creating sequence:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to create sequence'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,90 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+
+export const GET: RequestHandler = async ({ params }) => {
+    try {
+        const sequenceId = parseInt(params.id, 10);
+        if (isNaN(sequenceId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid sequence ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const sequence = await db.getSequenceById(sequenceId);
+
+        if (!sequence) {
+            return json(
+                {
+                    success: false,
+                    error: 'Sequence not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        return json({
+            success: true,
+            sequence
+        });
+    } catch (error) {
+        console.error('Error fetching sequence:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch sequence'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const DELETE: RequestHandler = async ({ params }) => {
+    try {
+        const sequenceId = parseInt(params.id, 10);
+        if (isNaN(sequenceId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid sequence ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const sequence = await db.getSequenceById(sequenceId);
+
+        if (!sequence) {
+            return json(
+                {
+                    success: false,
+                    error: 'Sequence not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        // Steps and enrollments are removed by ON DELETE CASCADE; sent emails are kept
+        await db.deleteSequence(sequenceId);
+
+        return json({
+            success: true,
+            message: 'Sequence deleted successfully'
+        });
+    } catch (error) {
+        console.error('Error deleting sequence:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to delete sequence'
+            },
+            { status: 500 }
+        );
+    }
+};
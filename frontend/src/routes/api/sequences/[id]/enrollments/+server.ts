@@ -0,0 +1,132 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import { SequenceService } from '$lib/services/SequenceService.js';
+import { serverConfig } from '$lib/utils/env.server.js';
+import { createClaudeService } from '$lib/utils/claude.server.js';
+import { lintBlockReason, lintOutgoingEmail } from '$lib/utils/email-lint.server.js';
+import type { RequestHandler } from './$types.js';
+import type { SequenceEnrollmentData } from '$lib/types/database.js';
+
+export const GET: RequestHandler = async ({ params }) => {
+    try {
+        const sequenceId = parseInt(params.id, 10);
+        if (isNaN(sequenceId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid sequence ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const enrollments = await db.getSequenceEnrollments(sequenceId);
+
+        return json({
+            success: true,
+            enrollments
+        });
+    } catch (error) {
+        console.error('Error fetching enrollments:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to fetch enrollments'
+            },
+            { status: 500 }
+        );
+    }
+};
+
+export const POST: RequestHandler = async ({ params, request }) => {
+    try {
+        const sequenceId = parseInt(params.id, 10);
+        if (isNaN(sequenceId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid sequence ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const enrollmentData: Omit<SequenceEnrollmentData, 'sequenceId'> = await request.json();
+
+        // Validate required fields
+        if (!enrollmentData.businessId || !enrollmentData.recipientEmail) {
+            return json(
+                {
+                    success: false,
+                    error: 'Missing required fields: businessId, recipientEmail'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+
+        const [sequence, business] = await Promise.all([
+            db.getSequenceById(sequenceId),
+            db.findBusinessById(enrollmentData.businessId)
+        ]);
+
+        if (!sequence) {
+            return json(
+                {
+                    success: false,
+                    error: 'Sequence not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        if (!business) {
+            return json(
+                {
+                    success: false,
+                    error: 'Business not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        if (await db.findActiveEnrollment(sequenceId, enrollmentData.businessId)) {
+            return json(
+                {
+                    success: false,
+                    error: `${business.name} is already enrolled in this sequence`
+                },
+                { status: 409 }
+            );
+        }
+
+        const sequenceService = new SequenceService(db, createClaudeService(), {
+            fromEmail: serverConfig.email.fromAddress,
+            checkBeforeSend: email => lintBlockReason(lintOutgoingEmail(email))
+        });
+        // Without a sender of its own, each step uses the campaign's, then the configured one
+        const enrollmentId = await sequenceService.enroll({
+            ...enrollmentData,
+            sequenceId,
+            senderEmail: enrollmentData.senderEmail || undefined
+        });
+        const enrollment = await db.getEnrollmentById(enrollmentId);
+
+        return json({
+            success: true,
+            enrollment,
+            message: `${business.name} enrolled in ${sequence.name}`
+        });
+    } catch (error) {
+        console.error('Error enrolling business:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to enroll business'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,48 @@
+import { json } from '@sveltejs/kit';
+import { DatabaseService } from '$lib/database/service.js';
+import type { RequestHandler } from './$types.js';
+
+export const DELETE: RequestHandler = async ({ params }) => {
+    try {
+        const enrollmentId = parseInt(params.enrollmentId, 10);
+        if (isNaN(enrollmentId)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Invalid enrollment ID'
+                },
+                { status: 400 }
+            );
+        }
+
+        const db = DatabaseService.getInstance();
+        const enrollment = await db.getEnrollmentById(enrollmentId);
+
+        if (!enrollment || enrollment.sequenceId !== parseInt(params.id, 10)) {
+            return json(
+                {
+                    success: false,
+                    error: 'Enrollment not found'
+                },
+                { status: 404 }
+            );
+        }
+
+        // Stopping keeps the enrollment for history instead of deleting it
+        await db.stopEnrollment(enrollmentId, 'manual');
+
+        return json({
+            success: true,
+            message: 'Enrollment stopped'
+        });
+    } catch (error) {
+        console.error('Error stopping enrollment:', error);
+        return json(
+            {
+                success: false,
+                error: 'Failed to stop enrollment'
+            },
+            { status: 500 }
+        );
+    }
+};
@@ -0,0 +1,37 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import type { FactCheckRequest } from '$lib/services/index.js';
+import { createClaudeService } from '$lib/utils/claude.server.js';
+
+// Check the claims a draft makes about the recipient against the business info
+export const POST: RequestHandler = async ({ request }) => {
+    try {
+        const claudeService = createClaudeService();
+
+        const requestData: FactCheckRequest = await request.json();
+
+        if (!requestData.emailContent?.trim()) {
+            return json(
+                { error: 'emailContent is required' },
+                { status: 400 }
+            );
+        }
+
+        const result = await claudeService.verifyEmailFacts(requestData);
+
+        return json(result);
+    } catch (error) {
+        console.error('Fact check API error:', error);
+        return json(
+            {
+                success: false,
+                error: {
+                    message: 'Internal server error during fact check',
+                    code: 'AI_API_ERROR',
+                    retryable: true
+                }
+            },
+            { status: 500 }
+        );
+    }
+};